@@ -9,83 +9,329 @@
  * @module cli
  */
 
+import fs from 'fs';
+import path from 'path';
 import { FaeptsAnalyzer } from './core/analyzer';
 import { GitChangeAnalyzer } from './utils/git-analyzer';
 import { EndPointLister } from './core/endpoint-lister';
-import { EndpointListResult } from './core/types';
-import { DeployMaker } from './core/deploy-maker';
+import { ProjectModel, ProjectModelOptions } from './core/project-model';
+import { AnalysisSeed, AnalyzerOptions, ConfigChange, EndpointListResult, GitDiffOptions, GlobalOptionsChange } from './core/types';
+import { DeployMaker, RenamedDeployName } from './core/deploy-maker';
+import { findTypeOnlyEntities } from './core/entity-diff';
+import { compareSnapshots, createSnapshot, readSnapshot } from './core/snapshot';
 import { groupEndpointsByPathAndVersion } from './utils/endpoint-formatter';
+import { normalizeCliInput } from './utils/file-system';
+
+/**
+ * Flags that take a value, either as `--flag value` or `--flag=value`.
+ */
+const VALUE_FLAGS = new Set(['--base', '--head', '--since-tag', '--against', '--output', '--patch', '--jobs']);
+
+/**
+ * Default path of the manifest written by the snapshot command.
+ */
+const DEFAULT_SNAPSHOT_PATH = 'fire-diff-manifest.json';
+
+/**
+ * Parsed command line arguments.
+ */
+interface ParsedArgs {
+  /** The command (first positional argument), or undefined if none given. */
+  command: string | undefined;
+  /** Positional arguments following the command. */
+  positionals: string[];
+  /** Flags mapped to their value (true for boolean flags). */
+  flags: Map<string, string | true>;
+}
+
+/**
+ * Splits raw arguments into the command, positionals and flags.
+ * 
+ * @param args Raw arguments (process.argv without node and script path).
+ * @returns The parsed arguments.
+ */
+function tokenizeArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { command: undefined, positionals: [], flags: new Map() };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+
+    if (arg.startsWith('-')) {
+      const eqIndex = arg.indexOf('=');
+      const name = eqIndex === -1 ? arg : arg.substring(0, eqIndex);
+
+      if (VALUE_FLAGS.has(name)) {
+        const value = eqIndex === -1 ? args[++i] : arg.substring(eqIndex + 1);
+        if (value === undefined || value === '') {
+          console.error(`[FIRE-DIFF] Error: ${name} requires a value.`);
+          process.exit(1);
+        }
+        parsed.flags.set(name, value);
+      } else {
+        parsed.flags.set(name, true);
+      }
+      continue;
+    }
+
+    if (parsed.command === undefined) {
+      parsed.command = arg;
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Gets the value of a flag that takes a value.
+ * 
+ * @param parsed The parsed arguments.
+ * @param name The flag name (e.g., "--base").
+ * @returns The flag value, or undefined if the flag was not given.
+ */
+function getFlagValue(parsed: ParsedArgs, name: string): string | undefined {
+  const value = parsed.flags.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Prints the affected endpoints and the commands to deploy them, separated
+ * by version, followed by moved and removed endpoints.
+ * 
+ * @param deployNamesV1 Deployment names of affected v1 endpoints.
+ * @param deployNamesV2 Deployment names of affected v2 endpoints.
+ * @param renamedNames Endpoints whose deployment name changed.
+ * @param removedNames Deployment names of endpoints to delete.
+ */
+function printDeploymentPlan(
+    deployNamesV1: string[],
+    deployNamesV2: string[],
+    renamedNames: RenamedDeployName[],
+    removedNames: string[]
+): void {
+    // Output the deployment names with headers, separated by version
+    const hasV1 = deployNamesV1.length > 0;
+    const hasV2 = deployNamesV2.length > 0;
+    const hasRemoved = removedNames.length > 0;
+    const hasRenamed = renamedNames.length > 0;
+    
+    if (hasV1 || hasV2 || hasRemoved || hasRenamed) {
+        // V1 endpoints output
+        if (hasV1) {
+            console.log('Affected endpoints (v1):');
+            console.log('----------------------');
+            console.log(deployNamesV1.join('\n'));
+            console.log('');
+            
+            console.log('Ready to deploy (v1):');
+            console.log('---------------------');
+            const deployCommandV1 = `firebase deploy --only ${deployNamesV1.map(name => `functions:${name}`).join(',')}`;
+            console.log(deployCommandV1);
+            console.log("");
+        }
+        
+        // V2 endpoints output
+        if (hasV2) {
+            console.log('Affected endpoints (v2):');
+            console.log('----------------------');
+            console.log(deployNamesV2.join('\n'));
+            console.log('');
+            
+            console.log('Ready to deploy (v2):');
+            console.log('---------------------');
+            const deployCommandV2 = `firebase deploy --only ${deployNamesV2.map(name => `functions:${name}`).join(',')}`;
+            console.log(deployCommandV2);
+            console.log("");
+        }
+
+        // Moved endpoints output
+        if (hasRenamed) {
+            console.log('Moved endpoints (deploy name changed):');
+            console.log('--------------------------------------');
+            console.log(renamedNames.map(r => `${r.from} -> ${r.to}`).join('\n'));
+            console.log('');
+        }
+
+        // Removed endpoints output
+        if (hasRemoved) {
+            console.log('Removed endpoints:');
+            console.log('------------------');
+            console.log(removedNames.join('\n'));
+            console.log('');
+
+            console.log('Ready to delete:');
+            console.log('----------------');
+            console.log(`firebase functions:delete ${removedNames.join(' ')} --force`);
+            console.log("");
+        }
+    } else {
+        console.log('[FIRE-DIFF] No affected endpoints found.');
+    }
+}
+
+/**
+ * Prints the changed global configuration call sites and marks every
+ * endpoint of their versions as affected.
+ * 
+ * @param analyzer The project analyzer.
+ * @param changes The changed call sites (see FaeptsAnalyzer.findGlobalOptionsChanges).
+ */
+function applyGlobalOptionsChanges(analyzer: FaeptsAnalyzer, changes: GlobalOptionsChange[]): void {
+    if (changes.length === 0) return;
+
+    console.log('Global options changes (all endpoints of the version affected):');
+    console.log('---------------------------------------------------------------');
+    for (const change of changes) {
+        const relativePath = path.relative(analyzer.root, change.path).replace(/\\/g, '/');
+        console.log(`${relativePath}: global options changed (${change.call} in ${change.fn}, ${change.version})`);
+    }
+    console.log('');
+
+    for (const version of new Set(changes.map(change => change.version))) {
+        analyzer.markAllEndpointsAffected(version);
+    }
+}
+
+/**
+ * Prints the configuration changes, which affect every endpoint.
+ * 
+ * @param changes The classified configuration changes (see core/config-changes).
+ */
+function printConfigChanges(changes: ConfigChange[]): void {
+    console.log('Configuration changes (all endpoints affected):');
+    console.log('-----------------------------------------------');
+    for (const change of changes) {
+        const scope = change.scope === 'project'
+            ? ` (when deploying to project '${change.project}')`
+            : '';
+        console.log(`${change.path}: ${change.reason}${scope}`);
+    }
+    console.log('');
+}
+
+/**
+ * Prints the endpoints left out of the deployment plan in runtime-only mode,
+ * because they are affected by type-level changes only.
+ * 
+ * @param dm Deploy maker of the type-only endpoints.
+ * @param deployedNames Deployment names already in the plan (not repeated).
+ */
+function printTypeOnlyEndpoints(dm: DeployMaker, deployedNames: Set<string>): void {
+    const names = [...dm.getDeployNamesByVersion('v1'), ...dm.getDeployNamesByVersion('v2')]
+        .filter(name => !deployedNames.has(name));
+    if (names.length === 0) return;
+
+    console.log('Type-only changes (not deployed with --runtime-only):');
+    console.log('-----------------------------------------------------');
+    console.log(names.join('\n'));
+    console.log('');
+}
 
 /**
  * Analyzes git changes and determines which Firebase Cloud Functions
  * need to be redeployed based on affected dependencies.
  * 
+ * @param diffOptions Revisions to compare (defaults to HEAD against the working tree).
+ * @param analyzerOptions Analysis options (e.g., symbol-accurate mode).
+ * 
  * Exit codes:
  * - 0: Success (affected functions found or no changes detected)
  * - 1: Error occurred during execution
  */
 
-function analysisProcedure(): void {
+function analysisProcedure(diffOptions: GitDiffOptions = {}, analyzerOptions: AnalyzerOptions = {}): void {
     try {
         // Initialize the analyzer to build the project dependency graph
-        const analyzer = new FaeptsAnalyzer();
+        const analyzer = new FaeptsAnalyzer(analyzerOptions);
         
         // Analyze git changes to find modified files
-        const gitAnalyzer = new GitChangeAnalyzer(analyzer.topEntities, analyzer.root);
+        const gitAnalyzer = new GitChangeAnalyzer(analyzer.model, diffOptions);
         const changedEntities = gitAnalyzer.getChangedEntities();
+        let typeOnlyEndPoints: AnalysisSeed[] = [];
 
-        // If no changes detected, exit gracefully
-        if (changedEntities.length === 0) {
-            console.log('[FIRE-DIFF] No relevant .ts file changes detected.');
-            process.exit(0);
-        }
+        if (gitAnalyzer.everythingAffected) {
+            // The diff base was unavailable and the user opted in to a full deploy
+            analyzer.markAllEndpointsAffected();
+        } else {
+            const configChanges = gitAnalyzer.configChanges;
+            const packageChanges = gitAnalyzer.packageChanges;
 
-        // Recursively find all functions affected by the changed files
-        for (const seed of changedEntities) {
-            analyzer.findAffectedFunctionsRecursive(seed);
+            // If no changes detected, exit gracefully
+            if (changedEntities.length === 0 && gitAnalyzer.removedEndpoints.length === 0 &&
+                configChanges.length === 0 && packageChanges.length === 0) {
+                console.log('[FIRE-DIFF] No relevant source file changes detected.');
+                process.exit(0);
+            }
+
+            // Recursively find all functions affected by the changed files
+            for (const seed of changedEntities) {
+                analyzer.findAffectedFunctionsRecursive(seed);
+            }
+
+            // Runtime-only mode: endpoints reached through type-level changes only are reported apart
+            if (analyzerOptions.runtimeOnly) {
+                typeOnlyEndPoints = analyzer.removeTypeOnlyEndpoints(changedEntities, gitAnalyzer.typeOnlyChanges);
+            }
+
+            // setGlobalOptions(), onInit() and shared runWith() defaults affect every endpoint of their version
+            applyGlobalOptionsChanges(
+                analyzer,
+                analyzer.findGlobalOptionsChanges(changedEntities, (filePath) => gitAnalyzer.getBaseFileContent(filePath))
+            );
+
+            // Configuration changes (package.json, tsconfig, .env, firebase.json) affect every function
+            if (configChanges.length > 0) {
+                printConfigChanges(configChanges);
+                analyzer.markAllEndpointsAffected();
+            }
         }
 
         // Generate deployment names based on affected endpoints
-        const dm = new DeployMaker(analyzer.endPoints, analyzer.root);
+        const dm = new DeployMaker(analyzer.endPoints, analyzer.root, {
+            removedEndPoints: gitAnalyzer.removedEndpoints,
+            movedEndPoints: gitAnalyzer.movedEndpoints,
+            readBaseFile: (filePath) => gitAnalyzer.getBaseFileContent(filePath),
+            model: analyzer.model
+        });
+
+        // Dependency changes (package-lock.json) with the endpoints each package affects
+        if (!gitAnalyzer.everythingAffected && gitAnalyzer.packageChanges.length > 0) {
+            console.log('Dependency changes:');
+            console.log('-------------------');
+            for (const change of gitAnalyzer.packageChanges) {
+                const version = change.from === change.to
+                    ? `${change.to}`
+                    : `${change.from ?? '(none)'} -> ${change.to ?? '(none)'}`;
+                const transitive = change.transitive.length > 0
+                    ? ` (transitive: ${change.transitive.join('; ')})`
+                    : '';
+                const names = [...new Set(analyzer.getReachableEndpoints(change.seeds).flatMap(ep => dm.getDeployName(ep) ?? []))];
+                console.log(`${change.name} ${version}${transitive}: ${names.length > 0 ? names.join(', ') : '(no endpoints)'}`);
+            }
+            console.log('');
+        }
         const deployNamesV1 = dm.getDeployNamesByVersion('v1');
         const deployNamesV2 = dm.getDeployNamesByVersion('v2');
-        
-        // Output the deployment names with headers, separated by version
-        const hasV1 = deployNamesV1.length > 0;
-        const hasV2 = deployNamesV2.length > 0;
-        
-        if (hasV1 || hasV2) {
-            // V1 endpoints output
-            if (hasV1) {
-                console.log('Affected endpoints (v1):');
-                console.log('----------------------');
-                console.log(deployNamesV1.join('\n'));
-                console.log('');
-                
-                console.log('Ready to deploy (v1):');
-                console.log('---------------------');
-                const deployCommandV1 = `firebase deploy --only ${deployNamesV1.map(name => `functions:${name}`).join(',')}`;
-                console.log(deployCommandV1);
-                console.log("");
-            }
-            
-            // V2 endpoints output
-            if (hasV2) {
-                console.log('Affected endpoints (v2):');
-                console.log('----------------------');
-                console.log(deployNamesV2.join('\n'));
-                console.log('');
-                
-                console.log('Ready to deploy (v2):');
-                console.log('---------------------');
-                const deployCommandV2 = `firebase deploy --only ${deployNamesV2.map(name => `functions:${name}`).join(',')}`;
-                console.log(deployCommandV2);
-                console.log("");
-            }
-        } else {
-            console.log('[FIRE-DIFF] No affected endpoints found.');
+
+        // Endpoints moved to another group are deployed under a new name,
+        // so the function with the old name has to be deleted
+        const renamedNames = dm.getRenamedDeployNames();
+
+        // Never delete a function whose deployment name still exists
+        // (e.g., an endpoint that was moved to another file of the same group)
+        const deployedNames = new Set([...deployNamesV1, ...deployNamesV2]);
+        let removedNames = [...new Set([...dm.getRemovedDeployNames(), ...renamedNames.map(r => r.from)])]
+            .filter(name => !deployedNames.has(name));
+        // A working tree without the patch applied still contains the removed endpoints
+        if (removedNames.length > 0 && !gitAnalyzer.workingTreeIsBase) {
+            const existingNames = new Set(new EndPointLister(analyzer.model).listAllEndpoints().map(ep => ep.deployname));
+            removedNames = removedNames.filter(name => !existingNames.has(name));
         }
         
+        printDeploymentPlan(deployNamesV1, deployNamesV2, renamedNames, removedNames);
+        printTypeOnlyEndpoints(new DeployMaker(typeOnlyEndPoints, analyzer.root, { model: analyzer.model }), deployedNames);
+        
         process.exit(0);
         } catch (error) {
         // Handle any errors gracefully with user-friendly messages
@@ -97,23 +343,191 @@ function analysisProcedure(): void {
         }    
 }
 
+/**
+ * Finds affected endpoints by comparing content hashes against a snapshot
+ * manifest (see "snapshot" command), independent of git history.
+ * 
+ * @param manifestPath Path to the manifest of the deployed state.
+ * @param analyzerOptions Analysis options (e.g., symbol-accurate mode).
+ * 
+ * Exit codes:
+ * - 0: Success (affected functions found or no changes detected)
+ * - 1: Error occurred during execution
+ */
+function manifestAnalysisProcedure(manifestPath: string, analyzerOptions: AnalyzerOptions = {}): void {
+    try {
+        const deployed = readSnapshot(manifestPath);
+        const analyzer = new FaeptsAnalyzer(analyzerOptions);
+        const current = createSnapshot(analyzer, new EndPointLister(analyzer.model).listAllEndpoints());
+        const { affected, removed, configChanges, globalOptionsVersions } = compareSnapshots(deployed, current, analyzer.root);
+
+        if (globalOptionsVersions.length > 0) {
+            console.log('Global options changes (all endpoints of the version affected):');
+            console.log('---------------------------------------------------------------');
+            for (const version of globalOptionsVersions) {
+                console.log(`global options changed (${version})`);
+            }
+            console.log('');
+        }
+        if (configChanges.length > 0) {
+            printConfigChanges(configChanges);
+        }
+
+        const deployNamesV1 = affected.filter(ep => ep.version === 'v1').map(ep => ep.deployname);
+        const deployNamesV2 = affected.filter(ep => ep.version === 'v2').map(ep => ep.deployname);
+
+        printDeploymentPlan(deployNamesV1, deployNamesV2, [], removed.map(ep => ep.deployname));
+
+        process.exit(0);
+    } catch (error) {
+        console.error('[FIRE-DIFF] Error:', error instanceof Error ? error.message : String(error));
+        if (error instanceof Error && error.stack) {
+            console.error('[FIRE-DIFF] Stack trace:', error.stack);
+        }
+        process.exit(1);
+    }
+}
+
+/**
+ * Builds analysis seeds from "impact" arguments of the form "<path>[#symbol]".
+ * Paths are relative to the project root and may include the root folder
+ * name (e.g., "functions/src/db/dbUser.ts#getUser"). Without a symbol,
+ * every top-level entity of the file is used.
+ * 
+ * @param analyzer The project analyzer.
+ * @param targets The raw arguments.
+ * @returns The seeds.
+ * @throws Error if a file or symbol does not exist in the project.
+ */
+function buildImpactSeeds(analyzer: FaeptsAnalyzer, targets: string[]): AnalysisSeed[] {
+    const seeds: AnalysisSeed[] = [];
+
+    for (const target of targets) {
+        const hashIndex = target.indexOf('#');
+        const rawPath = hashIndex === -1 ? target : target.substring(0, hashIndex);
+        const symbol = hashIndex === -1 ? undefined : target.substring(hashIndex + 1);
+
+        const filePath = path.resolve(analyzer.root, normalizeCliInput(rawPath, analyzer.root));
+        const entityMap = analyzer.topEntities.find(e => e.path === filePath);
+        if (!entityMap) {
+            throw new Error(`File not found in project: ${rawPath}`);
+        }
+
+        if (symbol === undefined || symbol === '') {
+            seeds.push(...entityMap.funcs.map(entity => ({ fn: entity.fn, path: filePath })));
+            continue;
+        }
+
+        // Property paths (e.g., "KEYS.CREATOR") are checked by their object name
+        const entityName = symbol.split('.')[0];
+        if (!entityMap.funcs.some(entity => entity.fn === entityName)) {
+            const available = entityMap.funcs.map(entity => entity.fn).join(', ');
+            throw new Error(`Symbol "${symbol}" not found in ${rawPath}. Available: ${available || '(none)'}`);
+        }
+        seeds.push({ fn: symbol, path: filePath });
+    }
+
+    return seeds;
+}
+
+/**
+ * Finds the endpoints affected by a hypothetical change to the given files
+ * or symbols, without looking at git.
+ * 
+ * @param targets Arguments of the form "<path>[#symbol]".
+ * @param analyzerOptions Analysis options (e.g., symbol-accurate mode).
+ * 
+ * Exit codes:
+ * - 0: Success (affected functions found or none)
+ * - 1: Error occurred during execution
+ */
+function impactProcedure(targets: string[], analyzerOptions: AnalyzerOptions = {}): void {
+    try {
+        const analyzer = new FaeptsAnalyzer(analyzerOptions);
+        const seeds = buildImpactSeeds(analyzer, targets);
+
+        for (const seed of seeds) {
+            analyzer.findAffectedFunctionsRecursive(seed);
+        }
+
+        // Runtime-only mode: changing a type-only entity (e.g., an interface) is a type-level change
+        let typeOnlyEndPoints: AnalysisSeed[] = [];
+        if (analyzerOptions.runtimeOnly) {
+            const typeOnlySeeds = new Set<string>();
+            for (const seed of seeds) {
+                const content = fs.readFileSync(seed.path, 'utf8');
+                if (findTypeOnlyEntities(seed.path, content).has(seed.fn)) {
+                    typeOnlySeeds.add(`${seed.path}#${seed.fn}`);
+                }
+            }
+            typeOnlyEndPoints = analyzer.removeTypeOnlyEndpoints(seeds, typeOnlySeeds);
+        }
+
+        applyGlobalOptionsChanges(analyzer, analyzer.findGlobalOptionsChanges(seeds));
+
+        const dm = new DeployMaker(analyzer.endPoints, analyzer.root, { model: analyzer.model });
+        const deployNamesV1 = dm.getDeployNamesByVersion('v1');
+        const deployNamesV2 = dm.getDeployNamesByVersion('v2');
+        printDeploymentPlan(deployNamesV1, deployNamesV2, [], []);
+        printTypeOnlyEndpoints(new DeployMaker(typeOnlyEndPoints, analyzer.root, { model: analyzer.model }), new Set([...deployNamesV1, ...deployNamesV2]));
+
+        process.exit(0);
+    } catch (error) {
+        console.error('[FIRE-DIFF] Error:', error instanceof Error ? error.message : String(error));
+        if (error instanceof Error && error.stack) {
+            console.error('[FIRE-DIFF] Stack trace:', error.stack);
+        }
+        process.exit(1);
+    }
+}
+
+/**
+ * Writes a snapshot manifest with the content hash of every entity and the
+ * dependency closure hash of every endpoint, to be compared later with
+ * "analyze --against".
+ * 
+ * @param outputPath Path of the manifest file to write.
+ * @param analyzerOptions Analysis options (e.g., symbol-accurate mode).
+ * 
+ * Exit codes:
+ * - 0: Success (manifest written)
+ * - 1: Error occurred during execution
+ */
+function snapshotProcedure(outputPath: string, analyzerOptions: AnalyzerOptions = {}): void {
+  try {
+    const analyzer = new FaeptsAnalyzer(analyzerOptions);
+    const manifest = createSnapshot(analyzer, new EndPointLister(analyzer.model).listAllEndpoints());
+    fs.writeFileSync(outputPath, JSON.stringify(manifest, null, 2) + '\n');
+
+    console.log(`[FIRE-DIFF] Snapshot written to ${outputPath} (${Object.keys(manifest.entities).length} entities, ${manifest.endpoints.length} endpoints).`);
+    process.exit(0);
+  } catch (error) {
+    console.error('[FIRE-DIFF] Error:', error instanceof Error ? error.message : String(error));
+    if (error instanceof Error && error.stack) {
+      console.error('[FIRE-DIFF] Stack trace:', error.stack);
+    }
+    process.exit(1);
+  }
+}
+
 /**
  * Runs the "List All Endpoints" feature.
  * This is independent of git changes.
  * 
  * @param jsonOutput If true, outputs results in JSON format.
+ * @param modelOptions Project model options (e.g., whether the on-disk cache is used).
  * 
  * Exit codes:
  * - 0: Success (endpoints listed or none found)
  * - 1: Error occurred during execution
  */
-function listProcedure(jsonOutput: boolean = false): void {
+function listProcedure(jsonOutput: boolean = false, modelOptions: ProjectModelOptions = {}): void {
   try {
     if (!jsonOutput) {
       console.log('[FIRE-DIFF] Listing all endpoints in the project...');
     }
 
-    const lister = new EndPointLister();
+    const lister = new EndPointLister(new ProjectModel(modelOptions));
     
     const allEndpoints = lister.listAllEndpoints();
     if (allEndpoints.length === 0) {
@@ -170,14 +584,45 @@ Usage: fire-diff [command] [options]
 Commands:
   analyze              Analyze git changes and find affected endpoints (default)
   endpoints            List all Firebase Functions endpoints in the project
+  impact <path>[#sym]  Find endpoints affected by a change to a file or symbol (without git)
+  snapshot [file]      Write a content-hash manifest of the project (e.g., of the deployed state)
 
 Options:
   --json               Output results in JSON format (endpoints command only)
+  --base <ref>         Compare against the merge-base of <ref> and head (analyze only)
+  --head <ref>         Analyze the files as they are at <ref> instead of the working tree
+  --since-tag <glob>   Use the most recent tag matching <glob> before head as base (e.g., "v*")
+  --staged             Analyze only staged changes (git diff --cached), e.g. in a pre-commit hook
+  --fallback-all       Treat every endpoint as affected if the base cannot be resolved
+  --against <file>     Compare against a snapshot manifest instead of git (analyze only)
+  --patch <file|->     Analyze a unified diff (a file, or "-" for stdin) instead of git (analyze only)
+  --precise            Resolve references with the TypeScript type checker instead of name matching
+  --runtime-only       Do not deploy endpoints affected by type-level changes only (analyze and impact)
+  --output <file>      Manifest path for "snapshot" (default: ${DEFAULT_SNAPSHOT_PATH})
+  --no-cache           Reparse every file instead of reusing the parse results cached in
+                       node_modules/.cache/fire-diff (keyed by file content and tool version)
+  --jobs <n>           Number of worker threads parsing files (default: number of CPUs)
   --help, -h           Show this help message
 
 Examples:
   fire-diff                           # Analyze git changes (default)
   fire-diff analyze                   # Same as above
+  fire-diff analyze --base origin/main --head HEAD
+                                      # Analyze the changes of a branch (e.g., in CI)
+  fire-diff analyze --since-tag "v*"  # Analyze changes since the last release tag
+  fire-diff analyze --staged          # Analyze the changes the next commit will contain
+  fire-diff impact functions/src/db/dbUser.ts#getUser
+                                      # What redeploys if getUser changes?
+  fire-diff snapshot --output deployed.json
+                                      # Record the state that is being deployed
+  fire-diff analyze --against deployed.json
+                                      # Find endpoints changed since that snapshot
+  fire-diff analyze --patch changes.diff
+                                      # Analyze a patch (applied or not) without git
+  gh pr diff 42 | fire-diff analyze --patch -
+                                      # Analyze a pull request diff from stdin
+  fire-diff analyze --precise         # Exact dependents (slower: type-checks the project)
+  fire-diff analyze --runtime-only    # Ignore interface and type alias changes
   fire-diff endpoints                 # List all endpoints
   fire-diff endpoints --json          # List all endpoints in JSON format
   fire-diff --help                    # Show help
@@ -190,31 +635,156 @@ For more information, visit: https://github.com/temelyazilim/fire-diff-cli
  * Parses command line arguments and routes to appropriate procedure.
  */
 function parseArgs(): void {
-  const args = process.argv.slice(2);
+  const parsed = tokenizeArgs(process.argv.slice(2));
 
   // Global flags (can appear before or after command)
-  if (args.includes('--help') || args.includes('-h')) {
+  if (parsed.flags.has('--help') || parsed.flags.has('-h')) {
     showHelp();
     process.exit(0);
   }
 
   // Get command (first non-flag argument)
-  const command = args.find(arg => !arg.startsWith('--') && !arg.startsWith('-')) || 'analyze';
+  const command = parsed.command || 'analyze';
 
   // Parse flags
-  const jsonOutput = args.includes('--json');
+  const jsonOutput = parsed.flags.has('--json');
+
+  const diffOptions: GitDiffOptions = {};
+  const base = getFlagValue(parsed, '--base');
+  const head = getFlagValue(parsed, '--head');
+  const sinceTag = getFlagValue(parsed, '--since-tag');
+  if (base !== undefined) diffOptions.base = base;
+  if (head !== undefined) diffOptions.head = head;
+  if (sinceTag !== undefined) diffOptions.sinceTag = sinceTag;
+  if (parsed.flags.has('--fallback-all')) diffOptions.fallbackToAll = true;
+  if (parsed.flags.has('--staged')) diffOptions.staged = true;
+
+  const usesDiffFlags = Object.keys(diffOptions).length > 0;
+  if (usesDiffFlags && command !== 'analyze') {
+    console.error('[FIRE-DIFF] Error: --base, --head, --since-tag, --staged and --fallback-all are only supported with "analyze" command.');
+    process.exit(1);
+  }
+  if (base !== undefined && sinceTag !== undefined) {
+    console.error('[FIRE-DIFF] Error: --base and --since-tag cannot be used together.');
+    process.exit(1);
+  }
+  if (head !== undefined && diffOptions.staged) {
+    console.error('[FIRE-DIFF] Error: --staged cannot be used together with --head.');
+    process.exit(1);
+  }
+  if (head !== undefined && base === undefined && sinceTag === undefined) {
+    console.error('[FIRE-DIFF] Error: --head requires --base or --since-tag.');
+    process.exit(1);
+  }
+
+  const against = getFlagValue(parsed, '--against');
+  if (against !== undefined && command !== 'analyze') {
+    console.error('[FIRE-DIFF] Error: --against is only supported with "analyze" command.');
+    process.exit(1);
+  }
+  if (against !== undefined && usesDiffFlags) {
+    console.error('[FIRE-DIFF] Error: --against cannot be used together with --base, --head, --since-tag, --staged or --fallback-all.');
+    process.exit(1);
+  }
+
+  const patch = getFlagValue(parsed, '--patch');
+  if (patch !== undefined && command !== 'analyze') {
+    console.error('[FIRE-DIFF] Error: --patch is only supported with "analyze" command.');
+    process.exit(1);
+  }
+  if (patch !== undefined && (usesDiffFlags || against !== undefined)) {
+    console.error('[FIRE-DIFF] Error: --patch cannot be used together with --base, --head, --since-tag, --staged, --fallback-all or --against.');
+    process.exit(1);
+  }
+  if (patch !== undefined) {
+    try {
+      diffOptions.patch = fs.readFileSync(patch === '-' ? 0 : patch, 'utf8');
+    } catch (e) {
+      console.error(`[FIRE-DIFF] Error: Could not read patch: ${patch === '-' ? 'stdin' : patch}`);
+      process.exit(1);
+    }
+  }
+
+  const output = getFlagValue(parsed, '--output');
+  if (output !== undefined && command !== 'snapshot') {
+    console.error('[FIRE-DIFF] Error: --output is only supported with "snapshot" command.');
+    process.exit(1);
+  }
+
+  const analyzerOptions: AnalyzerOptions = {};
+  if (parsed.flags.has('--precise')) {
+    if (command === 'endpoints') {
+      console.error('[FIRE-DIFF] Error: --precise is only supported with "analyze", "impact" and "snapshot" commands.');
+      process.exit(1);
+    }
+    analyzerOptions.symbolAccurate = true;
+  }
+  if (parsed.flags.has('--runtime-only')) {
+    if (command !== 'analyze' && command !== 'impact') {
+      console.error('[FIRE-DIFF] Error: --runtime-only is only supported with "analyze" and "impact" commands.');
+      process.exit(1);
+    }
+    if (against !== undefined) {
+      console.error('[FIRE-DIFF] Error: --runtime-only cannot be used together with --against.');
+      process.exit(1);
+    }
+    analyzerOptions.runtimeOnly = true;
+  }
+  if (parsed.flags.has('--no-cache')) {
+    analyzerOptions.cache = false;
+  }
+  const jobs = getFlagValue(parsed, '--jobs');
+  if (jobs !== undefined) {
+    if (!/^[1-9]\d*$/.test(jobs)) {
+      console.error('[FIRE-DIFF] Error: --jobs requires a positive integer.');
+      process.exit(1);
+    }
+    analyzerOptions.jobs = parseInt(jobs, 10);
+  }
+
+  // Only "impact" and "snapshot" take positional arguments
+  if ((command === 'analyze' || command === 'endpoints') && parsed.positionals.length > 0) {
+    console.error(`[FIRE-DIFF] Error: Unexpected argument "${parsed.positionals[0]}" for "${command}" command.`);
+    process.exit(1);
+  }
 
   // Route to appropriate procedure
   switch (command) {
     case 'endpoints':
-      listProcedure(jsonOutput);
+      listProcedure(jsonOutput, analyzerOptions);
       break;
     case 'analyze':
       if (jsonOutput) {
         console.error('[FIRE-DIFF] Error: --json flag is only supported with "endpoints" command.');
         process.exit(1);
       }
-      analysisProcedure();
+      if (against !== undefined) {
+        manifestAnalysisProcedure(against, analyzerOptions);
+      } else {
+        analysisProcedure(diffOptions, analyzerOptions);
+      }
+      break;
+    case 'impact':
+      if (jsonOutput) {
+        console.error('[FIRE-DIFF] Error: --json flag is only supported with "endpoints" command.');
+        process.exit(1);
+      }
+      if (parsed.positionals.length === 0) {
+        console.error('[FIRE-DIFF] Error: "impact" requires at least one <path>[#symbol] argument.');
+        process.exit(1);
+      }
+      impactProcedure(parsed.positionals, analyzerOptions);
+      break;
+    case 'snapshot':
+      if (jsonOutput) {
+        console.error('[FIRE-DIFF] Error: --json flag is only supported with "endpoints" command.');
+        process.exit(1);
+      }
+      if (parsed.positionals.length > 1 || (parsed.positionals.length === 1 && output !== undefined)) {
+        console.error('[FIRE-DIFF] Error: "snapshot" takes a single manifest path (either [file] or --output <file>).');
+        process.exit(1);
+      }
+      snapshotProcedure(parsed.positionals[0] ?? output ?? DEFAULT_SNAPSHOT_PATH, analyzerOptions);
       break;
     default:
       console.error(`[FIRE-DIFF] Error: Unknown command "${command}".`);
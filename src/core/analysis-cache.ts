@@ -0,0 +1,236 @@
+/**
+ * Analysis cache module.
+ *
+ * This module persists the parse results of each source file (see
+ * core/file-analysis) in 'node_modules/.cache/fire-diff/' of the project,
+ * keyed by the file's content hash and the tool version, so later runs only
+ * reparse the files that changed since. A cache written by another version
+ * of the tool is discarded as a whole.
+ *
+ * @module core/analysis-cache
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ClassDeclarationInfo } from './class-hierarchy';
+import { ImportedBinding } from './export-map';
+import { FileAnalysis } from './file-analysis';
+import { EndpointInfo } from './firebase-helpers';
+import { TopLevelEntity } from './types';
+
+/**
+ * Version of the cache layout, bumped when FileAnalysis changes shape or
+ * what it records for the same content (e.g., the statements of the module init entity).
+ */
+const CACHE_FORMAT = 3;
+
+/**
+ * Name of the cache file in the cache directory.
+ */
+const CACHE_FILE = 'analysis.json';
+
+/**
+ * The parse results of a file as stored on disk (maps as entry lists,
+ * paths implied by the key).
+ */
+interface CacheEntry {
+  /** SHA-256 of the file content the results were computed from. */
+  hash: string;
+  /** Top-level entities. */
+  entities: TopLevelEntity[];
+  /** Module specifiers of the imports. */
+  imports: string[];
+  /** Module specifiers of the side-effect imports. */
+  sideEffectImports: string[];
+  /** Endpoint info keyed by entity name. */
+  endpoints: [string, EndpointInfo][];
+  /** Exports as written. */
+  exports: {
+    imports: [string, ImportedBinding][];
+    named: [string, { local: string } | ImportedBinding][];
+    wildcards: string[];
+  };
+  /** Class and interface declarations (of this file). */
+  classes: Omit<ClassDeclarationInfo, 'path'>[];
+}
+
+/**
+ * The content of the cache file.
+ */
+interface CacheContent {
+  /** The tool version and cache layout the entries were written by. */
+  version: string;
+  /** Entries keyed by path relative to the project root (with '/' separators). */
+  files: Record<string, CacheEntry>;
+}
+
+/**
+ * Hashes the content of a file with SHA-256.
+ *
+ * @param content The file content.
+ * @returns The hex digest.
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Gets the directory the analysis cache of a project is stored in.
+ *
+ * @param projectRoot The absolute path to the project root.
+ * @returns The absolute path of the cache directory.
+ */
+export function getCacheDirectory(projectRoot: string): string {
+  return path.join(projectRoot, 'node_modules', '.cache', 'fire-diff');
+}
+
+/**
+ * Reads the version of the tool from its package.json.
+ *
+ * @returns The version, or "unknown" if package.json cannot be read.
+ */
+function getToolVersion(): string {
+  try {
+    // dist/core/analysis-cache.js (or src/core/analysis-cache.ts) -> package.json
+    const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+    return typeof packageJson.version === 'string' ? packageJson.version : 'unknown';
+  } catch (e) {
+    return 'unknown';
+  }
+}
+
+/**
+ * The on-disk cache of the parse results of a project's files.
+ *
+ * @class AnalysisCache
+ */
+export class AnalysisCache {
+  /** The absolute path to the project root (cache keys are relative to it). */
+  private projectRoot: string;
+  /** The absolute path of the cache file. */
+  private cacheFile: string;
+  /** The tool version and cache layout of this run. */
+  private version: string;
+  /** Entries keyed by relative path. */
+  private entries: Map<string, CacheEntry> = new Map();
+  /** Whether entries were added or replaced since the cache was read. */
+  private dirty: boolean = false;
+
+  /**
+   * Reads the cache of a project. A missing, unreadable or outdated cache is
+   * treated as empty.
+   *
+   * @param projectRoot The absolute path to the project root.
+   */
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+    this.cacheFile = path.join(getCacheDirectory(projectRoot), CACHE_FILE);
+    this.version = `${getToolVersion()}+${CACHE_FORMAT}`;
+
+    try {
+      const content: CacheContent = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'));
+      if (content.version === this.version && content.files && typeof content.files === 'object') {
+        this.entries = new Map(Object.entries(content.files));
+      }
+    } catch (e) {
+      // No cache yet, or a corrupt one: every file is parsed
+    }
+  }
+
+  /**
+   * Converts an absolute file path into a cache key.
+   *
+   * @param filePath Absolute path of the file.
+   * @returns The path relative to the project root, with '/' separators.
+   */
+  private getKey(filePath: string): string {
+    return path.relative(this.projectRoot, filePath).replace(/\\/g, '/');
+  }
+
+  /**
+   * Gets the cached parse results of a file.
+   *
+   * @param filePath Absolute path of the file.
+   * @param hash The hash of the file's current content (see hashContent).
+   * @returns The parse results, or undefined if the file is not cached or changed since.
+   */
+  public get(filePath: string, hash: string): FileAnalysis | undefined {
+    const entry = this.entries.get(this.getKey(filePath));
+    if (!entry || entry.hash !== hash) {
+      return undefined;
+    }
+    return {
+      entities: entry.entities,
+      imports: entry.imports,
+      sideEffectImports: entry.sideEffectImports,
+      endpoints: new Map(entry.endpoints),
+      exports: {
+        imports: new Map(entry.exports.imports),
+        named: new Map(entry.exports.named),
+        wildcards: entry.exports.wildcards,
+      },
+      classes: entry.classes.map(declaration => ({ ...declaration, path: filePath })),
+    };
+  }
+
+  /**
+   * Stores the parse results of a file.
+   *
+   * @param filePath Absolute path of the file.
+   * @param hash The hash of the content the results were computed from.
+   * @param analysis The parse results.
+   */
+  public set(filePath: string, hash: string, analysis: FileAnalysis): void {
+    this.entries.set(this.getKey(filePath), {
+      hash,
+      entities: analysis.entities,
+      imports: analysis.imports,
+      sideEffectImports: analysis.sideEffectImports,
+      endpoints: Array.from(analysis.endpoints),
+      exports: {
+        imports: Array.from(analysis.exports.imports),
+        named: Array.from(analysis.exports.named),
+        wildcards: analysis.exports.wildcards,
+      },
+      classes: analysis.classes.map(({ name, isClass, bases }) => ({ name, isClass, bases })),
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * Writes the cache if entries changed, keeping only the entries of the given
+   * files (entries of deleted files are dropped). The file is replaced
+   * atomically, so concurrent runs never read a partial cache. A cache that
+   * cannot be written (e.g., a read-only node_modules) is skipped.
+   *
+   * @param files Absolute paths of the project's current files.
+   */
+  public save(files: string[]): void {
+    const keys = new Set(files.map(filePath => this.getKey(filePath)));
+    const stale = Array.from(this.entries.keys()).filter(key => !keys.has(key));
+    if (!this.dirty && stale.length === 0) {
+      return;
+    }
+    stale.forEach(key => this.entries.delete(key));
+
+    const content: CacheContent = {
+      version: this.version,
+      files: Object.fromEntries(this.entries),
+    };
+    const temporaryFile = `${this.cacheFile}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      fs.writeFileSync(temporaryFile, JSON.stringify(content));
+      fs.renameSync(temporaryFile, this.cacheFile);
+      this.dirty = false;
+    } catch (e) {
+      console.warn(`[FIRE-DIFF Warning] Could not write the analysis cache: ${this.cacheFile}. Skipping.`);
+      try {
+        fs.rmSync(temporaryFile, { force: true });
+      } catch (removeError) {
+        // Nothing was written
+      }
+    }
+  }
+}
@@ -8,25 +8,27 @@
  */
 
 import fs from 'fs';
-import path from 'path';
 import ts from 'typescript';
-import { getProjectFiles } from '../utils/file-system';
-import { findFilesImportingTarget } from './find-includes';
-import { fileTopFunctions } from './find-top-functions'; 
-import { getEndpointInfo } from './firebase-helpers';
-import { AnalysisResult, AnalysisSeed, FileFunctionsResult } from './types';
+import { ExportMap } from './export-map';
+import { ClassHierarchy } from './class-hierarchy';
+import { DEFAULT_EXPORT_ENTITY, fileTopFunctions, getEntityBlock, MODULE_INIT_ENTITY } from './find-top-functions'; 
+import { getGlobalOptionsCalls, GlobalOptionsCall } from './firebase-helpers';
+import { getAliasResolver } from './module-resolver';
+import { ProjectModel } from './project-model';
+import { SymbolIndex } from './symbol-index';
+import { AnalysisResult, AnalysisSeed, AnalyzerOptions, FileFunctionsResult, GlobalOptionsChange } from './types';
+import { findEntryFile } from '../utils/file-system';
+import { loadCompilerOptions } from '../utils/tsconfig';
 
 /**
- * Result of checking if a file re-exports the target file.
+ * The classes of the receivers declared in a file, for the member accesses
+ * whose receiver is not declared in the accessing entity itself.
  */
-interface ReExportInfo {
-  /** The absolute path of the re-exported file. */
-  path: string;
-  /** 
-   * Names of exported functions (for named exports like export { name } from).
-   * null means export * from (all functions are exported).
-   */
-  exportedNames: string[] | null;
+interface ReceiverTypes {
+  /** Classes of the module scope variables, keyed by name (null for names declared with different classes). */
+  variables: Map<string, string | null>;
+  /** Classes of the class properties (including parameter properties), keyed by "{className}.{property}". */
+  properties: Map<string, string | null>;
 }
 
 /**
@@ -47,49 +49,84 @@ export class FaeptsAnalyzer {
   public topEntities: FileFunctionsResult[];
   /** Affected Firebase Cloud Functions endpoints. */
   public endPoints: AnalysisSeed[];
+  /** Parsed files, entities and import graph, shared with the other analysis steps. */
+  public model: ProjectModel;
   
-  /** File content cache to avoid repeated file system reads. */
-  private fileContentCache: Map<string, string> = new Map();
+  /** Classes of the module scope variables and class properties of each file, keyed by absolute path. */
+  private receiverTypesCache: Map<string, ReceiverTypes> = new Map();
   /** Analysis results for each function/entity. */
   public analysisChecklist: Map<string, AnalysisResult>;
+  /** Inheritance graph of the project's classes and interfaces. */
+  private classHierarchy: ClassHierarchy;
+  /** Exported names of each file, resolved through re-exports. */
+  private exportMap: ExportMap;
+  /** References resolved with the type checker (symbol-accurate mode), or null. */
+  private symbolIndex: SymbolIndex | null = null;
+  /** Whether type-only edges are recorded (runtime-only mode). */
+  private runtimeOnly: boolean;
+  /** Whether decorated declarations emit their types at runtime (tsconfig 'emitDecoratorMetadata'). */
+  private emitsDecoratorMetadata: boolean = false;
+  /**
+   * Edges where the dependent uses the seed in type positions only,
+   * keyed by "{seedPath}#{seedName}->{dependentPath}#{dependentName}" (runtime-only mode).
+   */
+  private typeOnlyEdges: Set<string> = new Set();
 
   /**
    * Creates the analyzer instance.
    * 
-   * Initializes the analyzer by scanning the project for all TypeScript files
-   * and building a map of top-level entities (functions, classes, etc.) in each file.
+   * Initializes the analyzer from the project model, which scans the project
+   * for all source files and maps the top-level entities (functions, classes,
+   * etc.) of each file.
+   * 
+   * @param options Analysis options (e.g., symbol-accurate mode).
+   * @param model The project model (defaults to scanning the project).
    */
-  constructor() {
-    const { projectRoot, allFiles } = getProjectFiles();
-    this.root = projectRoot;
-    this.files = allFiles;
+  constructor(options: AnalyzerOptions = {}, model: ProjectModel = new ProjectModel(options)) {
+    this.model = model;
+    this.root = model.root;
+    this.files = model.files;
 
-    this.topEntities = this.files.map(file => {
-      return fileTopFunctions(file);
-    });
+    this.topEntities = model.getAllEntities();
     
     this.analysisChecklist = new Map<string, AnalysisResult>();
     this.endPoints = [];
+    this.classHierarchy = new ClassHierarchy(this.files, file => model.getClassDeclarations(file));
+    model.saveCache();
+    this.exportMap = model.getExportMap();
+
+    if (options.symbolAccurate) {
+      this.symbolIndex = new SymbolIndex(this.root, this.topEntities);
+    }
+
+    this.runtimeOnly = options.runtimeOnly === true;
+    if (this.runtimeOnly) {
+      this.emitsDecoratorMetadata = loadCompilerOptions(this.root)?.emitDecoratorMetadata === true;
+    }
   }
 
   /**
-   * Gets the full text content of a file, using a cache.
+   * Gets the full text content of a file from the project model.
    * 
    * @param filePath Absolute path to the file.
    * @returns File content or undefined if read fails.
    */
   private getFileContent(filePath: string): string | undefined {
-    if (this.fileContentCache.has(filePath)) {
-      return this.fileContentCache.get(filePath);
-    }
-    try {
-      const content = fs.readFileSync(filePath, 'utf8');
-      this.fileContentCache.set(filePath, content);
-      return content;
-    } catch (e) {
+    const content = this.model.readFile(filePath);
+    if (content === undefined) {
       console.warn(`[FIRE-DIFF Warning] Could not read file: ${filePath}. Skipping.`);
-      return undefined;
     }
+    return content;
+  }
+
+  /**
+   * Gets the files importing or re-exporting a file, from the reverse import graph.
+   * 
+   * @param filePath Absolute path to the file.
+   * @returns Absolute paths of the importing files.
+   */
+  private getImporters(filePath: string): string[] {
+    return this.model.getImporters(filePath);
   }
 
   /**
@@ -105,6 +142,157 @@ export class FaeptsAnalyzer {
     return this.analysisChecklist;
   }
 
+  /**
+   * Marks every endpoint in the project as affected.
+   * Used when the changes cannot be determined precisely (e.g., the diff base
+   * is missing from a shallow clone) and the user opted in to a full deploy,
+   * or when the global options of a version changed.
+   *
+   * @param version Only mark the endpoints of this version (all versions by default).
+   * @returns The list of all affected endpoints.
+   */
+  public markAllEndpointsAffected(version?: 'v1' | 'v2'): AnalysisSeed[] {
+    for (const entityMap of this.topEntities) {
+      for (const currentEntity of entityMap.funcs) {
+        if (currentEntity.fn === MODULE_INIT_ENTITY) continue;
+        const endpointInfo = this.model.getEndpointInfo(entityMap.path, currentEntity.fn);
+
+        if (endpointInfo.isEndpoint === true &&
+            (version === undefined || endpointInfo.version === version) &&
+            !this.endPoints.some(e => e.path === entityMap.path && e.fn === currentEntity.fn)) {
+          this.endPoints.push({
+            fn: currentEntity.fn,
+            path: entityMap.path,
+            version: endpointInfo.version
+          });
+        }
+      }
+    }
+
+    return this.endPoints;
+  }
+
+  /**
+   * Lists the endpoints reachable from the given seeds in the analysis results.
+   * The seeds must have been analyzed with findAffectedFunctionsRecursive() first.
+   *
+   * @param seeds Seed entities to start from.
+   * @returns The affected endpoints reachable from the seeds.
+   */
+  public getReachableEndpoints(seeds: AnalysisSeed[]): AnalysisSeed[] {
+    const visited = new Set<string>();
+    const queue = [...seeds];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as AnalysisSeed;
+      const key = `${current.path}#${current.fn}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      queue.push(...(this.analysisChecklist.get(key)?.result ?? []));
+    }
+
+    return this.endPoints.filter(e => visited.has(`${e.path}#${e.fn}`));
+  }
+
+  /**
+   * Finds the changed global configuration call sites (setGlobalOptions(),
+   * onInit(), shared functions.runWith() defaults) among the seeds and the
+   * entities affected by them. The endpoints that are only reloaded with a
+   * changed module init entity do not count.
+   * The seeds must have been analyzed with findAffectedFunctionsRecursive() first.
+   *
+   * @param seeds The analyzed seed entities.
+   * @param readBaseFile Reads a file at the base revision, so calls removed
+   *                     from a seed (or deleted with it) are found as well.
+   * @returns The changed call sites, one per entity and called function.
+   */
+  public findGlobalOptionsChanges(
+    seeds: AnalysisSeed[],
+    readBaseFile?: (filePath: string) => string | undefined
+  ): GlobalOptionsChange[] {
+    const changed = new Map<string, AnalysisSeed>();
+    for (const seed of seeds) {
+      changed.set(`${seed.path}#${seed.fn}`, seed);
+    }
+    for (const entry of this.analysisChecklist.values()) {
+      // Dependents of a module init entity are only reloaded with it
+      if (entry.fn === MODULE_INIT_ENTITY) continue;
+      for (const dependent of entry.result) {
+        changed.set(`${dependent.path}#${dependent.fn}`, dependent);
+      }
+    }
+
+    const seedKeys = new Set(seeds.map(seed => `${seed.path}#${seed.fn}`));
+    // Global configuration calls of each file by entity, at head and at base
+    const currentCalls = new Map<string, Map<string, GlobalOptionsCall[]>>();
+    const baseCalls = new Map<string, Map<string, GlobalOptionsCall[]>>();
+    const globalOptionsChanges: GlobalOptionsChange[] = [];
+    for (const [key, entity] of changed) {
+      if (!currentCalls.has(entity.path)) {
+        const entityMap = this.model.getEntities(entity.path);
+        const fileContent = entityMap ? this.getFileContent(entity.path) : undefined;
+        currentCalls.set(
+          entity.path,
+          entityMap && fileContent ? getGlobalOptionsCalls(entity.path, fileContent, entityMap.funcs) : new Map()
+        );
+      }
+      const found = [...(currentCalls.get(entity.path)?.get(entity.fn) ?? [])];
+
+      if (seedKeys.has(key) && readBaseFile) {
+        if (!baseCalls.has(entity.path)) {
+          const baseContent = readBaseFile(entity.path);
+          baseCalls.set(
+            entity.path,
+            baseContent !== undefined
+              ? getGlobalOptionsCalls(entity.path, baseContent, fileTopFunctions(entity.path, baseContent).funcs)
+              : new Map()
+          );
+        }
+        found.push(...(baseCalls.get(entity.path)?.get(entity.fn) ?? []));
+      }
+
+      const calls = new Map(found.map(call => [call.call, call]));
+      for (const { call, version } of calls.values()) {
+        globalOptionsChanges.push({ path: entity.path, fn: entity.fn, call, version });
+      }
+    }
+
+    return globalOptionsChanges;
+  }
+
+  /**
+   * Removes the endpoints that are affected through type-only changes and
+   * type-only edges alone (runtime-only mode): only the endpoints reachable from
+   * the runtime seeds over runtime edges are kept in endPoints.
+   * The seeds must have been analyzed with findAffectedFunctionsRecursive() first.
+   *
+   * @param seeds The analyzed seed entities.
+   * @param typeOnlySeeds Keys ("{path}#{name}") of the seeds whose change is type-only.
+   * @returns The removed endpoints (affected at the type level only).
+   */
+  public removeTypeOnlyEndpoints(seeds: AnalysisSeed[], typeOnlySeeds: Set<string>): AnalysisSeed[] {
+    const visited = new Set<string>();
+    const queue = seeds.filter(seed => !typeOnlySeeds.has(`${seed.path}#${seed.fn}`));
+
+    while (queue.length > 0) {
+      const current = queue.shift() as AnalysisSeed;
+      const key = `${current.path}#${current.fn}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      for (const dependent of this.analysisChecklist.get(key)?.result ?? []) {
+        if (!this.typeOnlyEdges.has(`${key}->${dependent.path}#${dependent.fn}`)) {
+          queue.push(dependent);
+        }
+      }
+    }
+
+    const typeOnlyEndPoints = this.endPoints.filter(e => !visited.has(`${e.path}#${e.fn}`));
+    this.endPoints = this.endPoints.filter(e => visited.has(`${e.path}#${e.fn}`));
+    return typeOnlyEndPoints;
+  }
+
   /**
    * Core recursive worker: check cache, run analysis, recurse.
    * Uses the 'checked' flag (false/true) to manage state.
@@ -150,152 +338,159 @@ export class FaeptsAnalyzer {
   /**
    * Finds only the direct dependents (one level deep) for a given seed,
    * using the "block search" logic.
-   * Also handles re-exports: if a file re-exports the changed file,
-   * it directly adds endpoints from the re-exported file.
+   * Also handles re-exports: files importing the seed through files that
+   * re-export it (barrels, at any depth) are searched as well, for the
+   * names they import it under.
    * 
    * @param baseData Seed entity to find direct dependents for.
    * @returns Array of direct dependent entities (functions/classes that use the seed).
    */
   private findDirectDependents(baseData: AnalysisSeed): AnalysisSeed[] {
     const affectedFunctions: AnalysisSeed[] = [];
-    const targetRelativePath = path.relative(this.root, baseData.path);
+    const cachedImporters = this.getImporters(baseData.path);
 
-    const importingFiles = findFilesImportingTarget(
-      targetRelativePath,
-      this.root,
-      this.files
-    );
-    
-    importingFiles.push(baseData.path);
-
-    for (const affectedFilePath of importingFiles) {
-      const fileContent = this.getFileContent(affectedFilePath);
-      if (!fileContent) continue;
+    // Module init code runs whenever the file is loaded
+    if (baseData.fn === MODULE_INIT_ENTITY) {
+      return this.findModuleLoadDependents(baseData);
+    }
 
-      // Check if this file re-exports the target file
-      const reExportInfo = this.findReExportedInfo(affectedFilePath, baseData.path);
-      if (reExportInfo) {
-        // If re-exported, check which functions are exported
-        // Only add the changed function (baseData.fn) if it's exported
-        const reExportedEntityMap = this.topEntities.find(e => e.path === reExportInfo.path);
-        if (reExportedEntityMap) {
-          // Check if the changed function (baseData.fn) is exported
-          let shouldIncludeFunction = false;
-          
-          if (reExportInfo.exportedNames === null) {
-            // Wildcard export (export * from): all functions are exported
-            // But we still only include the changed function (baseData.fn)
-            shouldIncludeFunction = true;
-          } else {
-            // Named export (export { name } from): only if the changed function is in the list
-            shouldIncludeFunction = reExportInfo.exportedNames.includes(baseData.fn);
+    const importingFiles = [...cachedImporters];
+    const isClassMember = this.isClassMember(baseData);
+    // Check if baseData.fn is a property access (e.g., GATHERING_FIELD_KEYS.LAST_UPDATE_OPTIONS)
+    const isPropertyAccess = baseData.fn.includes('.') && !isClassMember;
+
+    // Symbol-accurate mode: the entities referencing the seed are known exactly.
+    // Seeds that no longer exist (deleted entities) fall back to name matching.
+    const symbolDependents = this.symbolIndex?.hasEntity(baseData)
+      ? new Set(this.findSymbolDependents(this.symbolIndex, baseData, isClassMember).map(dependent => `${dependent.path}#${dependent.fn}`))
+      : null;
+    if (symbolDependents) {
+      for (const dependentKey of symbolDependents) {
+        const dependentPath = dependentKey.substring(0, dependentKey.lastIndexOf('#'));
+        if (!importingFiles.includes(dependentPath)) {
+          importingFiles.push(dependentPath);
+        }
+      }
+    }
+    
+    // Files re-exporting the seed (barrels, at any depth, possibly under another name):
+    // their importers use the seed as well, under the names they import it with
+    const seedOrigin = { path: baseData.path, name: baseData.fn.split('.')[0] as string };
+    // A re-exporting file imports the seed's file or another re-exporting file, so
+    // only the importers of the files found so far are searched
+    if (!symbolDependents) {
+      const barrels = [baseData.path];
+      const visitedBarrels = new Set(barrels);
+      while (barrels.length > 0) {
+        const barrel = barrels.shift() as string;
+        for (const filePath of this.getImporters(barrel)) {
+          if (visitedBarrels.has(filePath)) continue;
+          visitedBarrels.add(filePath);
+          if (this.exportMap.findExportedNames(filePath, seedOrigin).length === 0) continue;
+
+          barrels.push(filePath);
+          if (!importingFiles.includes(filePath)) {
+            importingFiles.push(filePath);
           }
-          
-          if (shouldIncludeFunction) {
-            // Find the specific function that changed (baseData.fn)
-            const changedEntity = reExportedEntityMap.funcs.find(e => e.fn === baseData.fn);
-            if (changedEntity) {
-              const reExportedFileContent = this.getFileContent(reExportInfo.path);
-              if (reExportedFileContent) {
-                const sortedEntities = reExportedEntityMap.funcs;
-                const entityIndex = sortedEntities.indexOf(changedEntity);
-                const start = changedEntity.start;
-                const nextEntity = sortedEntities[entityIndex + 1];
-                const end = nextEntity ? nextEntity.start : reExportedFileContent.length;
-                
-                const blockContent = reExportedFileContent.substring(start, end);
-                const endpointInfo = getEndpointInfo(blockContent);
-                
-                if (endpointInfo.isEndpoint === true) {
-                  const tmpFunc = {
-                    fn: changedEntity.fn,
-                    path: reExportInfo.path,
-                    version: endpointInfo.version
-                  };
-                  
-                  if (!this.endPoints.some(e => e.path === tmpFunc.path && e.fn === tmpFunc.fn)) {
-                    this.endPoints.push(tmpFunc);
-                  }
-                  
-                  affectedFunctions.push(tmpFunc);
-                }
-              }
+          for (const importer of this.getImporters(filePath)) {
+            if (!importingFiles.includes(importer)) {
+              importingFiles.push(importer);
             }
           }
         }
-        // Skip normal dependency check for re-exported files to avoid duplicate processing
-        // The re-exported file's functions are already handled above
-        if (reExportInfo.path === baseData.path) {
-          continue;
-        }
       }
+    }
 
-      // Skip normal dependency check if this file was re-exported
-      // (re-exported files are already handled in the re-export check above)
-      const isReExportedFile = reExportInfo && reExportInfo.path === affectedFilePath;
-      if (isReExportedFile) {
-        continue;
-      }
+    // The seed's own file may no longer exist (deleted entities)
+    if (fs.existsSync(baseData.path) && !importingFiles.includes(baseData.path)) {
+      importingFiles.push(baseData.path);
+    }
 
-      const entityMap = this.topEntities.find(e => e.path === affectedFilePath);
+    for (const affectedFilePath of importingFiles) {
+      const fileContent = this.getFileContent(affectedFilePath);
+      if (!fileContent) continue;
+
+      const entityMap = this.model.getEntities(affectedFilePath);
       if (!entityMap) continue;
 
-      const sortedEntities = entityMap.funcs; 
-
-      for (let i = 0; i < sortedEntities.length; i++) {
-        const currentEntity = sortedEntities[i];
-        if (!currentEntity) continue;
-
-        const start = currentEntity.start;
-        const nextEntity = sortedEntities[i + 1];
-        const end = nextEntity ? nextEntity.start : fileContent.length; 
-
-        const blockContent = fileContent.substring(start, end);
-        
-        // Check if baseData.fn is a property access (e.g., GATHERING_FIELD_KEYS.LAST_UPDATE_OPTIONS)
-        const isPropertyAccess = baseData.fn.includes('.');
-        
-        if (isPropertyAccess) {
-          // Use AST to check if this specific property is used in the block
-          if (this.usesProperty(blockContent, baseData.fn)) {
-            const endpointInfo = getEndpointInfo(blockContent);
-            const tmpFunc = {
-              fn: currentEntity.fn,
-              path: affectedFilePath,
-              version: endpointInfo.version
-            };
-            
-            if (endpointInfo.isEndpoint === true) {
-               if (!this.endPoints.some(e => e.path === tmpFunc.path && e.fn === tmpFunc.fn)) {
-                 this.endPoints.push(tmpFunc);
-               }
-            }
-            
-            affectedFunctions.push(tmpFunc);
+      // Local names bound to the seed ('import { getGame as fetchGame } from "./exports"', default imports)
+      const importedNames = !symbolDependents && !isClassMember && affectedFilePath !== baseData.path
+        ? this.exportMap.findImportedNames(affectedFilePath, seedOrigin)
+        : [];
+      // Namespaces the seed's object is reached through ('import * as U' used as 'U.CONFIG.limits')
+      const namespaceImports = isPropertyAccess && !symbolDependents && affectedFilePath !== baseData.path
+        ? this.exportMap.findNamespaceImports(affectedFilePath, seedOrigin)
+        : new Map<string, string[]>();
+
+      for (const currentEntity of entityMap.funcs) {
+        const blockContent = getEntityBlock(fileContent, entityMap.funcs, currentEntity);
+
+        let usesSeed: boolean;
+        if (symbolDependents) {
+          // Resolved references; the seed entity itself is included, as with name matching
+          usesSeed = symbolDependents.has(`${affectedFilePath}#${currentEntity.fn}`) ||
+            (!isPropertyAccess && affectedFilePath === baseData.path && currentEntity.fn === baseData.fn);
+        } else if (isClassMember) {
+          const dotIndex = currentEntity.fn.indexOf('.');
+          const enclosingClass = dotIndex === -1 ? undefined : currentEntity.fn.substring(0, dotIndex);
+          const className = baseData.fn.substring(0, baseData.fn.indexOf('.'));
+          if (affectedFilePath === baseData.path && currentEntity.fn === baseData.fn) {
+            usesSeed = true;
+          } else if (baseData.fn.split('.').length > 2) {
+            // Property of a static object field (e.g., Config.LIMITS.max): Config.LIMITS.max, or this.LIMITS.max in the class
+            usesSeed = this.usesProperty(blockContent, baseData.fn, expression =>
+              (ts.isIdentifier(expression) && expression.text === className) ||
+              (expression.kind === ts.SyntaxKind.ThisKeyword && enclosingClass === className));
+          } else {
+            // Class member (e.g., UserRepo.save): accessed as a member (this.save(), repo.save())
+            usesSeed = this.usesMember(blockContent, baseData.fn, this.getReceiverTypes(affectedFilePath, fileContent), enclosingClass);
           }
+        } else if (isPropertyAccess) {
+          // Use AST to check if this specific property is used in the block,
+          // through the object's name, an import alias ('C.limits') or a namespace ('U.CONFIG.limits')
+          usesSeed = this.usesProperty(blockContent, baseData.fn, expression =>
+            (ts.isIdentifier(expression) && (expression.text === seedOrigin.name || importedNames.includes(expression.text))) ||
+            (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression) &&
+              (namespaceImports.get(expression.expression.text) ?? []).includes(expression.name.text)));
         } else {
           // For non-property changes, check if the function is called in this block
           // This includes checking functions in the same file that call the changed function
-          if (blockContent.includes(baseData.fn)) {
-            const endpointInfo = getEndpointInfo(blockContent);
-            const tmpFunc = {
-              fn: currentEntity.fn,
-              path: affectedFilePath,
-              version: endpointInfo.version
-            };
-            
-            if (endpointInfo.isEndpoint === true) {
-               if (!this.endPoints.some(e => e.path === tmpFunc.path && e.fn === tmpFunc.fn)) {
-                 this.endPoints.push(tmpFunc);
-               }
-            }
-            
-            affectedFunctions.push(tmpFunc);
+          // ('default' is a keyword: an anonymous default export is only used through its import names)
+          usesSeed = (baseData.fn === DEFAULT_EXPORT_ENTITY
+            ? affectedFilePath === baseData.path && currentEntity.fn === baseData.fn
+            : blockContent.includes(baseData.fn)) ||
+            importedNames.some(name => blockContent.includes(name));
+        }
+
+        if (usesSeed) {
+          const endpointInfo = this.model.getEndpointInfo(affectedFilePath, currentEntity.fn);
+          const tmpFunc = {
+            fn: currentEntity.fn,
+            path: affectedFilePath,
+            version: endpointInfo.version
+          };
+
+          if (endpointInfo.isEndpoint === true && currentEntity.fn !== MODULE_INIT_ENTITY) {
+             if (!this.endPoints.some(e => e.path === tmpFunc.path && e.fn === tmpFunc.fn)) {
+               this.endPoints.push(tmpFunc);
+             }
+          }
+
+          affectedFunctions.push(tmpFunc);
+
+          if (this.runtimeOnly && this.isTypeOnlyUse(blockContent, baseData.fn)) {
+            this.typeOnlyEdges.add(`${baseData.path}#${baseData.fn}->${tmpFunc.path}#${tmpFunc.fn}`);
           }
         }
       }
     }
     
+    // Subclasses inheriting a changed member are changed for that member as well
+    // (e.g., UserRepo.save -> AdminRepo.save), reaching users of the subclass only
+    if (isClassMember) {
+      affectedFunctions.push(...this.findInheritingMembers(baseData));
+    }
+
     const uniqueResults = new Map<string, AnalysisSeed>();
     for (const func of affectedFunctions) {
       const key = `${func.path}#${func.fn}`;
@@ -306,18 +501,366 @@ export class FaeptsAnalyzer {
   }
 
   /**
-   * Checks if a code block uses a specific property access (e.g., GATHERING_FIELD_KEYS.LAST_UPDATE_OPTIONS).
-   * Uses AST to accurately detect property usage.
+   * Finds the dependents of a changed module init entity: every endpoint whose
+   * load path passes through its file. The module init code of a file runs for
+   * the endpoints of the file, of the files importing it (directly or not) and
+   * of the files it imports, re-exports or requires (which are loaded through
+   * it); a file imported for side effects only ("import './init'") counts as
+   * part of its importers' module init. A change reaching the entry file
+   * affects every endpoint of the codebase.
+   * 
+   * @param baseData The module init seed.
+   * @returns The endpoints loading the seed's file.
+   */
+  private findModuleLoadDependents(baseData: AnalysisSeed): AnalysisSeed[] {
+    const initFiles = this.collectFiles([baseData.path], filePath => this.model.getSideEffectImporters(filePath));
+
+    const loadingFiles = initFiles.includes(findEntryFile(this.root))
+      ? this.files
+      : [
+        ...this.collectFiles(initFiles, filePath => this.getImporters(filePath)),
+        ...this.collectFiles(initFiles, filePath => this.model.getImports(filePath)),
+      ];
+
+    const dependents = new Map<string, AnalysisSeed>();
+    for (const filePath of loadingFiles) {
+      const entityMap = this.model.getEntities(filePath);
+      if (!entityMap) continue;
+
+      for (const entity of entityMap.funcs) {
+        if (entity.fn === MODULE_INIT_ENTITY) continue;
+
+        const endpointInfo = this.model.getEndpointInfo(filePath, entity.fn);
+        if (endpointInfo.isEndpoint === true) {
+          const tmpFunc = { fn: entity.fn, path: filePath, version: endpointInfo.version };
+          if (!this.endPoints.some(e => e.path === tmpFunc.path && e.fn === tmpFunc.fn)) {
+            this.endPoints.push(tmpFunc);
+          }
+          dependents.set(`${tmpFunc.path}#${tmpFunc.fn}`, tmpFunc);
+        }
+      }
+    }
+
+    return Array.from(dependents.values());
+  }
+
+  /**
+   * Collects the files reachable from the given files over an import relation.
+   * 
+   * @param files Absolute paths of the files to start from (included in the result).
+   * @param getNext Gets the files related to a file (e.g., its importers).
+   * @returns Absolute paths of the reachable files, in visiting order.
+   */
+  private collectFiles(files: string[], getNext: (filePath: string) => string[]): string[] {
+    const visited = new Set<string>();
+    const queue = [...files];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      queue.push(...getNext(current));
+    }
+
+    return Array.from(visited);
+  }
+
+  /**
+   * Checks whether a seed is a class member (e.g., "UserRepo.save") rather
+   * than a property path of an object literal constant. Members are entities
+   * of their own, qualified with the class name.
+   * 
+   * @param seed The seed entity.
+   * @returns True if the seed's owner is a class or has member entities in its file.
+   */
+  private isClassMember(seed: AnalysisSeed): boolean {
+    const dotIndex = seed.fn.indexOf('.');
+    if (dotIndex === -1) {
+      return false;
+    }
+    if (this.classHierarchy.isClass(seed.fn.substring(0, dotIndex))) {
+      return true;
+    }
+    const ownerPrefix = seed.fn.substring(0, dotIndex + 1);
+    const entityMap = this.model.getEntities(seed.path);
+    return entityMap !== undefined && entityMap.funcs.some(entity => entity.fn.startsWith(ownerPrefix));
+  }
+
+  /**
+   * Gets the entities referencing a seed, resolved with the type checker.
+   * A class member is also called through the base classes and interfaces
+   * of its class (e.g., 'repo.save()' with 'repo: Repo'), which resolve to
+   * the ancestor's member.
+   * 
+   * @param symbolIndex The symbol index.
+   * @param seed The seed entity.
+   * @param isClassMember Whether the seed is a class member.
+   * @returns The referencing entities.
+   */
+  private findSymbolDependents(symbolIndex: SymbolIndex, seed: AnalysisSeed, isClassMember: boolean): AnalysisSeed[] {
+    const dependents = symbolIndex.getDependents(seed);
+    if (!isClassMember) {
+      return dependents;
+    }
+
+    const [className, memberName] = seed.fn.split('.');
+    for (const ancestor of this.classHierarchy.getAncestors(className as string)) {
+      for (const declaration of this.classHierarchy.getDeclarations(ancestor)) {
+        dependents.push(...symbolIndex.getDependents({ fn: `${ancestor}.${memberName}`, path: declaration.path }));
+      }
+    }
+    return dependents;
+  }
+
+  /**
+   * Finds the direct subclasses inheriting a class member, i.e. those that do
+   * not override it. Their own subclasses are found when the returned members
+   * are analyzed in turn.
+   * 
+   * @param seed The changed class member (e.g., "UserRepo.save").
+   * @returns The inherited members (e.g., "AdminRepo.save"), in the subclasses' files.
+   */
+  private findInheritingMembers(seed: AnalysisSeed): AnalysisSeed[] {
+    const [className, memberName] = seed.fn.split('.');
+    if (!className || !memberName) {
+      return [];
+    }
+
+    const inheritingMembers: AnalysisSeed[] = [];
+    for (const subclass of this.classHierarchy.getDirectSubclasses(className)) {
+      const memberKey = `${subclass.name}.${memberName}`;
+      const entityMap = this.model.getEntities(subclass.path);
+      if (entityMap?.funcs.some(entity => entity.fn === memberKey)) continue;
+      inheritingMembers.push({ fn: memberKey, path: subclass.path });
+    }
+    return inheritingMembers;
+  }
+
+  /**
+   * Gets the class a variable, parameter or property declaration holds, from
+   * its type annotation ('repo: UserRepo') or its initializer ('new UserRepo()').
+   * 
+   * @param declaration The declaration.
+   * @returns The class name, or undefined if unknown.
+   */
+  private getDeclaredClass(declaration: ts.VariableDeclaration | ts.ParameterDeclaration | ts.PropertyDeclaration): string | undefined {
+    if (declaration.type && ts.isTypeReferenceNode(declaration.type) && ts.isIdentifier(declaration.type.typeName)) {
+      return declaration.type.typeName.text;
+    }
+    if (declaration.initializer && ts.isNewExpression(declaration.initializer) && ts.isIdentifier(declaration.initializer.expression)) {
+      return declaration.initializer.expression.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the class each module scope variable and each class property
+   * (including constructor parameter properties) of a file holds (see
+   * getDeclaredClass). Variables declared with different classes map to null.
+   * 
+   * @param filePath Absolute path to the file.
+   * @param fileContent The file content.
+   * @returns The classes of the variables and properties.
+   */
+  private getReceiverTypes(filePath: string, fileContent: string): ReceiverTypes {
+    const cached = this.receiverTypesCache.get(filePath);
+    if (cached) {
+      return cached;
+    }
+
+    const receiverTypes: ReceiverTypes = { variables: new Map(), properties: new Map() };
+    const addType = (types: Map<string, string | null>, name: string, className: string | undefined) => {
+      if (className !== undefined) {
+        types.set(name, types.has(name) && types.get(name) !== className ? null : className);
+      }
+    };
+
+    try {
+      const sourceFile = this.model.getSourceFile(filePath) ?? ts.createSourceFile(filePath, fileContent, ts.ScriptTarget.ESNext, true);
+      for (const statement of sourceFile.statements) {
+        if (ts.isVariableStatement(statement)) {
+          for (const declaration of statement.declarationList.declarations) {
+            if (ts.isIdentifier(declaration.name)) {
+              addType(receiverTypes.variables, declaration.name.text, this.getDeclaredClass(declaration));
+            }
+          }
+        } else if (ts.isClassDeclaration(statement) && statement.name) {
+          const className = statement.name.text;
+          for (const member of statement.members) {
+            if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name)) {
+              addType(receiverTypes.properties, `${className}.${member.name.text}`, this.getDeclaredClass(member));
+            } else if (ts.isConstructorDeclaration(member)) {
+              for (const parameter of member.parameters) {
+                if (ts.isParameterPropertyDeclaration(parameter, member) && ts.isIdentifier(parameter.name)) {
+                  addType(receiverTypes.properties, `${className}.${parameter.name.text}`, this.getDeclaredClass(parameter));
+                }
+              }
+            }
+          }
+        }
+      }
+    } catch (e) {
+      // Unparsable files have no known receivers
+    }
+
+    this.receiverTypesCache.set(filePath, receiverTypes);
+    return receiverTypes;
+  }
+
+  /**
+   * Finds the declaration of a name in the scopes enclosing a node: the
+   * parameters of the enclosing functions, and the variables declared in the
+   * enclosing blocks, loop headers and catch clauses.
+   * 
+   * @param node The node the name is used at.
+   * @param name The name.
+   * @returns The declaration, or undefined if the name is not declared around the node.
+   */
+  private findScopedDeclaration(node: ts.Node, name: string): ts.VariableDeclaration | ts.ParameterDeclaration | undefined {
+    const declaresName = (bindingName: ts.BindingName): boolean => ts.isIdentifier(bindingName)
+      ? bindingName.text === name
+      : bindingName.elements.some(element => !ts.isOmittedExpression(element) && declaresName(element.name));
+
+    for (let scope = node.parent; scope; scope = scope.parent) {
+      let declarations: readonly (ts.VariableDeclaration | ts.ParameterDeclaration)[] = [];
+      if (ts.isFunctionLike(scope)) {
+        declarations = scope.parameters;
+      } else if (ts.isBlock(scope) || ts.isSourceFile(scope) || ts.isModuleBlock(scope) || ts.isCaseClause(scope) || ts.isDefaultClause(scope)) {
+        declarations = scope.statements.filter(ts.isVariableStatement).flatMap(statement => statement.declarationList.declarations);
+      } else if ((ts.isForStatement(scope) || ts.isForOfStatement(scope) || ts.isForInStatement(scope)) &&
+          scope.initializer && ts.isVariableDeclarationList(scope.initializer)) {
+        declarations = scope.initializer.declarations;
+      } else if (ts.isCatchClause(scope) && scope.variableDeclaration) {
+        declarations = [scope.variableDeclaration];
+      }
+
+      const declaration = declarations.find(candidate => declaresName(candidate.name));
+      if (declaration) {
+        return declaration;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks if a code block accesses a class member (this.save(), repo.save(),
+   * UserRepo.create(), repo['save']). An access is ruled out when its receiver
+   * is known to be an instance of another project class that is not one of the
+   * member's class ancestors (e.g., 'logger.save()' with 'const logger = new Logger()');
+   * receivers typed as a base class or an interface may hold an instance of
+   * the member's class, and receivers of unknown type are kept.
+   * A receiver's class is taken from its declaration in the scopes enclosing the
+   * access, or from the module scope variables and class properties of the file
+   * if the block does not declare it.
+   * A constructor is used wherever its class name appears (new UserRepo(), extends UserRepo).
+   * 
+   * @param blockContent The code block content to analyze.
+   * @param memberPath The qualified member name (e.g., "UserRepo.save").
+   * @param receiverTypes Classes of the module scope variables and class properties of the block's file (see getReceiverTypes).
+   * @param enclosingClass The class the block is a member of ('this'), or undefined.
+   * @returns True if the member is used in the block.
+   */
+  private usesMember(
+    blockContent: string,
+    memberPath: string,
+    receiverTypes: ReceiverTypes,
+    enclosingClass: string | undefined
+  ): boolean {
+    const [className, memberName] = memberPath.split('.');
+    if (!className || !memberName) {
+      return false;
+    }
+    if (memberName === 'constructor') {
+      return blockContent.includes(className);
+    }
+
+    let sourceFile: ts.SourceFile;
+    try {
+      // A class member is parsed in its class, so its parameters are declarations
+      const source = enclosingClass === undefined ? blockContent : `class ${enclosingClass} {\n${blockContent}\n}`;
+      sourceFile = ts.createSourceFile('temp.ts', source, ts.ScriptTarget.ESNext, true);
+    } catch (e) {
+      return blockContent.includes(`.${memberName}`);
+    }
+
+    const getReceiverClass = (receiver: ts.Expression): string | undefined => {
+      if (receiver.kind === ts.SyntaxKind.ThisKeyword) {
+        return enclosingClass;
+      }
+      if (ts.isIdentifier(receiver)) {
+        // Static members (UserRepo.create())
+        if (receiver.text === className) {
+          return className;
+        }
+        const declaration = this.findScopedDeclaration(receiver, receiver.text);
+        if (declaration) {
+          // Destructured names are receivers of unknown type
+          return ts.isIdentifier(declaration.name) ? this.getDeclaredClass(declaration) : undefined;
+        }
+        return receiverTypes.variables.get(receiver.text) ?? undefined;
+      }
+      if (ts.isPropertyAccessExpression(receiver) && receiver.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        return enclosingClass === undefined ? undefined : receiverTypes.properties.get(`${enclosingClass}.${receiver.name.text}`) ?? undefined;
+      }
+      if (ts.isNewExpression(receiver) && ts.isIdentifier(receiver.expression)) {
+        return receiver.expression.text;
+      }
+      return undefined;
+    };
+
+    const ancestors = this.classHierarchy.getAncestors(className);
+    const isSeedReceiver = (receiver: ts.Expression): boolean => {
+      const receiverClass = getReceiverClass(receiver);
+      return receiverClass === undefined || receiverClass === className ||
+        ancestors.has(receiverClass) || !this.classHierarchy.isClass(receiverClass);
+    };
+
+    let found = false;
+    function visitNode(node: ts.Node) {
+      if (found) return;
+      if (ts.isPropertyAccessExpression(node) && node.name.text === memberName && isSeedReceiver(node.expression)) {
+        found = true;
+        return;
+      }
+      if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression) &&
+          node.argumentExpression.text === memberName && isSeedReceiver(node.expression)) {
+        found = true;
+        return;
+      }
+      ts.forEachChild(node, visitNode);
+    }
+
+    visitNode(sourceFile);
+    return found;
+  }
+
+  /**
+   * Checks if a code block uses a specific property access (e.g., GATHERING_FIELD_KEYS.LAST_UPDATE_OPTIONS
+   * or CONFIG.limits.maxPlayers). Uses AST to accurately detect property usage.
+   * 
+   * An access chain matches when it is a prefix of the property path (the
+   * enclosing object is used, e.g., 'CONFIG.limits' or 'CONFIG.limits[key]'),
+   * or when the property path is a prefix of it (e.g., 'CONFIG.limits.maxPlayers.value').
+   * A reference to the object that is not an access chain uses all of its
+   * properties: passing it as a whole ('JSON.stringify(CONFIG)', 'Object.values(CONFIG)'),
+   * spreading it ('{ ...CONFIG }') or destructuring it ('const { limits } = CONFIG').
    * 
    * @param blockContent The code block content to analyze.
-   * @param propertyPath The property path in format "OBJECT_NAME.PROPERTY_NAME".
+   * @param propertyPath The property path in format "OBJECT_NAME.PROPERTY_NAME[.NESTED_NAME...]".
+   * @param isObject Checks if an expression is the object, i.e. the root of its
+   *                 access chains (defaults to an identifier named OBJECT_NAME).
    * @returns True if the property is used in the block, false otherwise.
    */
-  private usesProperty(blockContent: string, propertyPath: string): boolean {
-    const [objectName, propertyName] = propertyPath.split('.');
-    if (!objectName || !propertyName) {
+  private usesProperty(
+    blockContent: string,
+    propertyPath: string,
+    isObject?: (expression: ts.Expression) => boolean
+  ): boolean {
+    const [objectName, ...propertyNames] = propertyPath.split('.');
+    if (!objectName || propertyNames.length === 0) {
       return false;
     }
+    const isRoot = isObject ?? ((expression: ts.Expression) => ts.isIdentifier(expression) && expression.text === objectName);
 
     let sourceFile: ts.SourceFile;
     try {
@@ -333,39 +876,75 @@ export class FaeptsAnalyzer {
       return blockContent.includes(propertyPath);
     }
 
+    // Name accessed by OBJECT.NAME or OBJECT["NAME"]; null for computed accesses (OBJECT[key])
+    const getAccessedName = (node: ts.PropertyAccessExpression | ts.ElementAccessExpression): string | null => {
+      if (ts.isPropertyAccessExpression(node)) {
+        return ts.isIdentifier(node.name) ? node.name.text : null;
+      }
+      return ts.isStringLiteralLike(node.argumentExpression) ? node.argumentExpression.text : null;
+    };
+
+    const isAccess = (node: ts.Node): node is ts.PropertyAccessExpression | ts.ElementAccessExpression =>
+      ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node);
+
+    // Identifiers that name something rather than refer to the object: declared names,
+    // property names ('x.CONFIG', '{ CONFIG: 1 }') and import or export specifiers
+    const isNameOnly = (node: ts.Identifier): boolean => {
+      const parent = node.parent;
+      if (ts.isShorthandPropertyAssignment(parent)) {
+        return false;
+      }
+      return ('name' in parent && parent.name === node) ||
+        ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isImportClause(parent) ||
+        ts.isNamespaceImport(parent) || (ts.isQualifiedName(parent) && parent.right === node);
+    };
+
+    // References that do not read the object's properties: type positions,
+    // constructor calls and heritage clauses (for classes with static fields)
+    const isWithoutPropertyRead = (node: ts.Node): boolean => {
+      const parent = node.parent;
+      if ((ts.isNewExpression(parent) && parent.expression === node) || ts.isExpressionWithTypeArguments(parent)) {
+        return true;
+      }
+      for (let current: ts.Node = node; current !== sourceFile; current = current.parent) {
+        if (ts.isTypeNode(current)) {
+          return true;
+        }
+      }
+      return false;
+    };
+
     let foundPropertyUsage = false;
 
     function visitNode(node: ts.Node) {
       if (foundPropertyUsage) return;
 
-      // Check for property access: OBJECT_NAME.PROPERTY_NAME
-      if (ts.isPropertyAccessExpression(node)) {
-        const expression = node.expression;
-        const name = node.name;
+      // Only the outermost access of a chain is checked (OBJECT.a.b, not OBJECT.a within it)
+      const parent = node.parent;
+      const isOutermost = !parent || !(isAccess(parent) && parent.expression === node);
+
+      if (isOutermost && (isAccess(node) || ts.isIdentifier(node)) && !(ts.isIdentifier(node) && isNameOnly(node))) {
+        // Collect the chain from the outermost access down to the object
+        const chain: (string | null)[] = [];
+        let current: ts.Expression = node;
+        while (!isRoot(current) && isAccess(current)) {
+          chain.unshift(getAccessedName(current));
+          current = current.expression;
+        }
 
-        if (ts.isIdentifier(expression) && ts.isIdentifier(name)) {
-          if (expression.text === objectName && name.text === propertyName) {
+        if (isRoot(current)) {
+          // A computed access ends the known part of the chain
+          const computedIndex = chain.indexOf(null);
+          const names = computedIndex === -1 ? chain : chain.slice(0, computedIndex);
+          const length = Math.min(names.length, propertyNames.length);
+          const isWholeObject = chain.length === 0 && !isWithoutPropertyRead(node);
+          if (isWholeObject || (length > 0 && names.slice(0, length).every((name, i) => name === propertyNames[i]))) {
             foundPropertyUsage = true;
             return;
           }
         }
       }
 
-      // Check for element access: OBJECT_NAME["PROPERTY_NAME"] or OBJECT_NAME['PROPERTY_NAME']
-      if (ts.isElementAccessExpression(node)) {
-        const expression = node.expression;
-        const argumentExpression = node.argumentExpression;
-
-        if (ts.isIdentifier(expression) && expression.text === objectName) {
-          if (ts.isStringLiteral(argumentExpression)) {
-            if (argumentExpression.text === propertyName) {
-              foundPropertyUsage = true;
-              return;
-            }
-          }
-        }
-      }
-
       ts.forEachChild(node, visitNode);
     }
 
@@ -374,106 +953,60 @@ export class FaeptsAnalyzer {
   }
 
   /**
-   * Checks if a file re-exports the target file.
-   * Returns information about the re-export including which functions are exported.
+   * Checks whether a block uses an entity in type positions only (type
+   * annotations, 'implements' clauses, interfaces and type aliases), so the
+   * emitted JavaScript of the block does not reference it.
    * 
-   * @param filePath The file to check for re-exports.
-   * @param targetPath The target file path that should be re-exported.
-   * @returns Re-export information, or null if not found.
+   * @param blockContent The code block of the dependent entity.
+   * @param entityName The name of the used entity.
+   * @returns True if every occurrence of the name is erased on compilation.
    */
-  private findReExportedInfo(filePath: string, targetPath: string): ReExportInfo | null {
-    const fileContent = this.getFileContent(filePath);
-    if (!fileContent) return null;
+  private isTypeOnlyUse(blockContent: string, entityName: string): boolean {
+    // Members and properties are always accessed on values
+    if (entityName.includes('.')) {
+      return false;
+    }
+    // Decorator metadata emits the types of decorated declarations
+    if (this.emitsDecoratorMetadata && blockContent.includes('@')) {
+      return false;
+    }
 
     let sourceFile: ts.SourceFile;
     try {
-      sourceFile = ts.createSourceFile(
-        filePath,
-        fileContent,
-        ts.ScriptTarget.ESNext
-      );
+      sourceFile = ts.createSourceFile('temp.ts', blockContent, ts.ScriptTarget.ESNext, true);
     } catch (e) {
-      return null;
-    }
-
-    const fileDir = path.dirname(filePath);
-    const targetPathWithoutExt = targetPath.replace(/\.ts$/, '');
-    const targetPathNormalized = path.normalize(targetPathWithoutExt).replace(/\\/g, '/');
-
-    let reExportInfo: ReExportInfo | null = null;
-
-    function searchNode(node: ts.Node) {
-      if (reExportInfo) return;
-
-      // Check for export * from './path' or export { name } from './path'
-      if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
-        if (ts.isStringLiteral(node.moduleSpecifier)) {
-          const exportPath = node.moduleSpecifier.text;
-          
-          // Try with .ts extension
-          let resolvedPath = path.resolve(fileDir, exportPath + '.ts');
-          let resolvedPathNormalized = path.normalize(resolvedPath.replace(/\.ts$/, '')).replace(/\\/g, '/');
-          
-          if (resolvedPathNormalized === targetPathNormalized) {
-            // Check if it's a named export (export { name } from) or wildcard export (export * from)
-            if (node.exportClause && ts.isNamedExports(node.exportClause)) {
-              // Named export: export { name1, name2 } from './path'
-              const exportedNames: string[] = [];
-              for (const element of node.exportClause.elements) {
-                if (ts.isIdentifier(element.name)) {
-                  exportedNames.push(element.name.text);
-                }
-              }
-              reExportInfo = {
-                path: targetPath,
-                exportedNames: exportedNames.length > 0 ? exportedNames : null
-              };
-            } else {
-              // Wildcard export: export * from './path'
-              reExportInfo = {
-                path: targetPath,
-                exportedNames: null // null means all functions
-              };
-            }
-            return;
-          }
-          
-          // Try without extension (if exportPath already has it)
-          resolvedPath = path.resolve(fileDir, exportPath);
-          resolvedPathNormalized = path.normalize(resolvedPath.replace(/\.ts$/, '')).replace(/\\/g, '/');
-          
-          if (resolvedPathNormalized === targetPathNormalized) {
-            // Check if it's a named export (export { name } from) or wildcard export (export * from)
-            if (node.exportClause && ts.isNamedExports(node.exportClause)) {
-              // Named export: export { name1, name2 } from './path'
-              const exportedNames: string[] = [];
-              for (const element of node.exportClause.elements) {
-                if (ts.isIdentifier(element.name)) {
-                  exportedNames.push(element.name.text);
-                }
-              }
-              reExportInfo = {
-                path: targetPath,
-                exportedNames: exportedNames.length > 0 ? exportedNames : null
-              };
-            } else {
-              // Wildcard export: export * from './path'
-              reExportInfo = {
-                path: targetPath,
-                exportedNames: null // null means all functions
-              };
-            }
-            return;
-          }
+      return false;
+    }
+
+    const isErased = (node: ts.Node): boolean => {
+      for (let current: ts.Node = node; current !== sourceFile; current = current.parent) {
+        if (ts.isInterfaceDeclaration(current) || ts.isTypeAliasDeclaration(current)) {
+          return true;
+        }
+        if (ts.isHeritageClause(current)) {
+          return current.token === ts.SyntaxKind.ImplementsKeyword || ts.isInterfaceDeclaration(current.parent);
+        }
+        if (ts.isTypeNode(current) && !ts.isExpressionWithTypeArguments(current)) {
+          return true;
         }
       }
-
-      if (!reExportInfo) {
-        ts.forEachChild(node, searchNode);
+      return false;
+    };
+
+    let occurrences = 0;
+    let runtimeUse = false;
+    function visitNode(node: ts.Node): void {
+      if (runtimeUse) return;
+      if (ts.isIdentifier(node) && node.text === entityName) {
+        occurrences++;
+        runtimeUse = !isErased(node);
+        return;
       }
+      ts.forEachChild(node, visitNode);
     }
 
-    searchNode(sourceFile);
-    return reExportInfo;
+    visitNode(sourceFile);
+    // No occurrence (e.g., the name only appears in a string): assume a runtime use
+    return occurrences > 0 && !runtimeUse;
   }
 }
\ No newline at end of file
@@ -0,0 +1,184 @@
+/**
+ * Class hierarchy module.
+ *
+ * This module builds the inheritance graph of the project from the 'extends'
+ * and 'implements' clauses of its classes and interfaces, so a change to a
+ * base class member can be followed to the subclasses inheriting it, and
+ * calls through a base class or interface type can be tied to the classes
+ * implementing it. Classes are identified by name; heritage clauses naming an
+ * import alias ('import { UserRepo as Base }') are mapped back to the
+ * imported name.
+ *
+ * @module core/class-hierarchy
+ */
+
+import ts from 'typescript';
+import { readSourceFile } from '../utils/source-files';
+
+/**
+ * A class or interface declaration of the project.
+ */
+export interface ClassDeclarationInfo {
+  /** The class or interface name. */
+  name: string;
+  /** Absolute path of the declaring file. */
+  path: string;
+  /** Whether the declaration is a class (false for interfaces). */
+  isClass: boolean;
+  /** Names of the classes and interfaces it extends or implements. */
+  bases: string[];
+}
+
+/**
+ * Inheritance graph of the classes and interfaces of the project.
+ *
+ * @class ClassHierarchy
+ */
+export class ClassHierarchy {
+  /** Declarations keyed by name (several files may declare the same name). */
+  private declarations: Map<string, ClassDeclarationInfo[]> = new Map();
+  /** Direct subclasses and implementers keyed by base name. */
+  private derived: Map<string, ClassDeclarationInfo[]> = new Map();
+
+  /**
+   * Creates the graph from the declarations of the given files.
+   *
+   * @param files Absolute paths of the project files.
+   * @param readDeclarations Gets the class and interface declarations of a file
+   *                         (defaults to parsing it from the file system); can be
+   *                         replaced to share the files analyzed by the project model.
+   */
+  constructor(files: string[], readDeclarations: (filePath: string) => ClassDeclarationInfo[] = ClassHierarchy.readFromDisk) {
+    for (const filePath of files) {
+      for (const declaration of readDeclarations(filePath)) {
+        const byName = this.declarations.get(declaration.name) ?? [];
+        byName.push(declaration);
+        this.declarations.set(declaration.name, byName);
+
+        for (const base of declaration.bases) {
+          const derived = this.derived.get(base) ?? [];
+          derived.push(declaration);
+          this.derived.set(base, derived);
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the declarations of a file from disk, returning none on failure.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns The declarations, with their base names.
+   */
+  private static readFromDisk(filePath: string): ClassDeclarationInfo[] {
+    const sourceFile = readSourceFile(filePath);
+    return sourceFile ? ClassHierarchy.findDeclarations(filePath, sourceFile) : [];
+  }
+
+  /**
+   * Finds the top-level class and interface declarations of a file.
+   *
+   * @param filePath Absolute path of the file.
+   * @param sourceFile The parsed file.
+   * @returns The declarations, with their base names.
+   */
+  public static findDeclarations(filePath: string, sourceFile: ts.SourceFile): ClassDeclarationInfo[] {
+    // Most files declare no classes: skip walking them
+    if (!/\b(class|interface)\b/.test(sourceFile.text)) {
+      return [];
+    }
+
+    // Local names of named imports -> imported names
+    const importedNames = new Map<string, string>();
+    for (const statement of sourceFile.statements) {
+      const namedBindings = ts.isImportDeclaration(statement) ? statement.importClause?.namedBindings : undefined;
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        for (const element of namedBindings.elements) {
+          if (element.propertyName && ts.isIdentifier(element.propertyName)) {
+            importedNames.set(element.name.text, element.propertyName.text);
+          }
+        }
+      }
+    }
+
+    const declarations: ClassDeclarationInfo[] = [];
+    for (const statement of sourceFile.statements) {
+      if (!(ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)) || !statement.name) continue;
+
+      const bases: string[] = [];
+      for (const clause of statement.heritageClauses ?? []) {
+        for (const type of clause.types) {
+          // 'extends Base', 'extends Base<T>' or 'extends models.Base'
+          const expression = type.expression;
+          const baseName = ts.isIdentifier(expression)
+            ? importedNames.get(expression.text) ?? expression.text
+            : ts.isPropertyAccessExpression(expression) ? expression.name.text : undefined;
+          if (baseName !== undefined) {
+            bases.push(baseName);
+          }
+        }
+      }
+
+      declarations.push({
+        name: statement.name.text,
+        path: filePath,
+        isClass: ts.isClassDeclaration(statement),
+        bases,
+      });
+    }
+    return declarations;
+  }
+
+  /**
+   * Checks whether a name is a class declared in the project.
+   *
+   * @param name The class name.
+   * @returns True if some project file declares a class of that name.
+   */
+  public isClass(name: string): boolean {
+    return (this.declarations.get(name) ?? []).some(declaration => declaration.isClass);
+  }
+
+  /**
+   * Gets the declarations of a class or interface name.
+   *
+   * @param name The class or interface name.
+   * @returns The declarations (several files may declare the same name).
+   */
+  public getDeclarations(name: string): ClassDeclarationInfo[] {
+    return this.declarations.get(name) ?? [];
+  }
+
+  /**
+   * Gets the classes directly extending or implementing a class or interface.
+   *
+   * @param name The base name.
+   * @returns The direct subclasses (interfaces extending it are left out).
+   */
+  public getDirectSubclasses(name: string): ClassDeclarationInfo[] {
+    return (this.derived.get(name) ?? []).filter(declaration => declaration.isClass);
+  }
+
+  /**
+   * Gets every class and interface a class derives from, directly or not.
+   *
+   * @param name The class name.
+   * @returns The ancestor names (not including the class itself).
+   */
+  public getAncestors(name: string): Set<string> {
+    const ancestors = new Set<string>();
+    const queue = [name];
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      for (const declaration of this.declarations.get(current) ?? []) {
+        for (const base of declaration.bases) {
+          if (base !== name && !ancestors.has(base)) {
+            ancestors.add(base);
+            queue.push(base);
+          }
+        }
+      }
+    }
+    return ancestors;
+  }
+}
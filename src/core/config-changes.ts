@@ -0,0 +1,302 @@
+/**
+ * Configuration change classifier module.
+ *
+ * This module classifies changes to non-TypeScript files that affect deployed
+ * functions (package.json, package-lock.json, tsconfig, .env files,
+ * .runtimeconfig.json and the functions block of firebase.json) using a list of rules.
+ *
+ * @module core/config-changes
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { getFunctionsConfig } from '../utils/file-system';
+import { ConfigChange } from './types';
+
+/**
+ * Pathspecs (relative to the functions source directory) of the configuration
+ * files handled by the rules. firebase.json lives in the Firebase project root
+ * and is compared separately.
+ */
+export const CONFIG_FILE_PATHSPECS = ['package.json', 'package-lock.json', 'tsconfig*.json', '.env', '.env.*', '.runtimeconfig.json'];
+
+/**
+ * Keys of package.json that change what is installed or run in production.
+ * Changes limited to other keys (scripts, devDependencies, ...) are ignored.
+ */
+const RUNTIME_PACKAGE_KEYS = ['dependencies', 'optionalDependencies', 'overrides', 'engines', 'main', 'type'];
+
+/**
+ * Keys of package.json whose effect is visible in package-lock.json.
+ * When the lockfile changes are attributed per package (see core/lockfile-diff), they are ignored here.
+ */
+const LOCKED_PACKAGE_KEYS = ['dependencies', 'optionalDependencies', 'overrides'];
+
+/**
+ * Keys of a firebase.json functions entry that do not change deployed functions.
+ */
+const IGNORED_FUNCTIONS_CONFIG_KEYS = ['predeploy', 'postdeploy'];
+
+/**
+ * Context passed to the rules.
+ */
+export interface ConfigRuleContext {
+  /** The absolute path to the Firebase project root (the directory of firebase.json). */
+  firebaseRoot: string;
+  /** The absolute path to the functions source directory, used to find its firebase.json entry. */
+  projectRoot: string;
+  /** Whether package-lock.json changes are attributed per package (see core/lockfile-diff). */
+  lockfileAttributed: boolean;
+}
+
+/**
+ * The directories a configuration file is looked up from (the part of the
+ * rule context that does not depend on the compared revisions).
+ */
+export type ConfigFileLocation = Pick<ConfigRuleContext, 'firebaseRoot' | 'projectRoot'>;
+
+/**
+ * Classification of a change, without the file path.
+ */
+type ConfigChangeClassification = Omit<ConfigChange, 'path'>;
+
+/**
+ * A rule that recognizes a configuration file and classifies its changes.
+ */
+interface ConfigChangeRule {
+  /** Returns true if the rule handles the given file name. */
+  matches: (fileName: string) => boolean;
+  /**
+   * Classifies a change. Content is undefined on the side where the file does not exist.
+   * Returns null if the change does not affect deployed functions.
+   */
+  classify: (
+    fileName: string,
+    baseContent: string | undefined,
+    headContent: string | undefined,
+    context: ConfigRuleContext
+  ) => ConfigChangeClassification | null;
+  /**
+   * Reduces the content to what classify compares, with values replaced by
+   * their hashes (the hash of the whole content by default).
+   */
+  fingerprint?: (content: string, context: ConfigFileLocation) => string;
+}
+
+/**
+ * Parses JSON content, returning undefined on failure.
+ *
+ * @param content The JSON text, or undefined.
+ * @returns The parsed value, or undefined.
+ */
+function parseJson(content: string | undefined): any {
+  if (content === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Hashes a string with SHA-256.
+ *
+ * @param content The string to hash.
+ * @returns The hex digest.
+ */
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Replaces the values of an object's keys by their hashes.
+ *
+ * @param value The object.
+ * @param keys The keys to keep (missing keys are left out).
+ * @returns The kept keys with hashed values.
+ */
+function hashValues(value: Record<string, unknown>, keys: string[]): Record<string, string> {
+  const hashed: Record<string, string> = {};
+  for (const key of keys) {
+    if (value[key] !== undefined) {
+      hashed[key] = hash(JSON.stringify(value[key]));
+    }
+  }
+  return hashed;
+}
+
+/**
+ * Lists the keys whose values differ between two objects.
+ *
+ * @param base The object at base.
+ * @param head The object at head.
+ * @param keys The keys to compare.
+ * @returns The keys with different values.
+ */
+function changedKeys(base: any, head: any, keys: string[]): string[] {
+  return keys.filter(key => JSON.stringify(base?.[key]) !== JSON.stringify(head?.[key]));
+}
+
+/**
+ * The classification rules, checked in order. The first matching rule wins.
+ */
+const CONFIG_CHANGE_RULES: ConfigChangeRule[] = [
+  // package.json: dependencies, engines (runtime), entry point
+  {
+    matches: (fileName) => fileName === 'package.json',
+    classify: (fileName, baseContent, headContent, context) => {
+      const base = parseJson(baseContent);
+      const head = parseJson(headContent);
+      if ((baseContent !== undefined && base === undefined) || (headContent !== undefined && head === undefined)) {
+        return { scope: 'codebase', project: null, reason: 'could not be parsed' };
+      }
+
+      const packageKeys = context.lockfileAttributed
+        ? RUNTIME_PACKAGE_KEYS.filter(key => !LOCKED_PACKAGE_KEYS.includes(key))
+        : RUNTIME_PACKAGE_KEYS;
+      const keys = changedKeys(base, head, packageKeys);
+      if (keys.length === 0) {
+        return null;
+      }
+      return { scope: 'codebase', project: null, reason: `${keys.join(', ')} changed` };
+    },
+    fingerprint: (content) => {
+      const parsed = parseJson(content);
+      // Unparsable content stays unparsable, so classify reports it as such
+      if (typeof parsed !== 'object' || parsed === null) {
+        return hash(content);
+      }
+      return JSON.stringify(hashValues(parsed, RUNTIME_PACKAGE_KEYS));
+    },
+  },
+
+  // package-lock.json: only when it could not be attributed per package
+  {
+    matches: (fileName) => fileName === 'package-lock.json',
+    classify: (fileName, baseContent, headContent, context) => {
+      if (context.lockfileAttributed) {
+        return null;
+      }
+      return { scope: 'codebase', project: null, reason: 'installed packages changed' };
+    },
+  },
+
+  // tsconfig.json (and tsconfig.*.json): changes the emitted JavaScript
+  {
+    matches: (fileName) => /^tsconfig(\..+)?\.json$/.test(fileName),
+    classify: () => ({ scope: 'codebase', project: null, reason: 'compiler options changed' }),
+  },
+
+  // .env.local is only used by the emulator
+  {
+    matches: (fileName) => fileName === '.env.local',
+    classify: () => null,
+  },
+
+  // .env: environment variables of every project
+  {
+    matches: (fileName) => fileName === '.env',
+    classify: () => ({ scope: 'codebase', project: null, reason: 'environment variables changed' }),
+  },
+
+  // .env.<project>: environment variables of a single project (id or alias)
+  {
+    matches: (fileName) => fileName.startsWith('.env.'),
+    classify: (fileName) => {
+      const project = fileName.substring('.env.'.length);
+      return { scope: 'project', project, reason: 'environment variables changed' };
+    },
+  },
+
+  // .runtimeconfig.json: functions.config() values
+  {
+    matches: (fileName) => fileName === '.runtimeconfig.json',
+    classify: () => ({ scope: 'codebase', project: null, reason: 'runtime config changed' }),
+  },
+
+  // firebase.json: only the functions entry of this codebase matters (runtime, region, ignore, ...)
+  {
+    matches: (fileName) => fileName === 'firebase.json',
+    classify: (fileName, baseContent, headContent, context) => {
+      const base = getFunctionsConfig(parseJson(baseContent), context.firebaseRoot, context.projectRoot);
+      const head = getFunctionsConfig(parseJson(headContent), context.firebaseRoot, context.projectRoot);
+
+      const allKeys = [...new Set([...Object.keys(base ?? {}), ...Object.keys(head ?? {})])];
+      const keys = changedKeys(base, head, allKeys.filter(key => !IGNORED_FUNCTIONS_CONFIG_KEYS.includes(key)));
+      if (keys.length === 0) {
+        return null;
+      }
+      return { scope: 'codebase', project: null, reason: `functions configuration (${keys.join(', ')}) changed` };
+    },
+    fingerprint: (content, context) => {
+      const functionsConfig = getFunctionsConfig(parseJson(content), context.firebaseRoot, context.projectRoot);
+      if (!functionsConfig) {
+        return JSON.stringify({});
+      }
+      // A single entry: found by getFunctionsConfig whatever the directory it is compared from
+      const { source, ...keys } = functionsConfig;
+      return JSON.stringify({ functions: hashValues(keys, Object.keys(keys)) });
+    },
+  },
+];
+
+/**
+ * Classifies a change to a configuration file.
+ *
+ * @param relativePath Path of the file, relative to the functions source directory.
+ * @param baseContent The file content at base, or undefined if it did not exist.
+ * @param headContent The file content at head, or undefined if it was deleted.
+ * @param context The Firebase project root, the functions source directory and whether lockfile changes are attributed per package.
+ * @returns The classified change, or null if it does not affect deployed functions.
+ */
+export function classifyConfigChange(
+  relativePath: string,
+  baseContent: string | undefined,
+  headContent: string | undefined,
+  context: ConfigRuleContext
+): ConfigChange | null {
+  if (baseContent === headContent) {
+    return null;
+  }
+
+  const fileName = path.basename(relativePath);
+  const rule = CONFIG_CHANGE_RULES.find(r => r.matches(fileName));
+  if (!rule) {
+    return null;
+  }
+
+  const classification = rule.classify(fileName, baseContent, headContent, context);
+  if (!classification) {
+    return null;
+  }
+
+  return {
+    path: relativePath.replace(/\\/g, '/'),
+    ...classification,
+  };
+}
+
+/**
+ * Reduces the content of a configuration file to the parts its rule
+ * compares, with values replaced by their hashes, so it can be stored (e.g.,
+ * in a snapshot manifest, without secrets of .env files) and later compared
+ * with classifyConfigChange.
+ *
+ * @param relativePath Path of the file, relative to the functions source directory.
+ * @param content The file content.
+ * @param context The Firebase project root and the functions source directory.
+ * @returns The fingerprint, or null if no rule handles the file.
+ */
+export function fingerprintConfigFile(
+  relativePath: string,
+  content: string,
+  context: ConfigFileLocation
+): string | null {
+  const rule = CONFIG_CHANGE_RULES.find(r => r.matches(path.basename(relativePath)));
+  if (!rule) {
+    return null;
+  }
+  return rule.fingerprint ? rule.fingerprint(content, context) : hash(content);
+}
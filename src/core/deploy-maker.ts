@@ -3,7 +3,8 @@
  * 
  * This module analyzes the project's entry point file to build a mapping
  * of group names to imported files, then generates Firebase deployment names
- * for affected endpoints.
+ * for affected endpoints, following the exports of the entry file through
+ * re-exports and renames (see core/export-map).
  * 
  * @module core/deploy-maker
  */
@@ -11,7 +12,36 @@
 import fs from 'fs';
 import path from 'path';
 import ts from 'typescript';
-import { AnalysisSeed } from './types';
+import { ExportMap, isUnnamedDefaultExport, parseFileExports } from './export-map';
+import { DEFAULT_EXPORT_ENTITY } from './find-top-functions';
+import { ProjectModel } from './project-model';
+import { AnalysisSeed, MovedEndpoint } from './types';
+import { parseSourceFile, removeSourceExtension, resolveSourceFile } from '../utils/source-files';
+import { findEntryFile } from '../utils/file-system';
+
+/**
+ * Changes beyond the affected endpoints that need deployment names.
+ */
+export interface DeployMakerOptions {
+  /** Endpoints deleted since the diff base (from GitChangeAnalyzer). */
+  removedEndPoints?: AnalysisSeed[];
+  /** Endpoints whose file was renamed or moved (from GitChangeAnalyzer). */
+  movedEndPoints?: MovedEndpoint[];
+  /** Reads a file as it existed at the diff base; used to name removed and moved endpoints. */
+  readBaseFile?: (filePath: string) => string | undefined;
+  /** The project model (from FaeptsAnalyzer), whose export map is reused to name endpoints. */
+  model?: ProjectModel;
+}
+
+/**
+ * An endpoint whose deployment name changes because its file moved.
+ */
+export interface RenamedDeployName {
+  /** The deployment name at the diff base (e.g., "gf-getGame"). */
+  from: string;
+  /** The deployment name at head (e.g., "games-getGame"). */
+  to: string;
+}
 
 /**
  * Analyzes the entry point file to build deployment group mappings
@@ -34,62 +64,52 @@ export class DeployMaker {
    */
   private deploymentNameMap: Map<string, string>;
 
+  /** Endpoints that were deleted and need a 'functions:delete' command. */
+  private removedEndPoints: AnalysisSeed[];
+  /** Endpoints whose file was renamed or moved. */
+  private movedEndPoints: MovedEndpoint[];
+  /**
+   * Deployment group map built from the entry file as it existed at the diff base.
+   * Removed and moved endpoints are named with this map, because their group
+   * mapping usually changes in the entry file together with them.
+   */
+  private baseDeploymentNameMap: Map<string, string> | null = null;
+  /** Exported names of the project files, followed from the entry file to name endpoints. */
+  private exportMap: ExportMap;
+  /** Export map of the files as they existed at the diff base (for removed and moved endpoints). */
+  private baseExportMap: ExportMap | null = null;
+
   /**
    * Creates the DeployMaker instance.
    * @param affectedEndPoints The list of "dirty" endpoints from FaeptsAnalyzer.
    * @param projectRoot The absolute path to the project root (e.g., ".../functions").
+   * @param options Removed and moved endpoints, and how to read the diff base.
    */
-  constructor(affectedEndPoints: AnalysisSeed[], projectRoot: string) {
+  constructor(affectedEndPoints: AnalysisSeed[], projectRoot: string, options: DeployMakerOptions = {}) {
     this.affectedEndPoints = affectedEndPoints;
+    this.removedEndPoints = options.removedEndPoints ?? [];
+    this.movedEndPoints = options.movedEndPoints ?? [];
     this.projectRoot = projectRoot;
     this.deploymentNameMap = new Map<string, string>();
     
     // Read 'firebase.json' and find the main entry point
-    this.indexTsPath = this.findIndexFileFromConfig();
+    this.indexTsPath = findEntryFile(this.projectRoot);
 
     // Analyze the main entry file and build the deployment group map
     this.buildDeploymentMap();
-  }
-
-  /**
-   * Reads 'firebase.json' to find the 'main' entry point and converts it
-   * back to its source .ts path (e.g., "lib/index.js" -> "src/index.ts").
-   * 
-   * @returns Absolute path to the main TypeScript entry file.
-   */
-  private findIndexFileFromConfig(): string {
-    const configPath = path.join(this.projectRoot, '../firebase.json');
-    const defaultIndexPath = path.join(this.projectRoot, 'src/index.ts');
-
-    let mainJsPath: string;
-
-    try {
-      const configContent = fs.readFileSync(configPath, 'utf8');
-      const firebaseConfig = JSON.parse(configContent);
-
-      if (Array.isArray(firebaseConfig.functions)) {
-        const functionsConfig = firebaseConfig.functions.find(
-          (f: any) => f.source === path.basename(this.projectRoot)
-        );
-        mainJsPath = functionsConfig?.main;
-      } else {
-        mainJsPath = firebaseConfig.functions?.main;
-      }
+    this.exportMap = options.model?.getExportMap() ?? new ExportMap(projectRoot);
 
-      if (!mainJsPath) {
-        return defaultIndexPath;
+    const hasBaseEndPoints = this.removedEndPoints.length > 0 || this.movedEndPoints.length > 0;
+    if (hasBaseEndPoints && options.readBaseFile) {
+      const baseContent = options.readBaseFile(this.indexTsPath);
+      if (baseContent !== undefined) {
+        this.baseDeploymentNameMap = this.parseDeploymentMap(baseContent);
+        const readBaseFile = options.readBaseFile;
+        this.baseExportMap = new ExportMap(projectRoot, filePath => {
+          const content = readBaseFile(filePath);
+          return content === undefined ? undefined : parseFileExports(parseSourceFile(filePath, content));
+        });
       }
-
-      const mainTsPath = mainJsPath
-        .replace(/^lib\//, 'src/')
-        .replace(/^dist\//, 'src/')
-        .replace(/\.js$/, '.ts');
-        
-      return path.join(this.projectRoot, mainTsPath);
-
-    } catch (e) {
-      console.warn(`[FIRE-DIFF Warning] Could not read firebase.json. Assuming 'src/index.ts'.`);
-      return defaultIndexPath;
     }
   }
 
@@ -101,19 +121,31 @@ export class DeployMaker {
    * (export * from ...) syntax patterns.
    */
   private buildDeploymentMap(): void {
-    let sourceFile: ts.SourceFile;
+    let content: string;
     try {
-      const content = fs.readFileSync(this.indexTsPath, 'utf8');
-      sourceFile = ts.createSourceFile(
-        this.indexTsPath,
-        content,
-        ts.ScriptTarget.ESNext
-      );
+      content = fs.readFileSync(this.indexTsPath, 'utf8');
     } catch (e) {
       console.warn(`[FIRE-DIFF Warning] Could not read entry point file: ${this.indexTsPath}. Group names may be missing.`);
       return;
     }
 
+    this.deploymentNameMap = this.parseDeploymentMap(content);
+  }
+
+  /**
+   * Parses the content of the entry file into a deployment group map.
+   * 
+   * @param content The content of the entry file.
+   * @returns Map of extensionless absolute paths to group names.
+   */
+  private parseDeploymentMap(content: string): Map<string, string> {
+    const deploymentNameMap = new Map<string, string>();
+    const sourceFile = ts.createSourceFile(
+      this.indexTsPath,
+      content,
+      ts.ScriptTarget.ESNext
+    );
+
     const indexDir = path.dirname(this.indexTsPath);
 
     ts.forEachChild(sourceFile, (node) => {
@@ -139,16 +171,12 @@ export class DeployMaker {
           const groupName = node.expression.left.name.text; // e.g., "gf"
           const requirePath = arg.text; // e.g., "./exports/gamefunctions"
           
-          // Resolve to absolute path and normalize (remove .ts extension for matching)
-          // TypeScript require paths don't include .ts extension, so we add it
-          let absolutePath = path.resolve(indexDir, requirePath);
-          if (!absolutePath.endsWith('.ts')) {
-            absolutePath = absolutePath + '.ts';
-          }
+          // Resolve to the source file ('./exports/game', './exports/game.js' or a directory index)
+          const requiredPath = path.resolve(indexDir, requirePath);
+          const absolutePath = resolveSourceFile(requiredPath) ?? requiredPath;
           // Normalize path (remove extension for map key to match getDeployNames logic)
-          const parsedPath = path.parse(absolutePath);
-          const pathWithoutExtension = path.resolve(parsedPath.dir, parsedPath.name);
-          this.deploymentNameMap.set(pathWithoutExtension, groupName);
+          const pathWithoutExtension = removeSourceExtension(absolutePath);
+          deploymentNameMap.set(pathWithoutExtension, groupName);
         }
       }
 
@@ -157,6 +185,8 @@ export class DeployMaker {
       // So we don't add these to the deployment map (they will use function name as-is)
       // This is intentionally left empty - export * from files should not have prefixes
     });
+
+    return deploymentNameMap;
   }
 
   /**
@@ -167,25 +197,8 @@ export class DeployMaker {
     const finalNames = new Set<string>();
 
     for (const endpoint of this.affectedEndPoints) {
-      
-      // Rule 1: If endpoint is in 'index.ts' (main entry file)
-      if (endpoint.path === this.indexTsPath) {
-        finalNames.add(endpoint.fn);
-        continue;
-      }
-
-      // Rule 2: If endpoint is in the deployment group map
-      const parsedPath = path.parse(endpoint.path);
-      const pathWithoutExtension = path.resolve(parsedPath.dir, parsedPath.name);
-      
-      const groupName = this.deploymentNameMap.get(pathWithoutExtension);
-
-      if (groupName) {
-        // V1 notation: 'group-function'
-        finalNames.add(`${groupName}-${endpoint.fn}`);
-      } else {
-        // Rule 3: V2 or not in map (use function name as-is)
-        finalNames.add(endpoint.fn);
+      for (const name of this.resolveDeployNames(endpoint.fn, endpoint.path, this.deploymentNameMap, this.exportMap)) {
+        finalNames.add(name);
       }
     }
 
@@ -205,28 +218,112 @@ export class DeployMaker {
       if (endpoint.version !== version) {
         continue;
       }
-      
-      // Rule 1: If endpoint is in 'index.ts' (main entry file)
-      if (endpoint.path === this.indexTsPath) {
-        finalNames.add(endpoint.fn);
-        continue;
+
+      for (const name of this.resolveDeployNames(endpoint.fn, endpoint.path, this.deploymentNameMap, this.exportMap)) {
+        finalNames.add(name);
       }
+    }
 
-      // Rule 2: If endpoint is in the deployment group map
-      const parsedPath = path.parse(endpoint.path);
-      const pathWithoutExtension = path.resolve(parsedPath.dir, parsedPath.name);
-      
-      const groupName = this.deploymentNameMap.get(pathWithoutExtension);
-
-      if (groupName) {
-        // V1 notation: 'group-function'
-        finalNames.add(`${groupName}-${endpoint.fn}`);
-      } else {
-        // Rule 3: V2 or not in map (use function name as-is)
-        finalNames.add(endpoint.fn);
+    return Array.from(finalNames);
+  }
+
+  /**
+   * Calculates the deployment name of a single endpoint.
+   * @param endpoint The endpoint (fn, path).
+   * @returns The deployment name (e.g., "gf-getGame"), or undefined if the endpoint is not deployed.
+   */
+  public getDeployName(endpoint: AnalysisSeed): string | undefined {
+    return this.resolveDeployName(endpoint.fn, endpoint.path, this.deploymentNameMap, this.exportMap);
+  }
+
+  /**
+   * Calculates the deployment names of an endpoint. The names the entry file
+   * exports it under are followed through re-exports and groups (e.g.,
+   * "gf-getGame" for 'exports.gf = require("./exports")' re-exporting
+   * "game.ts", or "fetchGame" for 'export { getGame as fetchGame } from');
+   * an endpoint exported several times has several names. A default export
+   * has no name of its own: it is only deployed under the name the entry
+   * file re-exports it with ('export { default as hello } from').
+   * @param fn The endpoint name.
+   * @param filePath The absolute path of the file containing the endpoint.
+   * @param groupMap The deployment group map, used when the entry file does not export the endpoint.
+   * @param exportMap The export map of the project.
+   * @returns The deployment names (e.g., ["gf-getGame"]), empty for a default export without a name.
+   */
+  private resolveDeployNames(fn: string, filePath: string, groupMap: Map<string, string>, exportMap: ExportMap): string[] {
+    const exportPaths = exportMap.findExportPaths(this.indexTsPath, { path: filePath, name: fn })
+      .filter(exportPath => !isUnnamedDefaultExport(exportPath));
+    if (exportPaths.length > 0) {
+      return exportPaths.map(exportPath => exportPath.join('-'));
+    }
+    if (fn === DEFAULT_EXPORT_ENTITY) {
+      return [];
+    }
+
+    // Rule 1: If endpoint is in 'index.ts' (main entry file)
+    if (filePath === this.indexTsPath) {
+      return [fn];
+    }
+
+    // Rule 2: If endpoint is in the deployment group map
+    const parsedPath = path.parse(filePath);
+    const pathWithoutExtension = path.resolve(parsedPath.dir, parsedPath.name);
+    const groupName = groupMap.get(pathWithoutExtension);
+
+    // V1 notation: 'group-function'; Rule 3: V2 or not in map (use function name as-is)
+    return [groupName ? `${groupName}-${fn}` : fn];
+  }
+
+  /**
+   * Calculates the deployment name of an endpoint with a given group map.
+   * @param fn The endpoint name.
+   * @param filePath The absolute path of the file containing the endpoint.
+   * @param groupMap The deployment group map to use.
+   * @param exportMap The export map to use.
+   * @returns The deployment name (e.g., "gf-getGame"), or undefined if the endpoint is not deployed.
+   */
+  private resolveDeployName(fn: string, filePath: string, groupMap: Map<string, string>, exportMap: ExportMap): string | undefined {
+    return this.resolveDeployNames(fn, filePath, groupMap, exportMap)[0];
+  }
+
+  /**
+   * Generates the unique list of deployment names of removed endpoints.
+   * Group names are taken from the entry file at the diff base when available,
+   * falling back to the current entry file.
+   * @returns An array of strings (e.g., ["gf-oldFunction"]).
+   */
+  public getRemovedDeployNames(): string[] {
+    const finalNames = new Set<string>();
+    const groupMap = this.baseDeploymentNameMap ?? this.deploymentNameMap;
+    const exportMap = this.baseExportMap ?? this.exportMap;
+
+    for (const endpoint of this.removedEndPoints) {
+      for (const name of this.resolveDeployNames(endpoint.fn, endpoint.path, groupMap, exportMap)) {
+        finalNames.add(name);
       }
     }
 
     return Array.from(finalNames);
   }
-}
\ No newline at end of file
+
+  /**
+   * Finds the moved endpoints whose deployment name changed, e.g. because
+   * the file moved to another 'exports.GROUP = require(...)' group.
+   * @returns The old and new deployment names of each renamed endpoint.
+   */
+  public getRenamedDeployNames(): RenamedDeployName[] {
+    const renamed = new Map<string, RenamedDeployName>();
+    const baseGroupMap = this.baseDeploymentNameMap ?? this.deploymentNameMap;
+    const baseExportMap = this.baseExportMap ?? this.exportMap;
+
+    for (const endpoint of this.movedEndPoints) {
+      const from = this.resolveDeployName(endpoint.fn, endpoint.oldPath, baseGroupMap, baseExportMap);
+      const to = this.resolveDeployName(endpoint.fn, endpoint.newPath, this.deploymentNameMap, this.exportMap);
+      if (from !== undefined && to !== undefined && from !== to) {
+        renamed.set(from, { from, to });
+      }
+    }
+
+    return Array.from(renamed.values());
+  }
+}
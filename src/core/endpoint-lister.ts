@@ -7,13 +7,14 @@
  * @module core/endpoint-lister
  */
 
-import fs from 'fs';
 import path from 'path';
 import ts from 'typescript';
 
-import { getProjectFiles } from '../utils/file-system';
-import { fileTopFunctions } from './find-top-functions';
-import { getEndpointInfo } from './firebase-helpers';
+import { removeSourceExtension, resolveSourceFile } from '../utils/source-files';
+import { findEntryFile } from '../utils/file-system';
+import { ExportMap, isUnnamedDefaultExport } from './export-map';
+import { DEFAULT_EXPORT_ENTITY, MODULE_INIT_ENTITY } from './find-top-functions';
+import { ProjectModel } from './project-model';
 import { EndpointListResult, FileFunctionsResult, TopLevelEntity } from './types';
 
 /**
@@ -28,86 +29,42 @@ import { EndpointListResult, FileFunctionsResult, TopLevelEntity } from './types
  */
 export class EndPointLister {
   private projectRoot: string;
-  private allFiles: string[];
+  private model: ProjectModel;
   private topEntities: FileFunctionsResult[];
   private indexTsPath: string;
   private deploymentNameMap: Map<string, string>;
-  private fileContentCache: Map<string, string> = new Map();
+  private exportMap: ExportMap;
 
   /**
    * Creates the EndPointLister instance.
    * This runs the project mapping and deployment map generation.
+   * @param model The project model (defaults to scanning the project); pass the
+   *              analyzer's model to reuse the files it already parsed.
    */
-  constructor() {
-    const { projectRoot, allFiles } = getProjectFiles();
-    this.projectRoot = projectRoot;
-    this.allFiles = allFiles;
+  constructor(model: ProjectModel = new ProjectModel()) {
+    this.model = model;
+    this.projectRoot = model.root;
 
-    this.topEntities = this.allFiles.map(file => {
-      return fileTopFunctions(file);
-    });
+    this.topEntities = model.getAllEntities();
 
     this.deploymentNameMap = new Map<string, string>();
-    this.indexTsPath = this._findIndexFileFromConfig();
+    this.indexTsPath = findEntryFile(this.projectRoot);
     this._buildDeploymentMap();
+    this.exportMap = model.getExportMap();
+    model.saveCache();
   }
 
   /**
-   * Gets the full text content of a file, using a cache.
+   * Gets the full text content of a file from the project model.
    * @param filePath Absolute path to the file.
    * @returns File content or undefined if read fails.
    */
   private getFileContent(filePath: string): string | undefined {
-    if (this.fileContentCache.has(filePath)) {
-      return this.fileContentCache.get(filePath);
-    }
-    try {
-      const content = fs.readFileSync(filePath, 'utf8');
-      this.fileContentCache.set(filePath, content);
-      return content;
-    } catch (e) {
+    const content = this.model.readFile(filePath);
+    if (content === undefined) {
       console.warn(`[FIRE-DIFF Warning] Could not read file: ${filePath}. Skipping.`);
-      return undefined;
-    }
-  }
-
-  /**
-   * Reads 'firebase.json' to find the 'main' entry point.
-   * @returns The absolute path to the main entry file (e.g., 'src/index.ts').
-   */
-  private _findIndexFileFromConfig(): string {
-    const configPath = path.join(this.projectRoot, '../firebase.json');
-    const defaultIndexPath = path.join(this.projectRoot, 'src/index.ts');
-    let mainJsPath: string;
-
-    try {
-      const configContent = fs.readFileSync(configPath, 'utf8');
-      const firebaseConfig = JSON.parse(configContent);
-
-      if (Array.isArray(firebaseConfig.functions)) {
-        const functionsConfig = firebaseConfig.functions.find(
-          (f: any) => f.source === path.basename(this.projectRoot)
-        );
-        mainJsPath = functionsConfig?.main;
-      } else {
-        mainJsPath = firebaseConfig.functions?.main;
-      }
-
-      if (!mainJsPath) {
-        return defaultIndexPath;
-      }
-
-      const mainTsPath = mainJsPath
-        .replace(/^lib\//, 'src/')
-        .replace(/^dist\//, 'src/')
-        .replace(/\.js$/, '.ts');
-        
-      return path.join(this.projectRoot, mainTsPath);
-
-    } catch (e) {
-      console.warn(`[FIRE-DIFF Warning] Could not read firebase.json. Assuming 'src/index.ts'.`);
-      return defaultIndexPath;
     }
+    return content;
   }
 
   /**
@@ -148,15 +105,11 @@ export class EndPointLister {
         if (arg && ts.isStringLiteral(arg)) {
           const groupName = node.expression.left.name.text;
           const requirePath = arg.text;
-          // Resolve to absolute path and normalize (remove .ts extension for matching)
-          // TypeScript require paths don't include .ts extension, so we add it
-          let absolutePath = path.resolve(indexDir, requirePath);
-          if (!absolutePath.endsWith('.ts')) {
-            absolutePath = absolutePath + '.ts';
-          }
+          // Resolve to the source file ('./exports/game', './exports/game.js' or a directory index)
+          const requiredPath = path.resolve(indexDir, requirePath);
+          const absolutePath = resolveSourceFile(requiredPath) ?? requiredPath;
           // Normalize path (remove extension for map key to match getDeployName logic)
-          const parsedPath = path.parse(absolutePath);
-          const pathWithoutExtension = path.resolve(parsedPath.dir, parsedPath.name);
+          const pathWithoutExtension = removeSourceExtension(absolutePath);
           this.deploymentNameMap.set(pathWithoutExtension, groupName);
         }
       }
@@ -169,14 +122,27 @@ export class EndPointLister {
   }
 
   /**
-   * Calculates the final deployment name for a given endpoint.
+   * Calculates the deployment names of a given endpoint, like 'analyze' does
+   * (see DeployMaker): an endpoint the entry file exports several times
+   * (e.g., directly and through 'export * as ex from') has several names,
+   * and a default export the entry file does not re-export under a name has none.
    * @param endpoint The TopLevelEntity (fn, start) to check.
    * @param filePath The absolute path of the file containing the entity.
-   * @returns The final deployment name as a string.
+   * @returns The deployment names (e.g., ["play", "ex-gameNs-play"]).
    */
-  private getDeployName(endpoint: TopLevelEntity, filePath: string): string {
+  private getDeployNames(endpoint: TopLevelEntity, filePath: string): string[] {
+    // The names the entry file exports it under, through re-exports and groups
+    const exportPaths = this.exportMap.findExportPaths(this.indexTsPath, { path: filePath, name: endpoint.fn })
+      .filter(exportPath => !isUnnamedDefaultExport(exportPath));
+    if (exportPaths.length > 0) {
+      return exportPaths.map(exportPath => exportPath.join('-'));
+    }
+    if (endpoint.fn === DEFAULT_EXPORT_ENTITY) {
+      return [];
+    }
+
     if (filePath === this.indexTsPath) {
-      return endpoint.fn;
+      return [endpoint.fn];
     }
 
     const parsedPath = path.parse(filePath);
@@ -184,15 +150,16 @@ export class EndPointLister {
     const groupName = this.deploymentNameMap.get(pathWithoutExtension);
 
     if (groupName) {
-      return `${groupName}-${endpoint.fn}`;
+      return [`${groupName}-${endpoint.fn}`];
     } else {
-      return endpoint.fn;
+      return [endpoint.fn];
     }
   }
 
   /**
    * Scans the entire project and returns a list of all found
-   * Firebase Function endpoints with their full metadata.
+   * Firebase Function endpoints with their full metadata, one entry per
+   * deployment name.
    *
    * @returns An array of EndpointListResult objects.
    */
@@ -201,30 +168,22 @@ export class EndPointLister {
 
     for (const fileMap of this.topEntities) {
       const filePath = fileMap.path;
-      const fileContent = this.getFileContent(filePath);
-      if (!fileContent) continue;
-      
-      const sortedEntities = fileMap.funcs;
-
-      for (let i = 0; i < sortedEntities.length; i++) {
-        const entity = sortedEntities[i];
-        if (!entity) continue;
-        
-        const start = entity.start;
-        const nextEntity = sortedEntities[i + 1];
-        const end = nextEntity ? nextEntity.start : fileContent.length;
-
-        const blockContent = fileContent.substring(start, end);
-        const endpointInfo = getEndpointInfo(blockContent);
+
+      for (const entity of fileMap.funcs) {
+        if (entity.fn === MODULE_INIT_ENTITY) continue;
+
+        const endpointInfo = this.model.getEndpointInfo(filePath, entity.fn);
 
         if (endpointInfo.isEndpoint) {
-          allEndpoints.push({
-            path: path.relative(this.projectRoot, filePath),
-            name: entity.fn,
-            deployname: this.getDeployName(entity, filePath),
-            kind: endpointInfo.kind,
-            version: endpointInfo.version,
-          });
+          for (const deployname of this.getDeployNames(entity, filePath)) {
+            allEndpoints.push({
+              path: path.relative(this.projectRoot, filePath),
+              name: entity.fn,
+              deployname,
+              kind: endpointInfo.kind,
+              version: endpointInfo.version,
+            });
+          }
         }
       }
     }
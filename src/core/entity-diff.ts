@@ -0,0 +1,630 @@
+/**
+ * Entity diff module.
+ *
+ * This module compares two versions of a TypeScript file entity by entity.
+ * Top-level entities (the same ones found by core/find-top-functions) are
+ * paired by name and their ASTs are compared in a normalized form that
+ * ignores whitespace, comments, quote style, trailing commas and the order
+ * of import declarations.
+ *
+ * @module core/entity-diff
+ */
+
+import ts from 'typescript';
+import {
+  DEFAULT_EXPORT_ENTITY,
+  findOverloadGroups,
+  getBindingNames,
+  getCommonJsExports,
+  getDeclarationName,
+  getMemberEntityName,
+  getNamespaceBody,
+  isModuleInitStatement,
+  MODULE_INIT_ENTITY,
+} from './find-top-functions';
+import { EntityChange } from './types';
+
+/**
+ * Normalized form of a top-level entity.
+ */
+interface NormalizedEntity {
+  /** The name of the entity. */
+  fn: string;
+  /**
+   * The normalized AST of the entity. For object literal constants, enums
+   * and static class fields holding an object literal, the object literal
+   * (or the enum members) is left out and compared through 'properties'.
+   */
+  signature: string;
+  /**
+   * Normalized properties of an object literal constant or enum, keyed by
+   * property path (e.g., "limits.maxPlayers" for nested objects), or null.
+   */
+  properties: Map<string, string> | null;
+  /** The normalized AST without type annotations, compared to detect type-only changes. */
+  runtimeSignature: string;
+  /**
+   * Whether the entity emits no JavaScript (interfaces, type aliases,
+   * 'declare' statements other than const enums, overload signatures).
+   */
+  typeOnly: boolean;
+  /** Identifiers referenced by the entity, used to find users of changed imports. */
+  references: Set<string>;
+}
+
+/**
+ * Normalized form of a file: its entities keyed by name and occurrence
+ * (e.g., "save#0", "save#1" for a function declared twice), and its imports.
+ */
+interface NormalizedFile {
+  /** Entities keyed by "{name}#{occurrence}". */
+  entities: Map<string, NormalizedEntity>;
+  /** Imported bindings: local name -> "{module}:{imported name}". */
+  importBindings: Map<string, string>;
+  /** Local names of type-only imports ('import type { A }', 'import { type A }'). */
+  typeOnlyImports: Set<string>;
+}
+
+/**
+ * Returns the part of a node that is not a child node but changes its meaning
+ * (e.g., the operator of '-x' vs '!x', or 'const' vs 'let').
+ *
+ * @param node The node.
+ * @returns The detail string, or '' if there is none.
+ */
+function nodeDetail(node: ts.Node): string {
+  if (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node) || ts.isTypeOperatorNode(node)) {
+    return ts.SyntaxKind[node.operator];
+  }
+  if (ts.isVariableDeclarationList(node)) {
+    if (node.flags & ts.NodeFlags.Const) return 'const';
+    if (node.flags & ts.NodeFlags.Let) return 'let';
+    return 'var';
+  }
+  if (ts.isHeritageClause(node)) {
+    return ts.SyntaxKind[node.token];
+  }
+  if (ts.isMetaProperty(node)) {
+    return ts.SyntaxKind[node.keywordToken];
+  }
+  return '';
+}
+
+/**
+ * Serializes a node into a normalized string. Trivia (whitespace and
+ * comments) is not part of the AST, and literals are compared by value.
+ *
+ * @param node The node to serialize.
+ * @param replace Optional callback returning a replacement string for a node
+ *                (e.g., to leave out class members), or undefined.
+ * @returns The normalized string.
+ */
+function serializeNode(node: ts.Node, replace?: (node: ts.Node) => string | undefined): string {
+  const replacement = replace?.(node);
+  if (replacement !== undefined) {
+    return replacement;
+  }
+
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isLiteralExpression(node) || ts.isTemplateHead(node) || ts.isTemplateMiddle(node) || ts.isTemplateTail(node)) {
+    return `${ts.SyntaxKind[node.kind]}:${JSON.stringify(node.text)}`;
+  }
+
+  const children: string[] = [];
+  ts.forEachChild(node, (child) => {
+    children.push(serializeNode(child, replace));
+  });
+
+  return `${ts.SyntaxKind[node.kind]}${nodeDetail(node)}(${children.join(',')})`;
+}
+
+/**
+ * Checks if a node only exists in the type system and is erased from the
+ * emitted JavaScript (type annotations, type arguments and parameters,
+ * 'implements' clauses, interface and type alias declarations).
+ *
+ * @param node The node.
+ * @returns True if the node is erased on emit.
+ */
+function isErasedNode(node: ts.Node): boolean {
+  if (ts.isHeritageClause(node)) {
+    return node.token === ts.SyntaxKind.ImplementsKeyword;
+  }
+  if (ts.isExpressionWithTypeArguments(node)) {
+    return false;
+  }
+  return ts.isTypeNode(node) || ts.isTypeParameterDeclaration(node) ||
+    ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node);
+}
+
+/**
+ * Checks if a declaration emits no JavaScript: interfaces, type aliases,
+ * 'declare' statements and overload signatures (functions and methods
+ * without a body). Const enums are inlined into the code using them, so a
+ * 'declare const enum' is not type-only.
+ *
+ * @param node The declaration.
+ * @returns True if the declaration is type-only.
+ */
+function isTypeOnlyDeclaration(node: ts.Node): boolean {
+  if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+    return true;
+  }
+  if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) && !node.body) {
+    return true;
+  }
+  const declarationNode = ts.isVariableDeclaration(node) ? node.parent.parent : node;
+  const modifiers = ts.canHaveModifiers(declarationNode) ? ts.getModifiers(declarationNode) ?? [] : [];
+  const isConstEnum = ts.isEnumDeclaration(node) && modifiers.some(m => m.kind === ts.SyntaxKind.ConstKeyword);
+  return !isConstEnum && modifiers.some(m => m.kind === ts.SyntaxKind.DeclareKeyword);
+}
+
+/**
+ * Collects the identifiers referenced inside a node.
+ *
+ * @param node The node to search.
+ * @param references The set to add the identifiers to.
+ */
+function collectReferences(node: ts.Node, references: Set<string>): void {
+  if (ts.isIdentifier(node)) {
+    references.add(node.text);
+  }
+  ts.forEachChild(node, (child) => {
+    collectReferences(child, references);
+  });
+}
+
+/**
+ * Gets the name of an object literal property, or null if it cannot be
+ * determined statically (computed names, spread elements).
+ *
+ * @param property The object literal element.
+ * @returns The property name, or null.
+ */
+function getPropertyName(property: ts.ObjectLiteralElementLike): string | null {
+  if (ts.isSpreadAssignment(property) || !property.name) {
+    return null;
+  }
+  const name = property.name;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+/**
+ * Gets the object literal an initializer evaluates to, looking through
+ * parentheses, type assertions ('as const', 'satisfies') and 'Object.freeze()'.
+ *
+ * @param expression The initializer.
+ * @returns The object literal, or undefined if the initializer is not one.
+ */
+export function getObjectLiteral(expression: ts.Expression): ts.ObjectLiteralExpression | undefined {
+  let current = expression;
+  while (true) {
+    if (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) ||
+        ts.isSatisfiesExpression(current) || ts.isTypeAssertionExpression(current)) {
+      current = current.expression;
+    } else if (ts.isCallExpression(current) && current.arguments.length === 1 &&
+        ts.isPropertyAccessExpression(current.expression) && ts.isIdentifier(current.expression.expression) &&
+        current.expression.expression.text === 'Object' && current.expression.name.text === 'freeze') {
+      current = current.arguments[0] as ts.Expression;
+    } else {
+      break;
+    }
+  }
+  return ts.isObjectLiteralExpression(current) ? current : undefined;
+}
+
+/**
+ * Serializes the shape of an object literal compared property by property:
+ * the names of its properties, so adding or removing a property changes the
+ * object itself (e.g., for 'Object.keys(CONFIG)' or spreads of it).
+ *
+ * @param objectLiteral The object literal.
+ * @returns The placeholder of the object literal (e.g., "{limits,region}").
+ */
+function serializeShape(objectLiteral: ts.ObjectLiteralExpression): string {
+  return `{${objectLiteral.properties.map(property => getPropertyName(property) ?? '').join(',')}}`;
+}
+
+/**
+ * Normalizes the properties of an object literal, keyed by property path.
+ * Properties holding an object literal themselves are broken down into
+ * their own properties (e.g., "limits.maxPlayers").
+ *
+ * @param objectLiteral The object literal.
+ * @param prefix The path of the object literal within the constant ('' at the top).
+ * @returns The normalized properties, or null if a property name cannot be determined.
+ */
+function normalizeProperties(objectLiteral: ts.ObjectLiteralExpression, prefix: string = ''): Map<string, string> | null {
+  const properties = new Map<string, string>();
+  for (const property of objectLiteral.properties) {
+    const name = getPropertyName(property);
+    if (name === null || properties.has(`${prefix}${name}`)) {
+      return null;
+    }
+
+    const nestedLiteral = ts.isPropertyAssignment(property) ? getObjectLiteral(property.initializer) : undefined;
+    const nested = nestedLiteral ? normalizeProperties(nestedLiteral, `${prefix}${name}.`) : null;
+    if (nested && nested.size > 0) {
+      // The property itself only contributes the wrapping around its object literal and its shape
+      properties.set(`${prefix}${name}`, serializeNode(property, (child) => child === nestedLiteral ? serializeShape(nestedLiteral) : undefined));
+      for (const [path, form] of nested) {
+        properties.set(path, form);
+      }
+    } else {
+      properties.set(`${prefix}${name}`, serializeNode(property));
+    }
+  }
+  return properties;
+}
+
+/**
+ * Normalizes the members of an enum, keyed by member name. A member without
+ * initializer takes its value from the members before it, so its form
+ * includes them.
+ *
+ * @param node The enum declaration.
+ * @returns The normalized members, or null if a member name cannot be determined.
+ */
+function normalizeEnumMembers(node: ts.EnumDeclaration): Map<string, string> | null {
+  const members = new Map<string, string>();
+  const forms: string[] = [];
+  for (const member of node.members) {
+    if (!ts.isIdentifier(member.name) && !ts.isStringLiteral(member.name)) {
+      return null;
+    }
+    forms.push(serializeNode(member));
+    members.set(member.name.text, member.initializer ? serializeNode(member) : forms.join(','));
+  }
+  return members;
+}
+
+/**
+ * Parses a file and normalizes its top-level entities and imports.
+ *
+ * @param filePath The path of the file (used for parsing only).
+ * @param content The file content.
+ * @returns The normalized file.
+ */
+function normalizeFile(filePath: string, content: string): NormalizedFile {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.ESNext, true);
+
+  const entities = new Map<string, NormalizedEntity>();
+  const occurrences = new Map<string, number>();
+  const importBindings = new Map<string, string>();
+  const typeOnlyImports = new Set<string>();
+
+  function addEntity(
+    fn: string,
+    node: ts.Node | ts.Node[],
+    signature: string,
+    properties: Map<string, string> | null = null,
+    exclude?: (node: ts.Node) => boolean
+  ): void {
+    const occurrence = occurrences.get(fn) ?? 0;
+    occurrences.set(fn, occurrence + 1);
+
+    const parts = Array.isArray(node) ? node : [node];
+    const references = new Set<string>();
+    for (const part of parts) {
+      collectReferences(part, references);
+    }
+    const runtimeSignature = parts
+      .map(part => serializeNode(part, (child) => (exclude?.(child) || isErasedNode(child)) ? '' : undefined))
+      .join('|');
+    const typeOnly = parts.every(part => isTypeOnlyDeclaration(part));
+    entities.set(`${fn}#${occurrence}`, { fn, signature, runtimeSignature, typeOnly, properties, references });
+  }
+
+  // Class members that are entities of their own (see core/find-top-functions)
+  const isMemberEntity = (member: ts.Node) => getMemberEntityName(member) !== null;
+
+  // Overloads are a single entity made of all their signatures
+  const serializeParts = (parts: ts.Node[]) => parts.map(part => serializeNode(part)).join('|');
+
+  function visitStatements(statements: readonly ts.Node[], prefix: string): void {
+    const overloads = findOverloadGroups(statements);
+
+    for (const node of statements) {
+      const overloadGroup = overloads.get(node);
+      if (overloadGroup && overloadGroup.length === 0) continue;
+
+      // Imports are compared as a set of bindings, so their order does not matter
+      if (ts.isImportDeclaration(node)) {
+        if (!ts.isStringLiteral(node.moduleSpecifier)) continue;
+        const moduleName = node.moduleSpecifier.text;
+        const clause = node.importClause;
+        // Side-effect imports (import './setup') are part of the module init entity
+        if (!clause) continue;
+        if (clause.name) {
+          importBindings.set(clause.name.text, `${moduleName}:default`);
+          if (clause.isTypeOnly) typeOnlyImports.add(clause.name.text);
+        }
+        if (clause.namedBindings) {
+          if (ts.isNamespaceImport(clause.namedBindings)) {
+            importBindings.set(clause.namedBindings.name.text, `${moduleName}:*`);
+            if (clause.isTypeOnly) typeOnlyImports.add(clause.namedBindings.name.text);
+          } else {
+            for (const element of clause.namedBindings.elements) {
+              importBindings.set(element.name.text, `${moduleName}:${(element.propertyName ?? element.name).text}`);
+              if (clause.isTypeOnly || element.isTypeOnly) typeOnlyImports.add(element.name.text);
+            }
+          }
+        }
+      }
+
+      // import x = require('...')
+      else if (ts.isImportEqualsDeclaration(node)) {
+        importBindings.set(node.name.text, serializeNode(node.moduleReference));
+      }
+
+      else if (ts.isFunctionDeclaration(node)) {
+        const name = getDeclarationName(node);
+        if (name !== undefined) {
+          const parts = overloadGroup ?? [node];
+          addEntity(`${prefix}${name}`, parts, serializeParts(parts));
+        }
+      }
+
+      else if (ts.isVariableStatement(node)) {
+        const modifiers = (node.modifiers ?? []).map(m => serializeNode(m)).join(',');
+        const listKind = nodeDetail(node.declarationList);
+
+        for (const declaration of node.declarationList.declarations) {
+          if (!declaration.initializer) continue;
+
+          // Destructured declarations: every bound name shares the declaration
+          if (!ts.isIdentifier(declaration.name)) {
+            const signature = `${modifiers}|${listKind}|${serializeNode(declaration)}`;
+            for (const name of getBindingNames(declaration.name)) {
+              addEntity(`${prefix}${name}`, declaration, signature);
+            }
+            continue;
+          }
+
+          // Object literal constants, including 'as const' and 'Object.freeze({...})'
+          const objectLiteral = getObjectLiteral(declaration.initializer);
+          const properties = objectLiteral ? normalizeProperties(objectLiteral) : null;
+          const signature = serializeNode(declaration, (child) => (properties && objectLiteral && child === objectLiteral) ? serializeShape(objectLiteral) : undefined);
+          addEntity(`${prefix}${declaration.name.text}`, declaration, `${modifiers}|${listKind}|${signature}`, properties);
+        }
+      }
+
+      else if (ts.isEnumDeclaration(node)) {
+        // Enum members are compared one by one (e.g., "Status.Active"); adding or removing one changes the enum
+        const members = normalizeEnumMembers(node);
+        const modifiers = (node.modifiers ?? []).map(m => serializeNode(m)).join(',');
+        const signature = members
+          ? `EnumDeclaration(${modifiers}|${node.name.text}|${Array.from(members.keys()).join(',')})`
+          : serializeNode(node);
+        addEntity(`${prefix}${node.name.text}`, node, signature, members);
+      }
+
+      else if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+        addEntity(`${prefix}${node.name.text}`, node, serializeNode(node));
+      }
+
+      else if (ts.isClassDeclaration(node)) {
+        const name = getDeclarationName(node);
+        if (name !== undefined) {
+          // The class itself: everything except the members that are entities of their own
+          const className = `${prefix}${name}`;
+          const isMember = (child: ts.Node) => child.parent === node && isMemberEntity(child);
+          const classSignature = serializeNode(node, (child) => isMember(child) ? '' : undefined);
+          addEntity(className, node, classSignature, null, isMember);
+
+          const memberOverloads = findOverloadGroups(node.members);
+          for (const member of node.members) {
+            const memberName = getMemberEntityName(member);
+            const memberGroup = memberOverloads.get(member);
+            if (memberName === null || (memberGroup && memberGroup.length === 0)) continue;
+            if (memberGroup) {
+              addEntity(`${className}.${memberName}`, memberGroup, serializeParts(memberGroup));
+              continue;
+            }
+
+            // Static fields holding an object literal are compared property by property (e.g., "Config.LIMITS.max")
+            const isStatic = ts.canHaveModifiers(member) && (ts.getModifiers(member) ?? []).some(m => m.kind === ts.SyntaxKind.StaticKeyword);
+            const objectLiteral = isStatic && ts.isPropertyDeclaration(member) && member.initializer
+              ? getObjectLiteral(member.initializer)
+              : undefined;
+            const properties = objectLiteral ? normalizeProperties(objectLiteral) : null;
+            const signature = serializeNode(member, (child) => (properties && objectLiteral && child === objectLiteral) ? serializeShape(objectLiteral) : undefined);
+            addEntity(`${className}.${memberName}`, member, signature, properties);
+          }
+        }
+      }
+
+      // Default exports (export default onCall(...))
+      else if (ts.isExportAssignment(node)) {
+        addEntity(`${prefix}${DEFAULT_EXPORT_ENTITY}`, node, serializeNode(node));
+      }
+
+      else if (ts.isModuleDeclaration(node)) {
+        const namespace = getNamespaceBody(node);
+        if (namespace) {
+          // The namespace itself: everything except the statements declaring entities of their own
+          const memberStatements = new Set<ts.Node>(namespace.statements.filter(statement => !isModuleInitStatement(statement)));
+          const isMember = (child: ts.Node) => memberStatements.has(child);
+          addEntity(`${prefix}${namespace.name}`, node, serializeNode(node, (child) => isMember(child) ? '' : undefined), null, isMember);
+          visitStatements(namespace.statements, `${prefix}${namespace.name}.`);
+        }
+      }
+
+      // CommonJS Exports (exports.getGame = ..., module.exports = { ... })
+      else {
+        for (const exported of getCommonJsExports(node) ?? []) {
+          addEntity(exported.name, exported.node, serializeNode(exported.node));
+        }
+      }
+    }
+  }
+
+  visitStatements(sourceFile.statements, '');
+
+  // The remaining top-level statements, compared in order as a single entity
+  const initStatements = sourceFile.statements.filter(statement => isModuleInitStatement(statement));
+  if (initStatements.length > 0) {
+    addEntity(MODULE_INIT_ENTITY, initStatements, initStatements.map(statement => serializeNode(statement)).join('|'));
+  }
+
+  return { entities, importBindings, typeOnlyImports };
+}
+
+/**
+ * Lists the properties whose normalized value differs between two versions
+ * of an object literal or enum (including added and removed properties).
+ *
+ * @param base The properties at base.
+ * @param head The properties at head.
+ * @returns The paths of the changed properties.
+ */
+function changedPropertyNames(base: Map<string, string>, head: Map<string, string>): string[] {
+  const names = new Set([...base.keys(), ...head.keys()]);
+  return Array.from(names).filter(name => base.get(name) !== head.get(name));
+}
+
+/**
+ * Gets the normalized form of every top-level entity of a file, e.g. to hash
+ * its content. Entities sharing a name (e.g., merged declarations) are combined into
+ * a single entry, and class members are qualified with their class name
+ * (e.g., "UserRepo.save"). Properties of object literal constants, enum
+ * members and properties of static object fields get entries of their own
+ * (e.g., "KEYS.CREATOR", "CONFIG.limits.maxPlayers", "Status.Active"),
+ * matching the property paths used by the analyzer.
+ *
+ * @param filePath The path of the file (used for parsing only).
+ * @param content The file content.
+ * @returns Map of entity names and property paths to their normalized form.
+ */
+export function normalizeEntities(filePath: string, content: string): Map<string, string> {
+  const normalized = new Map<string, string>();
+  const add = (name: string, form: string) => {
+    const existing = normalized.get(name);
+    normalized.set(name, existing === undefined ? form : `${existing}\n${form}`);
+  };
+
+  for (const entity of normalizeFile(filePath, content).entities.values()) {
+    add(entity.fn, entity.signature);
+    for (const [property, form] of entity.properties ?? []) {
+      add(`${entity.fn}.${property}`, form);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Finds the type-only entities of a file: interfaces, type aliases and
+ * ambient ('declare') declarations, which are erased from the emitted JavaScript.
+ *
+ * @param filePath The path of the file (used for parsing only).
+ * @param content The file content.
+ * @returns The names of the type-only entities.
+ */
+export function findTypeOnlyEntities(filePath: string, content: string): Set<string> {
+  const names = new Set<string>();
+  const runtimeNames = new Set<string>();
+  // Merged declarations (e.g., an interface and a class of the same name) are runtime
+  for (const entity of normalizeFile(filePath, content).entities.values()) {
+    (entity.typeOnly ? names : runtimeNames).add(entity.fn);
+  }
+  for (const name of runtimeNames) {
+    names.delete(name);
+  }
+  return names;
+}
+
+/**
+ * Compares two versions of a file and decides, for each top-level entity,
+ * whether it was added, modified, deleted or left unchanged.
+ *
+ * An entity is also considered modified when it references an imported
+ * binding whose source changed. Top-level statements outside of entities and
+ * imports binding names (side-effect imports included) are compared, in
+ * order, as the module init entity.
+ *
+ * @param filePath The path of the file (used for parsing only).
+ * @param baseContent The file content at base, or undefined if the file did not exist.
+ * @param headContent The file content at head, or undefined if the file was deleted.
+ * @returns The change of every entity, in head order followed by deleted entities.
+ */
+export function diffEntities(
+  filePath: string,
+  baseContent: string | undefined,
+  headContent: string | undefined
+): EntityChange[] {
+  const base = normalizeFile(filePath, baseContent ?? '');
+  const head = normalizeFile(filePath, headContent ?? '');
+
+  // Local names whose import changed (added, removed or re-pointed)
+  const changedImports = new Set<string>();
+  for (const name of new Set([...base.importBindings.keys(), ...head.importBindings.keys()])) {
+    if (base.importBindings.get(name) !== head.importBindings.get(name)) {
+      changedImports.add(name);
+    }
+  }
+
+  const changedImportsOf = (entity: NormalizedEntity) =>
+    Array.from(changedImports).filter(name => entity.references.has(name));
+  // A type-only import (on each side where it exists) is erased on emit
+  const isTypeOnlyImport = (name: string) =>
+    (!base.importBindings.has(name) || base.typeOnlyImports.has(name)) &&
+    (!head.importBindings.has(name) || head.typeOnlyImports.has(name));
+
+  const changes: EntityChange[] = [];
+
+  for (const [key, headEntity] of head.entities) {
+    const baseEntity = base.entities.get(key);
+    if (!baseEntity) {
+      changes.push({ fn: headEntity.fn, status: 'added', changedProperties: null, typeOnly: headEntity.typeOnly });
+      continue;
+    }
+
+    // Type declarations, or code whose JavaScript is unchanged
+    const typeOnly = (baseEntity.typeOnly && headEntity.typeOnly) || baseEntity.runtimeSignature === headEntity.runtimeSignature;
+
+    const usedChangedImports = [...new Set([...changedImportsOf(headEntity), ...changedImportsOf(baseEntity)])];
+    if (usedChangedImports.length > 0) {
+      changes.push({
+        fn: headEntity.fn,
+        status: 'modified',
+        changedProperties: null,
+        typeOnly: typeOnly || usedChangedImports.every(isTypeOnlyImport),
+      });
+      continue;
+    }
+
+    if (baseEntity.signature !== headEntity.signature) {
+      changes.push({ fn: headEntity.fn, status: 'modified', changedProperties: null, typeOnly });
+      continue;
+    }
+
+    // Same declaration around an object literal: compare property by property
+    if (baseEntity.properties || headEntity.properties) {
+      if (!baseEntity.properties || !headEntity.properties) {
+        changes.push({ fn: headEntity.fn, status: 'modified', changedProperties: null, typeOnly });
+        continue;
+      }
+      const changedProperties = changedPropertyNames(baseEntity.properties, headEntity.properties);
+      if (changedProperties.length > 0) {
+        changes.push({ fn: headEntity.fn, status: 'modified', changedProperties, typeOnly });
+        continue;
+      }
+    }
+
+    changes.push({ fn: headEntity.fn, status: 'unchanged', changedProperties: null, typeOnly: false });
+  }
+
+  for (const [key, baseEntity] of base.entities) {
+    if (!head.entities.has(key)) {
+      changes.push({ fn: baseEntity.fn, status: 'deleted', changedProperties: null, typeOnly: baseEntity.typeOnly });
+    }
+  }
+
+  return changes;
+}
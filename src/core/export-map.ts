@@ -0,0 +1,505 @@
+/**
+ * Export map module.
+ *
+ * This module maps the names exported by each file of the project to the
+ * declarations they stand for, following chains of re-exports through
+ * barrel files: 'export * from', 'export { x as y } from', 'export * as ns
+ * from', 'import { x } from ...; export { x as y }', and their CommonJS
+ * forms ('exports.group = require(...)', 'module.exports = { x }'). A name
+ * exported three levels up (e.g., "src/exports/index.ts" -> "game/index.ts"
+ * -> "game.ts") resolves to the entity declared in "game.ts", under the
+ * name it is declared with.
+ *
+ * @module core/export-map
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import { getDeclarationName, DEFAULT_EXPORT_ENTITY } from './find-top-functions';
+import { getAliasResolver } from './module-resolver';
+import { readSourceFile, resolveSourceFile } from '../utils/source-files';
+
+/**
+ * The declaration an exported name stands for.
+ */
+export interface ExportOrigin {
+  /** Absolute path of the declaring file (or of the module exported as a namespace). */
+  path: string;
+  /**
+   * Name of the entity in the declaring file ("default" for an anonymous
+   * default export), or null for a whole module exported as a namespace
+   * ('export * as ns from', 'exports.group = require(...)').
+   */
+  name: string | null;
+}
+
+/**
+ * A name bound by an import, before resolution.
+ */
+export interface ImportedBinding {
+  /** The module specifier. */
+  specifier: string;
+  /** The imported name, or null for the whole module ('import * as ns', 'const ns = require()'). */
+  name: string | null;
+}
+
+/**
+ * The exports of a file as written, before re-export chains are followed.
+ */
+export interface FileExports {
+  /** Local names bound by imports and require() calls. */
+  imports: Map<string, ImportedBinding>;
+  /** Exported names and the local name (or imported binding) they export. */
+  named: Map<string, { local: string } | ImportedBinding>;
+  /** Module specifiers of 'export * from' (and 'module.exports = require()'). */
+  wildcards: string[];
+}
+
+/**
+ * Reads and parses the exports of a file from disk.
+ *
+ * @param filePath Absolute path of the file.
+ * @returns The exports as written, or undefined if the file cannot be read.
+ */
+function readExportsFromDisk(filePath: string): FileExports | undefined {
+  const sourceFile = readSourceFile(filePath);
+  return sourceFile ? parseFileExports(sourceFile) : undefined;
+}
+
+/**
+ * Checks if a node has the 'export' modifier.
+ *
+ * @param node The declaration.
+ * @returns True for 'export ...' and 'export default ...'.
+ */
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Gets the module specifier of a 'require("...")' call.
+ *
+ * @param expression The expression.
+ * @returns The specifier, or undefined if the expression is not a require() call.
+ */
+function getRequireSpecifier(expression: ts.Expression): string | undefined {
+  if (ts.isCallExpression(expression) && ts.isIdentifier(expression.expression) && expression.expression.text === 'require') {
+    const arg = expression.arguments[0];
+    return arg && ts.isStringLiteral(arg) ? arg.text : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Gets the 'exports.X' or 'module.exports.X' target of an assignment.
+ *
+ * @param left The left-hand side of the assignment.
+ * @returns The exported name, or undefined.
+ */
+function getCommonJsExportName(left: ts.Expression): string | undefined {
+  if (!ts.isPropertyAccessExpression(left)) {
+    return undefined;
+  }
+  const target = left.expression;
+  const isExports = ts.isIdentifier(target) && target.text === 'exports';
+  const isModuleExports = ts.isPropertyAccessExpression(target) && ts.isIdentifier(target.expression) &&
+    target.expression.text === 'module' && target.name.text === 'exports';
+  return isExports || isModuleExports ? left.name.text : undefined;
+}
+
+/**
+ * Parses the imports and exports of a file as written.
+ *
+ * @param sourceFile The parsed file.
+ * @returns The imports, named exports and wildcard re-exports.
+ */
+export function parseFileExports(sourceFile: ts.SourceFile): FileExports {
+  const fileExports: FileExports = { imports: new Map(), named: new Map(), wildcards: [] };
+  const { imports, named, wildcards } = fileExports;
+
+  // An exported local name: the declaration itself, or the import it re-exports
+  const exportLocal = (exportedName: string, localName: string) => {
+    named.set(exportedName, { local: localName });
+  };
+
+  for (const statement of sourceFile.statements) {
+    // import a, { b as c } from './x' / import * as ns from './x'
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (clause?.name) {
+        imports.set(clause.name.text, { specifier, name: DEFAULT_EXPORT_ENTITY });
+      }
+      const namedBindings = clause?.namedBindings;
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        imports.set(namedBindings.name.text, { specifier, name: null });
+      } else if (namedBindings) {
+        for (const element of namedBindings.elements) {
+          imports.set(element.name.text, { specifier, name: (element.propertyName ?? element.name).text });
+        }
+      }
+    }
+
+    // import ns = require('./x')
+    else if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference) &&
+        ts.isStringLiteral(statement.moduleReference.expression)) {
+      imports.set(statement.name.text, { specifier: statement.moduleReference.expression.text, name: null });
+      if (hasExportModifier(statement)) {
+        exportLocal(statement.name.text, statement.name.text);
+      }
+    }
+
+    // export * from './x' / export * as ns from './x' / export { a as b } from './x' / export { a as b }
+    else if (ts.isExportDeclaration(statement)) {
+      const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined;
+      const clause = statement.exportClause;
+      if (!clause) {
+        if (specifier !== undefined) wildcards.push(specifier);
+      } else if (ts.isNamespaceExport(clause)) {
+        if (specifier !== undefined) named.set(clause.name.text, { specifier, name: null });
+      } else {
+        for (const element of clause.elements) {
+          // The name in the module it comes from is the property name ('a' in 'export { a as b }')
+          const sourceName = (element.propertyName ?? element.name).text;
+          if (specifier !== undefined) {
+            named.set(element.name.text, { specifier, name: sourceName });
+          } else {
+            exportLocal(element.name.text, sourceName);
+          }
+        }
+      }
+    }
+
+    // export default greet / export default onCall(...)
+    else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) {
+        exportLocal(DEFAULT_EXPORT_ENTITY, statement.expression.text);
+      } else {
+        exportLocal(DEFAULT_EXPORT_ENTITY, DEFAULT_EXPORT_ENTITY);
+      }
+    }
+
+    // export function f() {} / export default function greet() {} / export class C {}
+    else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && hasExportModifier(statement)) {
+      const name = getDeclarationName(statement);
+      const isDefault = (ts.getModifiers(statement) ?? []).some(m => m.kind === ts.SyntaxKind.DefaultKeyword);
+      if (name !== undefined) {
+        exportLocal(isDefault ? DEFAULT_EXPORT_ENTITY : name, name);
+      }
+    }
+
+    // export interface I {} / export type T = ... / export enum E {} / export namespace N {}
+    else if ((ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) ||
+        (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name))) && hasExportModifier(statement)) {
+      exportLocal(statement.name.text, statement.name.text);
+    }
+
+    // const a = require('./x') / const { b: c } = require('./x') / export const d = ...
+    else if (ts.isVariableStatement(statement)) {
+      const isExported = hasExportModifier(statement);
+      for (const declaration of statement.declarationList.declarations) {
+        const specifier = declaration.initializer ? getRequireSpecifier(declaration.initializer) : undefined;
+        if (ts.isIdentifier(declaration.name)) {
+          if (specifier !== undefined) imports.set(declaration.name.text, { specifier, name: null });
+          if (isExported) exportLocal(declaration.name.text, declaration.name.text);
+          continue;
+        }
+        for (const element of declaration.name.elements) {
+          if (!ts.isBindingElement(element) || !ts.isIdentifier(element.name)) continue;
+          const propertyName = element.propertyName ?? element.name;
+          if (specifier !== undefined && ts.isIdentifier(propertyName)) {
+            imports.set(element.name.text, { specifier, name: propertyName.text });
+          }
+          if (isExported) exportLocal(element.name.text, element.name.text);
+        }
+      }
+    }
+
+    // exports.group = require('./x') / exports.x = x / module.exports = { a, b: c } / module.exports = require('./x')
+    else if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression) &&
+        statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const { left, right } = statement.expression;
+      const exportedName = getCommonJsExportName(left);
+      const specifier = getRequireSpecifier(right);
+
+      if (exportedName !== undefined) {
+        if (specifier !== undefined) {
+          named.set(exportedName, { specifier, name: null });
+        } else {
+          exportLocal(exportedName, ts.isIdentifier(right) ? right.text : exportedName);
+        }
+      } else if (ts.isPropertyAccessExpression(left) && ts.isIdentifier(left.expression) &&
+          left.expression.text === 'module' && left.name.text === 'exports') {
+        if (specifier !== undefined) {
+          wildcards.push(specifier);
+        } else if (ts.isObjectLiteralExpression(right)) {
+          for (const property of right.properties) {
+            if (ts.isShorthandPropertyAssignment(property)) {
+              exportLocal(property.name.text, property.name.text);
+            } else if ((ts.isPropertyAssignment(property) || ts.isMethodDeclaration(property)) &&
+                (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+              const value = ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer) ? property.initializer.text : undefined;
+              exportLocal(property.name.text, value ?? property.name.text);
+            }
+          }
+        } else {
+          exportLocal(DEFAULT_EXPORT_ENTITY, ts.isIdentifier(right) ? right.text : DEFAULT_EXPORT_ENTITY);
+        }
+      }
+    }
+  }
+
+  return fileExports;
+}
+
+/**
+ * Checks whether an export path (see ExportMap.findExportPaths) is the entry
+ * file's own default export, which is not deployed as a function.
+ *
+ * @param exportPath The exported name path (e.g., ["default"]).
+ * @returns True if the path is ["default"].
+ */
+export function isUnnamedDefaultExport(exportPath: string[]): boolean {
+  return exportPath.length === 1 && exportPath[0] === DEFAULT_EXPORT_ENTITY;
+}
+
+/**
+ * Resolved exports of the files of a project, computed on demand.
+ *
+ * @class ExportMap
+ */
+export class ExportMap {
+  /** The absolute path to the project root (for tsconfig path aliases). */
+  private projectRoot: string;
+  /** Gets the exports of a file as written. */
+  private readExports: (filePath: string) => FileExports | undefined;
+  /** Parsed exports as written, keyed by absolute path (undefined for missing files). */
+  private parsed: Map<string, FileExports | undefined> = new Map();
+  /** Resolved exports keyed by absolute path, then by exported name. */
+  private resolved: Map<string, Map<string, ExportOrigin>> = new Map();
+  /** Files whose exports are being resolved (re-export cycles). */
+  private resolving: Set<string> = new Set();
+
+  /**
+   * Creates the export map of a project.
+   *
+   * @param projectRoot The absolute path to the project root.
+   * @param readExports Gets the exports of a file as written, or undefined if it does not
+   *                    exist (defaults to parsing it from the file system); can be replaced
+   *                    to share the files analyzed by the project model, or to resolve the
+   *                    exports of the files at a git revision.
+   */
+  constructor(projectRoot: string, readExports: (filePath: string) => FileExports | undefined = readExportsFromDisk) {
+    this.projectRoot = projectRoot;
+    this.readExports = readExports;
+  }
+
+  /**
+   * Gets the exports of a file as written, using a cache.
+   *
+   * @param filePath Absolute path of the file.
+   * @returns The parsed exports, or undefined if the file does not exist.
+   */
+  private findParsedExports(filePath: string): FileExports | undefined {
+    if (!this.parsed.has(filePath)) {
+      this.parsed.set(filePath, this.readExports(filePath));
+    }
+    return this.parsed.get(filePath);
+  }
+
+  /**
+   * Gets the exports of a file as written.
+   *
+   * @param filePath Absolute path of the file.
+   * @returns The parsed exports (empty if the file cannot be read).
+   */
+  private getParsedExports(filePath: string): FileExports {
+    return this.findParsedExports(filePath) ?? { imports: new Map(), named: new Map(), wildcards: [] };
+  }
+
+  /**
+   * Resolves a module specifier of a file to a project file.
+   *
+   * @param specifier The module specifier.
+   * @param containingFile Absolute path of the importing file.
+   * @returns The absolute path of the imported file, or null for npm packages and missing files.
+   */
+  public resolveModule(specifier: string, containingFile: string): string | null {
+    if (specifier.startsWith('.')) {
+      return resolveSourceFile(path.resolve(path.dirname(containingFile), specifier),
+        filePath => this.findParsedExports(filePath) !== undefined);
+    }
+    const resolveAlias = getAliasResolver(this.projectRoot);
+    return resolveAlias ? resolveAlias(specifier, containingFile) : null;
+  }
+
+  /**
+   * Resolves an imported binding to the declaration it stands for.
+   *
+   * @param binding The imported binding.
+   * @param containingFile Absolute path of the importing file.
+   * @returns The origin, or null if the module is not part of the project.
+   */
+  private resolveBinding(binding: ImportedBinding, containingFile: string): ExportOrigin | null {
+    const modulePath = this.resolveModule(binding.specifier, containingFile);
+    if (modulePath === null) {
+      return null;
+    }
+    if (binding.name === null) {
+      return { path: modulePath, name: null };
+    }
+    // Names the exporting file does not list explicitly (e.g., unparsed CommonJS forms) are taken as declared there
+    return this.getExports(modulePath).get(binding.name) ?? { path: modulePath, name: binding.name };
+  }
+
+  /**
+   * Resolves a local name of a file: an imported binding is followed to its
+   * declaration, any other name is declared in the file.
+   *
+   * @param filePath Absolute path of the file.
+   * @param localName The local name.
+   * @returns The origin, or null if the name is imported from an npm package.
+   */
+  public resolveLocalName(filePath: string, localName: string): ExportOrigin | null {
+    const binding = this.getParsedExports(filePath).imports.get(localName);
+    return binding ? this.resolveBinding(binding, filePath) : { path: filePath, name: localName };
+  }
+
+  /**
+   * Gets the exports of a file, each resolved to the declaration it stands for.
+   * Wildcard re-exports ('export * from') do not include default exports,
+   * and names exported explicitly take precedence over them.
+   *
+   * @param filePath Absolute path of the file.
+   * @returns The origins keyed by exported name.
+   */
+  public getExports(filePath: string): Map<string, ExportOrigin> {
+    const cached = this.resolved.get(filePath);
+    if (cached) {
+      return cached;
+    }
+    // Re-export cycle: the names of the file are still being resolved
+    if (this.resolving.has(filePath)) {
+      return new Map();
+    }
+    this.resolving.add(filePath);
+
+    const fileExports = this.getParsedExports(filePath);
+    const exports = new Map<string, ExportOrigin>();
+
+    for (const [exportedName, target] of fileExports.named) {
+      const origin = 'local' in target
+        ? this.resolveLocalName(filePath, target.local)
+        : this.resolveBinding(target, filePath);
+      if (origin) {
+        exports.set(exportedName, origin);
+      }
+    }
+
+    for (const specifier of fileExports.wildcards) {
+      const modulePath = this.resolveModule(specifier, filePath);
+      if (modulePath === null) continue;
+      for (const [exportedName, origin] of this.getExports(modulePath)) {
+        if (exportedName !== DEFAULT_EXPORT_ENTITY && !exports.has(exportedName)) {
+          exports.set(exportedName, origin);
+        }
+      }
+    }
+
+    this.resolving.delete(filePath);
+    this.resolved.set(filePath, exports);
+    return exports;
+  }
+
+  /**
+   * Finds the names a file exports an entity under.
+   *
+   * @param filePath Absolute path of the exporting file.
+   * @param origin The entity.
+   * @returns The exported names (e.g., ["fetchGame"] for 'export { getGame as fetchGame } from').
+   */
+  public findExportedNames(filePath: string, origin: ExportOrigin): string[] {
+    const names: string[] = [];
+    for (const [exportedName, exported] of this.getExports(filePath)) {
+      if (exported.path === origin.path && exported.name === origin.name) {
+        names.push(exportedName);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Finds the local names a file binds to an entity through its imports
+   * ('import { getGame as fetchGame } from "./exports"', 'const { getGame } = require()'),
+   * following the re-exports of the imported files.
+   *
+   * @param filePath Absolute path of the importing file.
+   * @param origin The entity.
+   * @returns The local names.
+   */
+  public findImportedNames(filePath: string, origin: ExportOrigin): string[] {
+    const names: string[] = [];
+    for (const [localName, binding] of this.getParsedExports(filePath).imports) {
+      if (binding.name === null) continue;
+      const resolved = this.resolveBinding(binding, filePath);
+      if (resolved && resolved.path === origin.path && resolved.name === origin.name) {
+        names.push(localName);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Finds the namespaces a file imports an entity through ('import * as U
+   * from "./utils"', 'const U = require("./utils")'), with the names the
+   * imported module exports it under.
+   *
+   * @param filePath Absolute path of the importing file.
+   * @param origin The entity.
+   * @returns The exported names (e.g., ["CONFIG"] for 'U.CONFIG'), keyed by local namespace name.
+   */
+  public findNamespaceImports(filePath: string, origin: ExportOrigin): Map<string, string[]> {
+    const namespaces = new Map<string, string[]>();
+    for (const [localName, binding] of this.getParsedExports(filePath).imports) {
+      if (binding.name !== null) continue;
+      const modulePath = this.resolveModule(binding.specifier, filePath);
+      const exportedNames = modulePath === null ? [] : this.findExportedNames(modulePath, origin);
+      if (exportedNames.length > 0) {
+        namespaces.set(localName, exportedNames);
+      }
+    }
+    return namespaces;
+  }
+
+  /**
+   * Finds the exported name paths under which an entry file exposes an
+   * entity, descending into the modules it exports as namespaces
+   * ('exports.gf = require("./exports/game")' gives ["gf", "getGame"]).
+   *
+   * @param entryFile Absolute path of the entry file (e.g., "src/index.ts").
+   * @param origin The entity.
+   * @returns The name paths, shortest first (empty if the entity is not exported).
+   */
+  public findExportPaths(entryFile: string, origin: ExportOrigin): string[][] {
+    const paths: string[][] = [];
+    // The same module may be exported under several groups; 'files' guards against cycles
+    const queue: { filePath: string; prefix: string[]; files: string[] }[] = [{ filePath: entryFile, prefix: [], files: [entryFile] }];
+
+    while (queue.length > 0) {
+      const { filePath, prefix, files } = queue.shift() as { filePath: string; prefix: string[]; files: string[] };
+      for (const [exportedName, exported] of this.getExports(filePath)) {
+        if (exported.name === null) {
+          if (!files.includes(exported.path)) {
+            queue.push({ filePath: exported.path, prefix: [...prefix, exportedName], files: [...files, exported.path] });
+          }
+        } else if (exported.path === origin.path && exported.name === origin.name) {
+          paths.push([...prefix, exportedName]);
+        }
+      }
+    }
+
+    return paths;
+  }
+}
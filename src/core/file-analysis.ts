@@ -0,0 +1,81 @@
+/**
+ * File analysis module.
+ *
+ * This module extracts, in one pass over a parsed file, everything the project
+ * model needs from it: top-level entities, import specifiers, endpoint info,
+ * exports as written and class declarations. The result depends only on the
+ * path and content of the file, so it can be cached on disk (see core/analysis-cache).
+ *
+ * @module core/file-analysis
+ */
+
+import ts from 'typescript';
+import { ClassDeclarationInfo, ClassHierarchy } from './class-hierarchy';
+import { FileExports, parseFileExports } from './export-map';
+import { findImportSpecifiers, findSideEffectImportSpecifiers } from './find-includes';
+import { getEntityBlock, MODULE_INIT_ENTITY, sourceFileTopFunctions } from './find-top-functions';
+import { EndpointInfo, getEndpointInfo } from './firebase-helpers';
+import { TopLevelEntity } from './types';
+import { parseSourceFile } from '../utils/source-files';
+
+/**
+ * The parse results of a single source file.
+ */
+export interface FileAnalysis {
+  /** Top-level entities, sorted by start position (see core/find-top-functions). */
+  entities: TopLevelEntity[];
+  /** Module specifiers of the file's imports, requires and re-exports. */
+  imports: string[];
+  /** Module specifiers the file imports for side effects only ("import './init'"). */
+  sideEffectImports: string[];
+  /** Endpoint info of the entities that are endpoints, keyed by entity name. */
+  endpoints: Map<string, EndpointInfo>;
+  /** Exports of the file as written (see core/export-map). */
+  exports: FileExports;
+  /** Top-level class and interface declarations (see core/class-hierarchy). */
+  classes: ClassDeclarationInfo[];
+}
+
+/**
+ * Analyzes a parsed source file.
+ *
+ * @param filePath Absolute path of the file.
+ * @param sourceFile The parsed file (with parent nodes set).
+ * @returns The file's parse results.
+ */
+export function analyzeSourceFile(filePath: string, sourceFile: ts.SourceFile): FileAnalysis {
+  const entities = sourceFileTopFunctions(filePath, sourceFile).funcs;
+
+  const endpoints = new Map<string, EndpointInfo>();
+  for (const entity of entities) {
+    if (entity.fn === MODULE_INIT_ENTITY) continue;
+    const endpointInfo = getEndpointInfo(getEntityBlock(sourceFile.text, entities, entity));
+    if (endpointInfo.isEndpoint) {
+      endpoints.set(entity.fn, endpointInfo);
+    }
+  }
+
+  return {
+    entities,
+    imports: findImportSpecifiers(sourceFile),
+    sideEffectImports: findSideEffectImportSpecifiers(sourceFile),
+    endpoints,
+    exports: parseFileExports(sourceFile),
+    classes: ClassHierarchy.findDeclarations(filePath, sourceFile),
+  };
+}
+
+/**
+ * Parses and analyzes the content of a source file.
+ *
+ * @param filePath Absolute path of the file.
+ * @param content The file content.
+ * @returns The file's parse results, or undefined if it cannot be parsed.
+ */
+export function analyzeFileContent(filePath: string, content: string): FileAnalysis | undefined {
+  try {
+    return analyzeSourceFile(filePath, parseSourceFile(filePath, content));
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -2,8 +2,10 @@
  * Import dependency finder module.
  * 
  * This module provides functionality to find all source files that import
- * or re-export a specific target file, supporting ES6 imports, CommonJS require,
- * dynamic imports, and re-exports (export * from, export { } from).
+ * or re-export a specific target file or npm package, supporting ES6 imports,
+ * CommonJS require, dynamic imports, and re-exports (export * from, export { } from).
+ * Non-relative specifiers are resolved through tsconfig 'paths' and 'baseUrl'
+ * (see core/module-resolver).
  * 
  * @module core/find-includes
  */
@@ -11,26 +13,142 @@
 import fs from 'fs';
 import path from 'path';
 import ts from 'typescript';
+import { getAliasResolver } from './module-resolver';
+import { removeSourceExtension } from '../utils/source-files';
 
 /**
- * Finds all source files that import or re-export a specific target file.
- * This function operates *entirely* on paths relative to the projectRoot,
- * avoiding absolute path comparison issues by normalizing all paths
- * before comparison.
+ * Gets the module specifier of an import-like node: ES6 static imports,
+ * CommonJS require, dynamic imports and re-exports (export * from, export { } from).
+ *
+ * @param node The AST node to check.
+ * @returns The module specifier (e.g., "./utils/db" or "lodash"), or undefined.
+ */
+export function getImportSpecifier(node: ts.Node): string | undefined {
+  let importString: string | undefined = undefined;
+
+  // Case 1: ES6 Static Import
+  if (ts.isImportDeclaration(node)) {
+    importString = (node.moduleSpecifier as ts.StringLiteral).text;
+  }
+  // Case 2: CommonJS Require
+  if (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === 'require'
+  ) {
+    const arg = node.arguments[0];
+    if (arg && ts.isStringLiteral(arg)) {
+      importString = arg.text;
+    }
+  }
+  // Case 3: ES6 Dynamic Import
+  if (
+    ts.isCallExpression(node) &&
+    node.expression.kind === ts.SyntaxKind.ImportKeyword
+  ) {
+    const arg = node.arguments[0];
+    if (arg && ts.isStringLiteral(arg)) {
+      importString = arg.text;
+    }
+  }
+  // Case 4: Re-export (export * from './path')
+  if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+    if (ts.isStringLiteral(node.moduleSpecifier)) {
+      importString = node.moduleSpecifier.text;
+    }
+  }
+  // Case 5: Named re-export (export { name } from './path')
+  if (
+    ts.isExportDeclaration(node) &&
+    node.exportClause &&
+    ts.isNamedExports(node.exportClause) &&
+    node.moduleSpecifier
+  ) {
+    if (ts.isStringLiteral(node.moduleSpecifier)) {
+      importString = node.moduleSpecifier.text;
+    }
+  }
+
+  return importString;
+}
+
+/**
+ * Collects the module specifiers of every import-like node of a file
+ * (see getImportSpecifier), nested ones (e.g., a 'require' in a function) included.
+ *
+ * @param sourceFile The parsed file.
+ * @returns The module specifiers, without duplicates.
+ */
+export function findImportSpecifiers(sourceFile: ts.SourceFile): string[] {
+  const specifiers = new Set<string>();
+
+  function searchNode(node: ts.Node) {
+    const importString = getImportSpecifier(node);
+    if (importString) {
+      specifiers.add(importString);
+    }
+    ts.forEachChild(node, searchNode);
+  }
+
+  searchNode(sourceFile);
+  return Array.from(specifiers);
+}
+
+/**
+ * Finds the module specifiers a source file imports for side effects only:
+ * top-level imports without bindings ("import './init'") and require() calls
+ * whose result is not used ("require('./init')").
+ *
+ * @param sourceFile The parsed source file.
+ * @returns The module specifiers (e.g., "./init"), without duplicates.
+ */
+export function findSideEffectImportSpecifiers(sourceFile: ts.SourceFile): string[] {
+  const specifiers = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && !statement.importClause && ts.isStringLiteral(statement.moduleSpecifier)) {
+      specifiers.add(statement.moduleSpecifier.text);
+    } else if (ts.isExpressionStatement(statement) && ts.isCallExpression(statement.expression)) {
+      const importString = getImportSpecifier(statement.expression);
+      if (importString) {
+        specifiers.add(importString);
+      }
+    }
+  }
+
+  return Array.from(specifiers);
+}
+
+/**
+ * Removes the source extension of a resolved file path or module specifier
+ * (e.g., "src/db/user.ts" -> "src/db/user", or "./db/user.js" -> "./db/user",
+ * which TypeScript resolves to "user.ts" as well).
+ *
+ * @param filePath The file path.
+ * @returns The path without extension.
+ */
+export function removeModuleExtension(filePath: string): string {
+  return removeSourceExtension(filePath);
+}
+
+/**
+ * Checks whether a module specifier refers to a target file.
+ *
+ * @param specifier The module specifier (e.g., "./db/user", "./db/user.js" or "@/db/user").
+ * @param absoluteFile The *absolute* path of the file containing the specifier.
+ * @returns True if the specifier resolves to the target file.
+ */
+type TargetMatcher = (specifier: string, absoluteFile: string) => boolean;
+
+/**
+ * Creates a matcher for the module specifiers of a target file. Paths are
+ * compared relative to the project root, after normalization.
  *
  * @param targetFileRelativePath The path to the target file, *relative* to the project root.
  * @param projectRoot The *absolute* path to the project root.
- * @param allSourceFiles An array of *absolute* paths to all .ts files to search through.
- * @returns An array of *absolute* file paths (string[]) that import or re-export the target file.
+ * @returns The matcher.
  */
-export function findFilesImportingTarget(
-  targetFileRelativePath: string,
-  projectRoot: string,
-  allSourceFiles: string[]
-): string[] {
-  
-  const affectedFiles: string[] = [];
-
+function createTargetMatcher(targetFileRelativePath: string, projectRoot: string): TargetMatcher {
   // 1. Create the set of valid *NORMALIZED RELATIVE* paths to match.
   const validTargetPaths = new Set<string>();
   
@@ -44,13 +162,61 @@ export function findFilesImportingTarget(
   const explicitPath = path.normalize(path.join(targetDir, targetName)).replace(/\\/g, '/');
   validTargetPaths.add(explicitPath);
 
-  // Path 2: "src/exports" (implicit 'index.ts' import)
+  // Path 2: "src/exports" (implicit 'index.ts' or 'index.js' import)
   if (targetName === 'index') {
     validTargetPaths.add(path.normalize(targetDir).replace(/\\/g, '/'));
   }
 
-  // --- Analysis Starts Here ---
   const absoluteTarget = path.join(projectRoot, normalizedTargetRelativePath);
+  const resolveAlias = getAliasResolver(projectRoot);
+
+  return (importString, absoluteFile) => {
+    const fileRelativeDir = path.dirname(path.relative(projectRoot, absoluteFile));
+
+    // "./user", "./user.js" (ESM style) and "./user.ts" all import "user.ts"
+    const resolvedRelativePath = removeModuleExtension(path.normalize(path.join(fileRelativeDir, importString))
+                                     .replace(/\\/g, '/'));
+
+    // Compare (Normalized vs Normalized)
+    if (validTargetPaths.has(resolvedRelativePath)) {
+      return true;
+    }
+
+    // Aliased import (e.g., "@/services/user"): compare the file it resolves to
+    const aliasedPath = resolveAlias ? resolveAlias(importString, absoluteFile, absoluteTarget) : null;
+    if (aliasedPath) {
+      const aliasedRelativePath = path.relative(projectRoot, removeModuleExtension(aliasedPath)).replace(/\\/g, '/');
+      return aliasedRelativePath === explicitPath;
+    }
+    return false;
+  };
+}
+
+/**
+ * Finds all source files that import or re-export a specific target file.
+ * This function operates *entirely* on paths relative to the projectRoot,
+ * avoiding absolute path comparison issues by normalizing all paths
+ * before comparison.
+ *
+ * @param targetFileRelativePath The path to the target file, *relative* to the project root.
+ * @param projectRoot The *absolute* path to the project root.
+ * @param allSourceFiles An array of *absolute* paths to all source files to search through.
+ * @param readFile Reads the content of a file. Defaults to reading from disk; can be
+ *                 replaced to search files as they exist at a git revision.
+ * @returns An array of *absolute* file paths (string[]) that import or re-export the target file.
+ */
+export function findFilesImportingTarget(
+  targetFileRelativePath: string,
+  projectRoot: string,
+  allSourceFiles: string[],
+  readFile: (filePath: string) => string = (filePath) => fs.readFileSync(filePath, 'utf8')
+): string[] {
+  
+  const affectedFiles: string[] = [];
+
+  // --- Analysis Starts Here ---
+  const absoluteTarget = path.join(projectRoot, path.normalize(targetFileRelativePath));
+  const importsTarget = createTargetMatcher(targetFileRelativePath, projectRoot);
 
   for (const absoluteFileToAnalyze of allSourceFiles) {
     if (absoluteFileToAnalyze === absoluteTarget) {
@@ -59,7 +225,7 @@ export function findFilesImportingTarget(
 
     let sourceFile: ts.SourceFile;
     try {
-      const content = fs.readFileSync(absoluteFileToAnalyze, 'utf8');
+      const content = readFile(absoluteFileToAnalyze);
       sourceFile = ts.createSourceFile(
         absoluteFileToAnalyze,
         content,
@@ -71,80 +237,169 @@ export function findFilesImportingTarget(
     }
 
     let fileImportsTarget = false;
-    
-    const fileRelativePath = path.relative(projectRoot, absoluteFileToAnalyze);
-    const fileRelativeDir = path.dirname(fileRelativePath);
 
     function searchNode(node: ts.Node) {
       if (fileImportsTarget) return;
 
-      let importString: string | undefined = undefined;
+      const importString = getImportSpecifier(node);
 
-      // Case 1: ES6 Static Import
-      if (ts.isImportDeclaration(node)) {
-        importString = (node.moduleSpecifier as ts.StringLiteral).text;
+      if (importString && importsTarget(importString, absoluteFileToAnalyze)) {
+        fileImportsTarget = true;
       }
-      // Case 2: CommonJS Require
-      if (
-        ts.isCallExpression(node) &&
-        ts.isIdentifier(node.expression) &&
-        node.expression.text === 'require'
-      ) {
-        const arg = node.arguments[0];
-        if (arg && ts.isStringLiteral(arg)) {
-          importString = arg.text;
-        }
-      }
-      // Case 3: ES6 Dynamic Import
-      if (
-        ts.isCallExpression(node) &&
-        node.expression.kind === ts.SyntaxKind.ImportKeyword
-      ) {
-        const arg = node.arguments[0];
-        if (arg && ts.isStringLiteral(arg)) {
-          importString = arg.text;
-        }
+
+      if (!fileImportsTarget) {
+        ts.forEachChild(node, searchNode);
       }
-      // Case 4: Re-export (export * from './path')
-      if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
-        if (ts.isStringLiteral(node.moduleSpecifier)) {
-          importString = node.moduleSpecifier.text;
+    }
+
+    searchNode(sourceFile);
+
+    if (fileImportsTarget) {
+      affectedFiles.push(absoluteFileToAnalyze);
+    }
+  }
+
+  return [...new Set(affectedFiles)];
+}
+
+/**
+ * Describes how a source file imports an npm package.
+ */
+export interface PackageImportInfo {
+  /** The absolute path of the importing file. */
+  path: string;
+  /** Local names bound to the package (e.g., "get" for `import { get } from 'lodash'`). */
+  bindings: string[];
+  /**
+   * True if the package is also imported without a local binding
+   * (side-effect import, bare require, dynamic import or re-export),
+   * so usage cannot be narrowed down to specific names.
+   */
+  unbound: boolean;
+}
+
+/**
+ * Checks whether a module specifier refers to a package or one of its subpaths
+ * (e.g., "lodash" or "lodash/fp" for package "lodash").
+ *
+ * @param specifier The module specifier.
+ * @param packageName The npm package name.
+ * @returns True if the specifier refers to the package.
+ */
+function isPackageSpecifier(specifier: string, packageName: string): boolean {
+  return specifier === packageName || specifier.startsWith(`${packageName}/`);
+}
+
+/**
+ * Collects the local names bound by an import of a package.
+ *
+ * @param node The import-like node (from getImportSpecifier).
+ * @returns The bound names, or null if the import binds nothing.
+ */
+function getImportBindings(node: ts.Node): string[] | null {
+  const names: string[] = [];
+
+  // import x, { a, b as c } from 'pkg' / import * as ns from 'pkg'
+  if (ts.isImportDeclaration(node)) {
+    const clause = node.importClause;
+    if (!clause) return null;
+    if (clause.name) {
+      names.push(clause.name.text);
+    }
+    if (clause.namedBindings) {
+      if (ts.isNamespaceImport(clause.namedBindings)) {
+        names.push(clause.namedBindings.name.text);
+      } else {
+        for (const element of clause.namedBindings.elements) {
+          names.push(element.name.text);
         }
       }
-      // Case 5: Named re-export (export { name } from './path')
-      if (
-        ts.isExportDeclaration(node) &&
-        node.exportClause &&
-        ts.isNamedExports(node.exportClause) &&
-        node.moduleSpecifier
-      ) {
-        if (ts.isStringLiteral(node.moduleSpecifier)) {
-          importString = node.moduleSpecifier.text;
+    }
+    return names.length > 0 ? names : null;
+  }
+
+  // const x = require('pkg') / const { a, b: c } = require('pkg')
+  if (ts.isCallExpression(node) && node.parent && ts.isVariableDeclaration(node.parent)) {
+    const declarationName = node.parent.name;
+    if (ts.isIdentifier(declarationName)) {
+      names.push(declarationName.text);
+    } else if (ts.isObjectBindingPattern(declarationName)) {
+      for (const element of declarationName.elements) {
+        if (ts.isIdentifier(element.name)) {
+          names.push(element.name.text);
         }
       }
+    }
+    return names.length > 0 ? names : null;
+  }
 
-      if (importString) {
-        
-        const resolvedRelativePath = path.normalize(path.join(fileRelativeDir, importString))
-                                         .replace(/\\/g, '/');
+  return null;
+}
+
+/**
+ * Finds all source files that import a specific npm package (or one of its
+ * subpaths), using the same import detection as findFilesImportingTarget,
+ * and collects the local names bound to it.
+ *
+ * @param packageName The npm package name (e.g., "lodash" or "@google-cloud/storage").
+ * @param allSourceFiles An array of *absolute* paths to all source files to search through.
+ * @param readFile Reads the content of a file. Defaults to reading from disk.
+ * @returns Import information for each importing file.
+ */
+export function findFilesImportingPackage(
+  packageName: string,
+  allSourceFiles: string[],
+  readFile: (filePath: string) => string = (filePath) => fs.readFileSync(filePath, 'utf8')
+): PackageImportInfo[] {
+  const results: PackageImportInfo[] = [];
+
+  for (const absoluteFileToAnalyze of allSourceFiles) {
+    let sourceFile: ts.SourceFile;
+    try {
+      const content = readFile(absoluteFileToAnalyze);
+      // Quick check before parsing
+      if (!content.includes(packageName)) continue;
+      sourceFile = ts.createSourceFile(
+        absoluteFileToAnalyze,
+        content,
+        ts.ScriptTarget.ESNext,
+        true // setParentNodes = true (Required for require() bindings)
+      );
+    } catch (e: any) {
+      console.warn(`[FIRE-DIFF Warning] Could not read or parse file: ${absoluteFileToAnalyze}. Skipping.`);
+      continue;
+    }
+
+    const bindings = new Set<string>();
+    let importsPackage = false;
+    let unbound = false;
 
-        // Compare (Normalized vs Normalized)
-        if (validTargetPaths.has(resolvedRelativePath)) {
-          fileImportsTarget = true;
+    function searchNode(node: ts.Node) {
+      const importString = getImportSpecifier(node);
+
+      if (importString && isPackageSpecifier(importString, packageName)) {
+        importsPackage = true;
+        const names = getImportBindings(node);
+        if (names) {
+          names.forEach(name => bindings.add(name));
+        } else {
+          unbound = true;
         }
       }
 
-      if (!fileImportsTarget) {
-        ts.forEachChild(node, searchNode);
-      }
+      ts.forEachChild(node, searchNode);
     }
 
     searchNode(sourceFile);
 
-    if (fileImportsTarget) {
-      affectedFiles.push(absoluteFileToAnalyze);
+    if (importsPackage) {
+      results.push({
+        path: absoluteFileToAnalyze,
+        bindings: Array.from(bindings),
+        unbound,
+      });
     }
   }
 
-  return [...new Set(affectedFiles)];
-}
\ No newline at end of file
+  return results;
+}
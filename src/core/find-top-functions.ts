@@ -1,8 +1,11 @@
 /**
  * Top-level entity extractor module.
  * 
- * This module analyzes TypeScript files to extract all top-level entities
- * including functions, classes, interfaces, types, enums, and CommonJS exports.
+ * This module analyzes source files to extract all top-level entities
+ * including functions, classes, interfaces, types, enums, default exports,
+ * namespace members, and CommonJS exports.
+ * The remaining top-level statements (e.g., 'admin.initializeApp()') form a
+ * synthetic "module init" entity, run whenever the file is loaded.
  * 
  * @module core/find-top-functions
  */
@@ -10,147 +13,459 @@
 import fs from 'fs';
 import ts from 'typescript';
 import { FileFunctionsResult, TopLevelEntity } from './types';
+import { parseSourceFile } from '../utils/source-files';
 
 /**
- * Analyzes a single TypeScript file and returns a list of *all*
- * top-level (root-level) entities: functions, classes, interfaces,
- * types, enums, initialized variables, and CommonJS exports (exports.X).
+ * Name of the synthetic entity made of the top-level statements that are not
+ * part of any entity. A change to it affects every endpoint loading the file.
+ */
+export const MODULE_INIT_ENTITY = '(module init)';
+
+/**
+ * Name of the entity of an anonymous default export ('export default onCall(...)',
+ * 'export default function () {}', 'module.exports = ...').
+ */
+export const DEFAULT_EXPORT_ENTITY = 'default';
+
+/**
+ * An entity declared by a CommonJS export statement.
+ */
+export interface CommonJsExport {
+  /** The exported name (DEFAULT_EXPORT_ENTITY for 'module.exports = value'). */
+  name: string;
+  /** The node spanning the entity (the statement, or a property of 'module.exports = { ... }'). */
+  node: ts.Node;
+}
+
+/**
+ * Checks if an expression is 'module.exports'.
+ *
+ * @param expression The expression.
+ * @returns True for 'module.exports'.
+ */
+function isModuleExports(expression: ts.Expression): boolean {
+  return ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === 'module' &&
+    expression.name.text === 'exports';
+}
+
+/**
+ * Gets the entities of a CommonJS export statement: 'exports.x = ...',
+ * 'module.exports.x = ...', the properties of 'module.exports = { ... }'
+ * (shorthand properties refer to entities declared elsewhere), or the
+ * default export 'module.exports = value'.
+ *
+ * @param node The top-level statement.
+ * @returns The exported entities (possibly none), or null if the statement is not a CommonJS export.
+ */
+export function getCommonJsExports(node: ts.Node): CommonJsExport[] | null {
+  if (!ts.isExpressionStatement(node) ||
+      !ts.isBinaryExpression(node.expression) ||
+      node.expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken) {
+    return null;
+  }
+  const { left, right } = node.expression;
+
+  // exports.getGame = ... / module.exports.getGame = ...
+  if (ts.isPropertyAccessExpression(left) &&
+      ((ts.isIdentifier(left.expression) && left.expression.text === 'exports') || isModuleExports(left.expression))) {
+    return [{ name: left.name.text, node }];
+  }
+
+  if (!isModuleExports(left)) {
+    return null;
+  }
+
+  // module.exports = { getGame: ..., saveGame() { ... } }
+  if (ts.isObjectLiteralExpression(right)) {
+    const exported: CommonJsExport[] = [];
+    for (const property of right.properties) {
+      if (!ts.isPropertyAssignment(property) && !ts.isMethodDeclaration(property)) continue;
+      if (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) {
+        exported.push({ name: property.name.text, node: property });
+      }
+    }
+    return exported;
+  }
+
+  // module.exports = onCall(...)
+  return [{ name: DEFAULT_EXPORT_ENTITY, node }];
+}
+
+/**
+ * Gets the names bound by a variable declaration name, including the
+ * names of destructuring patterns ('const { a, b: [c] } = ...' binds a and c).
+ *
+ * @param name The declaration name.
+ * @returns The bound names.
+ */
+export function getBindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) {
+    return [name.text];
+  }
+  const names: string[] = [];
+  for (const element of name.elements) {
+    if (ts.isBindingElement(element)) {
+      names.push(...getBindingNames(element.name));
+    }
+  }
+  return names;
+}
+
+/**
+ * Gets the entity name of a function or class declaration: its name, or
+ * DEFAULT_EXPORT_ENTITY for an anonymous default export.
  *
- * @param filePath The absolute path to the .ts file to analyze.
+ * @param node The declaration.
+ * @returns The entity name, or undefined for an anonymous declaration that is not exported.
+ */
+export function getDeclarationName(node: ts.FunctionDeclaration | ts.ClassDeclaration): string | undefined {
+  if (node.name) {
+    return node.name.text;
+  }
+  const isDefaultExport = (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+  return isDefaultExport ? DEFAULT_EXPORT_ENTITY : undefined;
+}
+
+/**
+ * Gets the name of a class member that is an entity of its own: methods,
+ * properties, getters and setters with a plain name, and the constructor.
+ * Static blocks ('static { ... }') run when the class is defined, so they
+ * stay part of the class entity.
+ *
+ * @param member The class member.
+ * @returns The member name, or null if the member is part of the class entity.
+ */
+export function getMemberEntityName(member: ts.Node): string | null {
+  if (ts.isConstructorDeclaration(member)) {
+    return 'constructor';
+  }
+  const isNamedMember = ts.isMethodDeclaration(member) || ts.isPropertyDeclaration(member) ||
+    ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member);
+  return isNamedMember && ts.isIdentifier(member.name) ? member.name.text : null;
+}
+
+/**
+ * Gets the name and statements of a namespace ('namespace Utils { ... }',
+ * 'module Utils { ... }'); nested declarations ('namespace A.B { ... }')
+ * are combined into a dotted name. Module augmentations ('declare module "x"',
+ * 'declare global') are not namespaces.
+ *
+ * @param node The top-level statement.
+ * @returns The namespace name and body statements, or null if the statement is not a namespace.
+ */
+export function getNamespaceBody(node: ts.Node): { name: string; statements: readonly ts.Statement[] } | null {
+  if (!ts.isModuleDeclaration(node) || !ts.isIdentifier(node.name) || (node.flags & ts.NodeFlags.GlobalAugmentation) !== 0) {
+    return null;
+  }
+
+  let name = node.name.text;
+  let body = node.body;
+  while (body && ts.isModuleDeclaration(body)) {
+    name += `.${body.name.text}`;
+    body = body.body;
+  }
+  return { name, statements: body && ts.isModuleBlock(body) ? body.statements : [] };
+}
+
+/**
+ * Groups the overload signatures of functions and methods with their
+ * implementation ('function f(a: string): void; function f(a: number): void;
+ * function f(a: any) { ... }'), so each overloaded name is a single entity.
+ *
+ * @param nodes Sibling statements or class members.
+ * @returns The nodes of each group keyed by its first node; the other nodes of a group map to an empty array.
+ */
+export function findOverloadGroups(nodes: readonly ts.Node[]): Map<ts.Node, ts.Node[]> {
+  const getOverloadName = (node: ts.Node): string | undefined => {
+    if (ts.isFunctionDeclaration(node)) return getDeclarationName(node);
+    if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) return node.name.text;
+    return undefined;
+  };
+
+  const groups = new Map<ts.Node, ts.Node[]>();
+  let group: ts.Node[] = [];
+  let groupName: string | undefined;
+
+  for (const node of nodes) {
+    const name = getOverloadName(node);
+    const previous = group[group.length - 1];
+    const continuesGroup = previous !== undefined && name !== undefined && name === groupName &&
+      node.kind === previous.kind && !(previous as ts.FunctionLikeDeclaration).body;
+
+    if (continuesGroup) {
+      group.push(node);
+      groups.set(node, []);
+    } else {
+      group = name !== undefined ? [node] : [];
+      groupName = name;
+    }
+    const first = group[0];
+    if (first !== undefined && group.length > 1) {
+      groups.set(first, group);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Checks if a top-level statement declares at least one entity (see fileTopFunctions).
+ *
+ * @param node The top-level statement.
+ * @returns True if the statement is, or contains, a top-level entity.
+ */
+function declaresEntity(node: ts.Node): boolean {
+  if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) {
+    return getDeclarationName(node) !== undefined;
+  }
+  if (ts.isVariableStatement(node)) {
+    return node.declarationList.declarations.some(declaration => declaration.initializer && getBindingNames(declaration.name).length > 0);
+  }
+  if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node) || ts.isExportAssignment(node)) {
+    return true;
+  }
+  // 'module.exports = { a, b }' only lists entities declared elsewhere: it is not module init code either
+  return getCommonJsExports(node) !== null || getNamespaceBody(node) !== null;
+}
+
+/**
+ * Checks if a top-level statement belongs to the module init entity: code
+ * run when the file is loaded that is not part of an entity (imports binding
+ * names and re-exports are tracked separately, while a side-effect import
+ * such as "import './polyfill'" only runs code, so it is part of it).
+ *
+ * @param node The top-level statement.
+ * @returns True if the statement is part of the module init entity.
+ */
+export function isModuleInitStatement(node: ts.Node): boolean {
+  if (ts.isImportDeclaration(node) && !node.importClause) {
+    return true;
+  }
+  if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node) || ts.isExportDeclaration(node) ||
+      ts.isEmptyStatement(node) || node.kind === ts.SyntaxKind.EndOfFileToken) {
+    return false;
+  }
+  return !declaresEntity(node);
+}
+
+/**
+ * Gets the code of an entity: from its start to its end, without the entities
+ * nested in it (the members of a class). The module init entity is made of
+ * its statements, one per line.
+ *
+ * @param content The file content.
+ * @param entities All entities of the file, sorted by start.
+ * @param entity The entity.
+ * @returns The code of the entity.
+ */
+export function getEntityBlock(content: string, entities: TopLevelEntity[], entity: TopLevelEntity): string {
+  if (entity.ranges) {
+    return entity.ranges.map(range => content.substring(range.start, range.end)).join('\n');
+  }
+
+  let block = '';
+  let position = entity.start;
+  for (const nested of entities) {
+    if (nested === entity || nested.ranges || nested.start < entity.start || nested.end > entity.end) continue;
+    // Entities declared by the same statement ('const a = 1, b = 2' or 'const { a, b } = ...')
+    if (nested.start === entity.start && nested.end === entity.end) continue;
+    if (nested.start < position) continue;
+    block += content.substring(position, nested.start);
+    position = nested.end;
+  }
+  return block + content.substring(position, entity.end);
+}
+
+/**
+ * Finds the entity whose code contains a position: the innermost entity
+ * spanning it (a class member rather than its class), or the module init
+ * entity if the position is in one of its statements.
+ *
+ * @param entities All entities of the file, sorted by start.
+ * @param position Character position in the file.
+ * @param name Name declared at the position, choosing among the entities
+ *             declared by the same statement ('const { a, b } = ...').
+ * @returns The entity, or undefined if the position is outside of all entities (e.g., in an import).
+ */
+export function findEntityAtPosition(entities: TopLevelEntity[], position: number, name?: string): TopLevelEntity | undefined {
+  let found: TopLevelEntity | undefined;
+  for (const entity of entities) {
+    if (entity.start > position) break;
+    const containsPosition = entity.ranges
+      ? entity.ranges.some(range => range.start <= position && position < range.end)
+      : position < entity.end;
+    if (!containsPosition) continue;
+
+    const sharesStatement = found !== undefined && !found.ranges && found.start === entity.start && found.end === entity.end;
+    if (!sharesStatement || name === undefined || entity.fn === name || entity.fn.endsWith(`.${name}`)) {
+      found = entity;
+    }
+  }
+  return found;
+}
+
+/**
+ * Analyzes a single source file and returns a list of *all*
+ * top-level (root-level) entities: functions (overloads included),
+ * classes and their members, interfaces, types, enums, initialized
+ * variables (destructured ones included), default exports, namespace
+ * members, and CommonJS exports (exports.X, module.exports).
+ *
+ * @param filePath The absolute path to the source file to analyze.
+ * @param content Optional file content to analyze instead of reading the file
+ *                from disk (e.g., the file as it exists at a git revision).
  * @returns An object containing the file path and an array of found entities.
  */
-export function fileTopFunctions(filePath: string): FileFunctionsResult {
-  const funcs: TopLevelEntity[] = [];
+export function fileTopFunctions(filePath: string, content?: string): FileFunctionsResult {
   let sourceFile: ts.SourceFile;
 
   try {
-    const content = fs.readFileSync(filePath, 'utf8');
-    sourceFile = ts.createSourceFile(
-      filePath,
-      content,
-      ts.ScriptTarget.ESNext,
-      true // setParentNodes = true (Required for .getStart())
-    );
+    if (content === undefined) {
+      content = fs.readFileSync(filePath, 'utf8');
+    }
+    sourceFile = parseSourceFile(filePath, content);
   } catch (e: any) {
     console.warn(`[FIRE-DIFF Warning] Could not read or parse file: ${filePath}. Skipping.`);
     return { path: filePath, funcs: [] };
   }
 
-  // Traverse *only* the top-level nodes of the AST
-  ts.forEachChild(sourceFile, (node) => {
-    
-    // Case 1: Standard function declarations
-    // e.g., export function setMyInfoTitle() { ... }
-    if (ts.isFunctionDeclaration(node)) {
-      if (node.name) {
-        funcs.push({
-          fn: node.name.text,
-          start: node.getStart(),
-        });
+  return sourceFileTopFunctions(filePath, sourceFile);
+}
+
+/**
+ * Extracts the top-level entities of an already parsed source file
+ * (see fileTopFunctions), so a file parsed once can be shared by every analysis step.
+ *
+ * @param filePath The absolute path to the source file.
+ * @param sourceFile The parsed source file (with parent nodes set).
+ * @returns An object containing the file path and an array of found entities.
+ */
+export function sourceFileTopFunctions(filePath: string, sourceFile: ts.SourceFile): FileFunctionsResult {
+  const funcs: TopLevelEntity[] = [];
+
+  const addEntity = (fn: string, node: ts.Node, end: number = node.getEnd()) => {
+    funcs.push({
+      fn,
+      start: node.getStart(),
+      end,
+    });
+  };
+
+  // Traverse *only* the top-level nodes of the AST (and the bodies of namespaces).
+  // Names declared in a namespace are qualified with it (e.g., 'Utils.format').
+  const visitStatements = (statements: readonly ts.Node[], prefix: string) => {
+    const overloads = findOverloadGroups(statements);
+
+    for (const node of statements) {
+      const overloadGroup = overloads.get(node);
+      // Overload signatures are part of the entity of the first signature
+      if (overloadGroup && overloadGroup.length === 0) continue;
+      const end = overloadGroup ? (overloadGroup[overloadGroup.length - 1] as ts.Node).getEnd() : node.getEnd();
+
+      // Case 1: Standard function declarations (and their overloads)
+      // e.g., export function setMyInfoTitle() { ... }, export default function () { ... }
+      if (ts.isFunctionDeclaration(node)) {
+        const name = getDeclarationName(node);
+        if (name !== undefined) {
+          addEntity(`${prefix}${name}`, node, end);
+        }
       }
-    }
-    
-    // Case 2: Variable declarations (const, let, var)
-    // e.g., export const SOME_CONFIG = { ... }
-    else if (ts.isVariableStatement(node)) {
-      for (const declaration of node.declarationList.declarations) {
-        if (
-          declaration.initializer &&
-          ts.isIdentifier(declaration.name)
-        ) {
-          funcs.push({
-            fn: declaration.name.text,
-            start: node.getStart(),
-          });
+
+      // Case 2: Variable declarations (const, let, var)
+      // e.g., export const SOME_CONFIG = { ... }, export const { a, b } = factory()
+      else if (ts.isVariableStatement(node)) {
+        for (const declaration of node.declarationList.declarations) {
+          if (!declaration.initializer) continue;
+          for (const name of getBindingNames(declaration.name)) {
+            addEntity(`${prefix}${name}`, node);
+          }
         }
       }
-    }
 
-    // Case 3: Interface declarations
-    else if (ts.isInterfaceDeclaration(node)) {
-      funcs.push({
-        fn: node.name.text,
-        start: node.getStart(),
-      });
-    }
+      // Case 3: Interface declarations
+      else if (ts.isInterfaceDeclaration(node)) {
+        addEntity(`${prefix}${node.name.text}`, node);
+      }
 
-    // Case 4: Type alias declarations
-    else if (ts.isTypeAliasDeclaration(node)) {
-      funcs.push({
-        fn: node.name.text,
-        start: node.getStart(),
-      });
-    }
+      // Case 4: Type alias declarations
+      else if (ts.isTypeAliasDeclaration(node)) {
+        addEntity(`${prefix}${node.name.text}`, node);
+      }
 
-    // Case 5: Enum declarations
-    else if (ts.isEnumDeclaration(node)) {
-      funcs.push({
-        fn: node.name.text,
-        start: node.getStart(),
-      });
-    }
+      // Case 5: Enum declarations
+      else if (ts.isEnumDeclaration(node)) {
+        addEntity(`${prefix}${node.name.text}`, node);
+      }
 
-    else if (ts.isClassDeclaration(node)) {
-      if (node.name) {
-        // Add the class itself
-        funcs.push({
-          fn: node.name.text,
-          start: node.getStart(),
-        });
-
-        // Now, traverse *inside* the class for methods and properties
-        ts.forEachChild(node, (classMember) => {
-          
-          // Case 6a: Class Methods
-          if (ts.isMethodDeclaration(classMember)) {
-            if (classMember.name && ts.isIdentifier(classMember.name)) {
-              funcs.push({
-                fn: classMember.name.text,
-                start: classMember.getStart(),
-              });
-            }
-          }
+      else if (ts.isClassDeclaration(node)) {
+        const name = getDeclarationName(node);
+        if (name !== undefined) {
+          // Add the class itself
+          const className = `${prefix}${name}`;
+          addEntity(className, node);
 
-          // Case 6b: Class Properties
-          if (ts.isPropertyDeclaration(classMember)) {
-            if (classMember.name && ts.isIdentifier(classMember.name)) {
-              funcs.push({
-                fn: classMember.name.text,
-                start: classMember.getStart(),
-              });
-            }
-          }
+          // Now, traverse *inside* the class for methods, properties,
+          // accessors and the constructor (Cases 6a-6d). Members are qualified
+          // with the class name (e.g., 'UserRepo.save'), so same-named members
+          // of different classes do not collide.
+          const memberOverloads = findOverloadGroups(node.members);
+          for (const classMember of node.members) {
+            const memberGroup = memberOverloads.get(classMember);
+            if (memberGroup && memberGroup.length === 0) continue;
+            const memberName = getMemberEntityName(classMember);
+            if (memberName === null) continue;
 
-          // Case 6c: Constructor
-          if (ts.isConstructorDeclaration(classMember)) {
-             funcs.push({
-                fn: 'constructor',
-                start: classMember.getStart(),
-              });
+            const memberEnd = memberGroup ? (memberGroup[memberGroup.length - 1] as ts.Node).getEnd() : classMember.getEnd();
+            addEntity(`${className}.${memberName}`, classMember, memberEnd);
           }
-        });
+        }
+      }
+
+      // Case 7: Default exports (export default onCall(...))
+      else if (ts.isExportAssignment(node)) {
+        addEntity(`${prefix}${DEFAULT_EXPORT_ENTITY}`, node);
+      }
+
+      // Case 8: Namespaces (namespace Utils { export function format() { ... } })
+      else if (ts.isModuleDeclaration(node)) {
+        const namespace = getNamespaceBody(node);
+        if (namespace) {
+          addEntity(`${prefix}${namespace.name}`, node);
+          visitStatements(namespace.statements, `${prefix}${namespace.name}.`);
+        }
       }
-    }
 
-    // Case 7: CommonJS Exports (exports.getGame = ...)
-    else if (
-      ts.isExpressionStatement(node) &&
-      ts.isBinaryExpression(node.expression) &&
-      node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
-      ts.isPropertyAccessExpression(node.expression.left) &&
-      ts.isIdentifier(node.expression.left.expression) &&
-      node.expression.left.expression.text === 'exports'
-    ) {
-      funcs.push({
-        fn: node.expression.left.name.text, // e.g., 'getGame'
-        start: node.getStart(),
-      });
+      // Case 9: CommonJS Exports (exports.getGame = ..., module.exports = { ... })
+      else {
+        for (const exported of getCommonJsExports(node) ?? []) {
+          addEntity(exported.name, exported.node);
+        }
+      }
     }
-  });
+  };
+
+  visitStatements(sourceFile.statements, '');
+
+  // Case 10: Module init (the remaining top-level statements)
+  const initRanges = sourceFile.statements
+    .filter(statement => isModuleInitStatement(statement))
+    .map(statement => ({ start: statement.getStart(), end: statement.getEnd() }));
+  const firstRange = initRanges[0];
+  const lastRange = initRanges[initRanges.length - 1];
+  if (firstRange && lastRange) {
+    funcs.push({
+      fn: MODULE_INIT_ENTITY,
+      start: firstRange.start,
+      end: lastRange.end,
+      ranges: initRanges,
+    });
+  }
     
   return {
     path: filePath,
     // Sort is required to guarantee 'start' order for the "next item's start" logic
     funcs: funcs.sort((a, b) => a.start - b.start),
   };
-}
\ No newline at end of file
+}
@@ -1,10 +1,15 @@
 /**
  * Firebase helper functions module.
  * This module provides utility functions for detecting Firebase Cloud Functions
- * triggers and endpoints in code blocks.
+ * triggers and endpoints in code blocks, and global configuration calls in files.
  * @module core/firebase-helpers
  */
 
+import ts from 'typescript';
+import { findEntityAtPosition, getEntityBlock } from './find-top-functions';
+import { TopLevelEntity } from './types';
+import { parseSourceFile } from '../utils/source-files';
+
 /**
  * Defines the structured information returned by the endpoint check.
  */
@@ -20,7 +25,7 @@ export interface EndpointInfo {
 /**
  * Default return value when no Firebase Functions endpoint is detected.
  */
-const NOT_AN_ENDPOINT: EndpointInfo = {
+export const NOT_AN_ENDPOINT: EndpointInfo = {
   isEndpoint: false,
   kind: null,
   version: null,
@@ -96,6 +101,192 @@ const V2_SHARED_REGEX = new RegExp(
   'm'
 );
 
+/**
+ * A global configuration call found in a file.
+ */
+export interface GlobalOptionsCall {
+  /** The called function (e.g., "setGlobalOptions" or "functions.runWith"). */
+  call: string;
+  /** The Firebase Functions version whose endpoints it configures. */
+  version: 'v1' | 'v2';
+}
+
+/**
+ * Functions configuring every V2 function, imported by name from
+ * 'firebase-functions' or 'firebase-functions/v2[/...]'.
+ */
+const V2_GLOBAL_OPTIONS_FUNCTIONS = new Set(['setGlobalOptions', 'onInit']);
+
+/**
+ * Members of the V1 'functions' namespace configuring every V1 function:
+ * onInit(), and runWith() / region() builders (global defaults when shared
+ * outside of an endpoint).
+ */
+const V1_GLOBAL_OPTIONS_MEMBERS = new Set(['onInit', 'runWith', 'region']);
+
+/**
+ * Local names bound to the Firebase Functions SDK by the imports of a file.
+ */
+interface FirebaseBindings {
+  /** Local name -> imported V2 global options function (e.g., "setGlobal" -> "setGlobalOptions"). */
+  functions: Map<string, string>;
+  /** Namespaces of the V1 API ('firebase-functions', 'firebase-functions/v1'). */
+  v1Namespaces: Set<string>;
+  /** Namespaces of the V2 API ('firebase-functions', 'firebase-functions/v2[/...]'). */
+  v2Namespaces: Set<string>;
+}
+
+/**
+ * Collects the local names the top-level imports and require() calls of a
+ * file bind to the Firebase Functions SDK.
+ *
+ * @param sourceFile The parsed file.
+ * @returns The bindings.
+ */
+function findFirebaseBindings(sourceFile: ts.SourceFile): FirebaseBindings {
+  const bindings: FirebaseBindings = { functions: new Map(), v1Namespaces: new Set(), v2Namespaces: new Set() };
+
+  const addNamespace = (name: string, specifier: string): void => {
+    if (specifier === 'firebase-functions' || specifier === 'firebase-functions/v1') {
+      bindings.v1Namespaces.add(name);
+    }
+    if (specifier === 'firebase-functions' || specifier === 'firebase-functions/v2' || specifier.startsWith('firebase-functions/v2/')) {
+      bindings.v2Namespaces.add(name);
+    }
+  };
+  const addFunction = (name: string, imported: string, specifier: string): void => {
+    const isV2Module = specifier === 'firebase-functions' || specifier === 'firebase-functions/v2' || specifier.startsWith('firebase-functions/v2/');
+    if (isV2Module && V2_GLOBAL_OPTIONS_FUNCTIONS.has(imported)) {
+      bindings.functions.set(name, imported);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    // import { setGlobalOptions as x } from '...', import * as functions from '...', import functions from '...'
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier) && statement.importClause) {
+      const specifier = statement.moduleSpecifier.text;
+      const { name, namedBindings } = statement.importClause;
+      if (name) addNamespace(name.text, specifier);
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        addNamespace(namedBindings.name.text, specifier);
+      } else if (namedBindings) {
+        for (const element of namedBindings.elements) {
+          addFunction(element.name.text, (element.propertyName ?? element.name).text, specifier);
+        }
+      }
+      continue;
+    }
+
+    // import functions = require('...')
+    if (
+      ts.isImportEqualsDeclaration(statement) &&
+      ts.isExternalModuleReference(statement.moduleReference) &&
+      ts.isStringLiteral(statement.moduleReference.expression)
+    ) {
+      addNamespace(statement.name.text, statement.moduleReference.expression.text);
+      continue;
+    }
+
+    // const functions = require('...'), const { setGlobalOptions } = require('...')
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer;
+      if (
+        !initializer ||
+        !ts.isCallExpression(initializer) ||
+        !ts.isIdentifier(initializer.expression) ||
+        initializer.expression.text !== 'require' ||
+        !initializer.arguments[0] ||
+        !ts.isStringLiteral(initializer.arguments[0])
+      ) {
+        continue;
+      }
+      const specifier = initializer.arguments[0].text;
+      if (ts.isIdentifier(declaration.name)) {
+        addNamespace(declaration.name.text, specifier);
+      } else if (ts.isObjectBindingPattern(declaration.name)) {
+        for (const element of declaration.name.elements) {
+          const imported = element.propertyName ?? element.name;
+          if (ts.isIdentifier(element.name) && ts.isIdentifier(imported)) {
+            addFunction(element.name.text, imported.text, specifier);
+          }
+        }
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Resolves the callee of a call expression to a global configuration call.
+ *
+ * @param callee The called expression.
+ * @param bindings The Firebase bindings of the file.
+ * @returns The global configuration call, or undefined if the callee is not one.
+ */
+function resolveGlobalOptionsCall(callee: ts.Expression, bindings: FirebaseBindings): GlobalOptionsCall | undefined {
+  if (ts.isIdentifier(callee)) {
+    const imported = bindings.functions.get(callee.text);
+    return imported ? { call: imported, version: 'v2' } : undefined;
+  }
+
+  if (!ts.isPropertyAccessExpression(callee) || !ts.isIdentifier(callee.expression)) return undefined;
+  const namespace = callee.expression.text;
+  const member = callee.name.text;
+  if (bindings.v1Namespaces.has(namespace) && V1_GLOBAL_OPTIONS_MEMBERS.has(member)) {
+    return { call: `functions.${member}`, version: 'v1' };
+  }
+  if (bindings.v2Namespaces.has(namespace) && V2_GLOBAL_OPTIONS_FUNCTIONS.has(member)) {
+    return { call: member, version: 'v2' };
+  }
+  return undefined;
+}
+
+/**
+ * Finds the calls of a file that configure every function of a version, by
+ * the entity making them: setGlobalOptions() and onInit() (V2),
+ * functions.onInit() (V1), and functions.runWith() or functions.region()
+ * defaults (V1) in entities that are not endpoints themselves (in an
+ * endpoint, they configure that endpoint only).
+ * Only calls of functions imported from the Firebase Functions SDK count, so a
+ * method or call of the project named 'onInit' is not one.
+ *
+ * @param filePath The absolute path of the file.
+ * @param content The file content.
+ * @param entities The entities of the file (see core/find-top-functions).
+ * @returns The global configuration calls (at most one per called function) keyed by entity name.
+ */
+export function getGlobalOptionsCalls(
+  filePath: string,
+  content: string,
+  entities: TopLevelEntity[]
+): Map<string, GlobalOptionsCall[]> {
+  const calls = new Map<string, Map<string, GlobalOptionsCall>>();
+  const sourceFile = parseSourceFile(filePath, content);
+  const bindings = findFirebaseBindings(sourceFile);
+  if (bindings.functions.size === 0 && bindings.v1Namespaces.size === 0 && bindings.v2Namespaces.size === 0) {
+    return new Map();
+  }
+
+  const visit = (node: ts.Node): void => {
+    const found = ts.isCallExpression(node) ? resolveGlobalOptionsCall(node.expression, bindings) : undefined;
+    const entity = found && findEntityAtPosition(entities, node.getStart(sourceFile));
+    if (found && entity) {
+      const isBuilder = found.call === 'functions.runWith' || found.call === 'functions.region';
+      if (!isBuilder || !getEndpointInfo(getEntityBlock(content, entities, entity)).isEndpoint) {
+        const entityCalls = calls.get(entity.fn) ?? new Map<string, GlobalOptionsCall>();
+        entityCalls.set(found.call, found);
+        calls.set(entity.fn, entityCalls);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return new Map(Array.from(calls, ([fn, entityCalls]) => [fn, Array.from(entityCalls.values())]));
+}
+
 /**
  * Checks if a given block of code (as a string) contains
  * a known Firebase Functions trigger (V1 or V2) and returns
@@ -0,0 +1,303 @@
+/**
+ * Lockfile diff module.
+ *
+ * This module compares two versions of an npm lockfile (package-lock.json)
+ * and determines which direct dependencies changed, either their own version
+ * or the resolution of any package in their transitive dependency tree.
+ *
+ * @module core/lockfile-diff
+ */
+
+import { PackageChange } from './types';
+
+/**
+ * A single installed package, keyed by its install path in the lockfile.
+ */
+interface LockfilePackage {
+  /** The package name (e.g., "lodash"). */
+  name: string;
+  /** The installed version. */
+  version: string | null;
+  /** Resolution identity (version, resolved URL and integrity), used for comparison. */
+  identity: string;
+  /** Names of the packages it depends on. */
+  dependencies: string[];
+}
+
+/**
+ * A normalized lockfile: installed packages keyed by install path
+ * (e.g., "node_modules/a/node_modules/b") and the direct dependencies of the root.
+ */
+interface NormalizedLockfile {
+  /** Installed packages keyed by install path. */
+  packages: Map<string, LockfilePackage>;
+  /** Names of the root package's runtime dependencies. */
+  rootDependencies: string[];
+}
+
+/**
+ * Extracts the package name from an install path.
+ *
+ * @param installPath The install path (e.g., "node_modules/@scope/name").
+ * @returns The package name (e.g., "@scope/name").
+ */
+function nameFromInstallPath(installPath: string): string {
+  const index = installPath.lastIndexOf('node_modules/');
+  return index === -1 ? installPath : installPath.substring(index + 'node_modules/'.length);
+}
+
+/**
+ * Creates a package entry from a lockfile entry.
+ *
+ * @param name The package name.
+ * @param entry The raw lockfile entry.
+ * @param dependencyNames Names of the packages it depends on.
+ * @returns The package entry.
+ */
+function toLockfilePackage(name: string, entry: any, dependencyNames: string[]): LockfilePackage {
+  return {
+    name,
+    version: entry?.version ?? null,
+    identity: JSON.stringify([entry?.version ?? null, entry?.resolved ?? null, entry?.integrity ?? null]),
+    dependencies: dependencyNames,
+  };
+}
+
+/**
+ * Parses package-lock.json content (lockfileVersion 1, 2 or 3) into a normalized form.
+ *
+ * @param content The lockfile content, or undefined if the file does not exist.
+ * @returns The normalized lockfile, or null if it cannot be parsed.
+ */
+function parseLockfile(content: string | undefined): NormalizedLockfile | null {
+  if (content === undefined) {
+    return { packages: new Map(), rootDependencies: [] };
+  }
+
+  let lockfile: any;
+  try {
+    lockfile = JSON.parse(content);
+  } catch (e) {
+    return null;
+  }
+
+  const packages = new Map<string, LockfilePackage>();
+
+  // lockfileVersion 2 and 3: flat "packages" map keyed by install path
+  if (lockfile.packages && typeof lockfile.packages === 'object') {
+    for (const [installPath, entry] of Object.entries<any>(lockfile.packages)) {
+      if (installPath === '' || !installPath.includes('node_modules/')) continue;
+      const dependencyNames = [
+        ...Object.keys(entry?.dependencies ?? {}),
+        ...Object.keys(entry?.optionalDependencies ?? {}),
+        ...Object.keys(entry?.peerDependencies ?? {}),
+      ];
+      packages.set(installPath, toLockfilePackage(entry?.name ?? nameFromInstallPath(installPath), entry, dependencyNames));
+    }
+
+    const root = lockfile.packages[''] ?? {};
+    const rootDependencies = [
+      ...Object.keys(root.dependencies ?? {}),
+      ...Object.keys(root.optionalDependencies ?? {}),
+    ];
+    return { packages, rootDependencies };
+  }
+
+  // lockfileVersion 1: nested "dependencies" tree
+  function addNested(dependencies: any, parentPath: string): void {
+    for (const [name, entry] of Object.entries<any>(dependencies ?? {})) {
+      const installPath = parentPath ? `${parentPath}/node_modules/${name}` : `node_modules/${name}`;
+      packages.set(installPath, toLockfilePackage(name, entry, Object.keys(entry?.requires ?? {})));
+      addNested(entry?.dependencies, installPath);
+    }
+  }
+  addNested(lockfile.dependencies, '');
+
+  const rootDependencies = Object.entries<any>(lockfile.dependencies ?? {})
+    .filter(([, entry]) => entry?.dev !== true)
+    .map(([name]) => name);
+  return { packages, rootDependencies };
+}
+
+/**
+ * Resolves a dependency the way Node.js does: the nearest node_modules
+ * folder, walking up from the dependent package.
+ *
+ * @param lockfile The normalized lockfile.
+ * @param fromPath The install path of the dependent package ('' for the root).
+ * @param name The dependency name.
+ * @returns The install path of the resolved package, or null.
+ */
+function resolveInstallPath(lockfile: NormalizedLockfile, fromPath: string, name: string): string | null {
+  let basePath = fromPath;
+  while (true) {
+    const candidate = basePath ? `${basePath}/node_modules/${name}` : `node_modules/${name}`;
+    if (lockfile.packages.has(candidate)) {
+      return candidate;
+    }
+    if (!basePath) {
+      return null;
+    }
+    const index = basePath.lastIndexOf('/node_modules/');
+    basePath = index === -1 ? '' : basePath.substring(0, index);
+  }
+}
+
+/**
+ * Collects the install paths of a direct dependency and its whole dependency tree.
+ *
+ * @param lockfile The normalized lockfile.
+ * @param name The direct dependency name.
+ * @returns The install paths in the dependency closure.
+ */
+function dependencyClosure(lockfile: NormalizedLockfile, name: string): Set<string> {
+  const closure = new Set<string>();
+  const rootPath = resolveInstallPath(lockfile, '', name);
+  const queue = rootPath ? [rootPath] : [];
+
+  while (queue.length > 0) {
+    const installPath = queue.shift() as string;
+    if (closure.has(installPath)) continue;
+    closure.add(installPath);
+
+    const pkg = lockfile.packages.get(installPath);
+    for (const dependency of pkg?.dependencies ?? []) {
+      const resolved = resolveInstallPath(lockfile, installPath, dependency);
+      if (resolved && !closure.has(resolved)) {
+        queue.push(resolved);
+      }
+    }
+  }
+
+  return closure;
+}
+
+/**
+ * Groups the packages of a dependency closure by name. Comparing by name
+ * (instead of install path) ignores packages that were only hoisted or deduped.
+ *
+ * @param lockfile The normalized lockfile.
+ * @param closure The install paths of the closure.
+ * @param excludedPath Install path to leave out (the direct dependency itself).
+ * @returns Map of package names to their installed versions and identities.
+ */
+function groupClosureByName(
+  lockfile: NormalizedLockfile,
+  closure: Set<string>,
+  excludedPath: string | null
+): Map<string, { versions: Set<string>; identities: Set<string> }> {
+  const grouped = new Map<string, { versions: Set<string>; identities: Set<string> }>();
+
+  for (const installPath of closure) {
+    if (installPath === excludedPath) continue;
+    const pkg = lockfile.packages.get(installPath);
+    if (!pkg) continue;
+
+    let group = grouped.get(pkg.name);
+    if (!group) {
+      group = { versions: new Set(), identities: new Set() };
+      grouped.set(pkg.name, group);
+    }
+    if (pkg.version) group.versions.add(pkg.version);
+    group.identities.add(pkg.identity);
+  }
+
+  return grouped;
+}
+
+/**
+ * Formats a version change of a transitive package (e.g., "ms 2.1.2 -> 2.1.3").
+ *
+ * @param name The package name.
+ * @param from The versions at base (empty if added).
+ * @param to The versions at head (empty if removed).
+ * @returns The formatted change.
+ */
+function formatVersionChange(name: string, from: Set<string>, to: Set<string>): string {
+  const format = (versions: Set<string>) => versions.size > 0 ? Array.from(versions).sort().join(', ') : '(none)';
+  return `${name} ${format(from)} -> ${format(to)}`;
+}
+
+/**
+ * Compares two versions of package-lock.json and lists the direct
+ * dependencies whose version or transitive resolution changed.
+ *
+ * @param baseContent The lockfile content at base, or undefined if it did not exist.
+ * @param headContent The lockfile content at head, or undefined if it was deleted.
+ * @returns The changed direct dependencies, or null if a lockfile cannot be parsed.
+ */
+export function diffLockfiles(baseContent: string | undefined, headContent: string | undefined): PackageChange[] | null {
+  const base = parseLockfile(baseContent);
+  const head = parseLockfile(headContent);
+  if (!base || !head) {
+    return null;
+  }
+
+  const changes: PackageChange[] = [];
+  const directDependencies = [...new Set([...base.rootDependencies, ...head.rootDependencies])].sort();
+
+  for (const name of directDependencies) {
+    const baseClosure = dependencyClosure(base, name);
+    const headClosure = dependencyClosure(head, name);
+
+    const basePath = resolveInstallPath(base, '', name);
+    const headPath = resolveInstallPath(head, '', name);
+    const from = basePath ? base.packages.get(basePath)?.version ?? null : null;
+    const to = headPath ? head.packages.get(headPath)?.version ?? null : null;
+
+    const baseIdentity = basePath ? base.packages.get(basePath)?.identity : undefined;
+    const headIdentity = headPath ? head.packages.get(headPath)?.identity : undefined;
+    let changed = from !== to || baseIdentity !== headIdentity;
+
+    // Transitive packages whose resolution changed
+    const baseGroups = groupClosureByName(base, baseClosure, basePath);
+    const headGroups = groupClosureByName(head, headClosure, headPath);
+    const transitive: string[] = [];
+    for (const pkgName of [...new Set([...baseGroups.keys(), ...headGroups.keys()])].sort()) {
+      const baseGroup = baseGroups.get(pkgName);
+      const headGroup = headGroups.get(pkgName);
+      const baseIdentities = Array.from(baseGroup?.identities ?? []).sort().join('|');
+      const headIdentities = Array.from(headGroup?.identities ?? []).sort().join('|');
+      if (baseIdentities === headIdentities) continue;
+
+      transitive.push(formatVersionChange(pkgName, baseGroup?.versions ?? new Set(), headGroup?.versions ?? new Set()));
+      changed = true;
+    }
+
+    if (changed) {
+      changes.push({ name, from, to, transitive, seeds: [] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Describes the resolution of every direct dependency in package-lock.json:
+ * its own identity and the identities of the packages in its dependency
+ * tree, grouped by name. Two descriptions of a dependency differ exactly when
+ * diffLockfiles reports it as changed.
+ *
+ * @param content The lockfile content, or undefined if the file does not exist.
+ * @returns The descriptions keyed by direct dependency name, or null if the lockfile cannot be parsed.
+ */
+export function describeResolutions(content: string | undefined): Map<string, string> | null {
+  const lockfile = parseLockfile(content);
+  if (!lockfile) {
+    return null;
+  }
+
+  const resolutions = new Map<string, string>();
+  for (const name of [...new Set(lockfile.rootDependencies)].sort()) {
+    const installPath = resolveInstallPath(lockfile, '', name);
+    const identity = installPath ? lockfile.packages.get(installPath)?.identity ?? null : null;
+
+    const groups = groupClosureByName(lockfile, dependencyClosure(lockfile, name), installPath);
+    const transitive = [...groups.keys()].sort()
+      .map(pkgName => `${pkgName}=${Array.from(groups.get(pkgName)?.identities ?? []).sort().join('|')}`);
+
+    resolutions.set(name, [identity, ...transitive].join('\n'));
+  }
+
+  return resolutions;
+}
@@ -0,0 +1,107 @@
+/**
+ * Module alias resolver module.
+ *
+ * This module reads the compiler options of the project's tsconfig.json
+ * (following 'extends' chains) and resolves non-relative module specifiers
+ * through 'compilerOptions.paths' and 'baseUrl' with TypeScript's module
+ * resolution, so aliased imports (e.g., "@/services/user") can be matched
+ * like relative ones. Imports of workspace packages (e.g., "@acme/shared")
+ * are resolved to their TypeScript sources (see utils/workspaces).
+ *
+ * @module core/module-resolver
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import { loadCompilerOptions } from '../utils/tsconfig';
+import { getWorkspacePackages, resolveWorkspaceImport } from '../utils/workspaces';
+
+/**
+ * Resolves a non-relative module specifier to the absolute path of a project file.
+ *
+ * @param specifier The module specifier (e.g., "@/services/user").
+ * @param containingFile Absolute path of the importing file.
+ * @param assumedFile Absolute path of a file to treat as existing even if it is
+ *                    not on disk (e.g., a file that only exists at a git revision).
+ * @returns The absolute path of the resolved file, or null if the specifier is
+ *          relative, an npm package (other than a workspace package), or cannot be resolved.
+ */
+export type AliasResolver = (specifier: string, containingFile: string, assumedFile?: string) => string | null;
+
+/**
+ * Resolvers by project root. Null means the project has neither aliases nor workspace packages.
+ */
+const resolverCache = new Map<string, AliasResolver | null>();
+
+/**
+ * Gets the alias resolver of a project. The tsconfig.json is read once per project root.
+ *
+ * @param projectRoot The absolute path to the project root.
+ * @returns The resolver, or null if the project defines neither 'paths' nor 'baseUrl'
+ *          and depends on no workspace packages.
+ */
+export function getAliasResolver(projectRoot: string): AliasResolver | null {
+  const cached = resolverCache.get(projectRoot);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const workspacePackages = getWorkspacePackages(projectRoot);
+  const loadedOptions = loadCompilerOptions(projectRoot);
+  const hasAliases = loadedOptions !== null && (loadedOptions.paths !== undefined || loadedOptions.baseUrl !== undefined);
+  if (!hasAliases && workspacePackages.length === 0) {
+    resolverCache.set(projectRoot, null);
+    return null;
+  }
+  // JavaScript sources (e.g., "@/helpers/legacy" -> legacy.js) are resolved as well
+  const options: ts.CompilerOptions = { ...(loadedOptions ?? {}), allowJs: true };
+
+  const moduleResolutionCache = ts.createModuleResolutionCache(
+    projectRoot,
+    fileName => ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase(),
+    options
+  );
+  // Results from the file system, keyed by "{directory}\0{specifier}"
+  const resolutions = new Map<string, string | null>();
+
+  const resolveWith = (
+    specifier: string,
+    containingFile: string,
+    host: ts.ModuleResolutionHost,
+    cache: ts.ModuleResolutionCache | undefined
+  ): string | null => {
+    const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, options, host, cache);
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+      return null;
+    }
+    return path.normalize(resolvedModule.resolvedFileName);
+  };
+
+  const resolver: AliasResolver = (specifier, containingFile, assumedFile) => {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return null;
+    }
+
+    const key = `${path.dirname(containingFile)}\0${specifier}`;
+    let resolved = resolutions.get(key);
+    if (resolved === undefined) {
+      resolved = resolveWorkspaceImport(specifier, workspacePackages) ??
+        (hasAliases ? resolveWith(specifier, containingFile, ts.sys, moduleResolutionCache) : null);
+      resolutions.set(key, resolved);
+    }
+
+    // The file may only exist at another revision: resolve again, treating it as existing
+    if (resolved === null && hasAliases && assumedFile !== undefined && !ts.sys.fileExists(assumedFile)) {
+      const assumed = path.normalize(assumedFile);
+      resolved = resolveWith(specifier, containingFile, {
+        fileExists: fileName => path.normalize(fileName) === assumed || ts.sys.fileExists(fileName),
+        readFile: ts.sys.readFile,
+      }, undefined);
+    }
+
+    return resolved;
+  };
+
+  resolverCache.set(projectRoot, resolver);
+  return resolver;
+}
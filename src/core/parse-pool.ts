@@ -0,0 +1,186 @@
+/**
+ * Parse pool module.
+ *
+ * This module parses source files and extracts their parse results (see
+ * core/file-analysis) on a pool of worker threads. The analysis steps that
+ * consume the results are synchronous, so the pool is too: the main thread
+ * hands out batches of files and blocks in Atomics.wait on a shared counter
+ * that workers bump after replying, then collects the replies with
+ * receiveMessageOnPort. Results are stored by task index, so they come back
+ * in input order whatever the number of workers and the order batches finish in.
+ * Being blocked, the main thread never gets the workers' 'error' and 'exit'
+ * events: a worker that exits (e.g., on an uncaught exception) flags itself in
+ * shared memory and signals the counter instead, and its batch is parsed on
+ * the main thread right away.
+ *
+ * @module core/parse-pool
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageChannel, MessagePort, receiveMessageOnPort, Worker } from 'worker_threads';
+import { analyzeFileContent, FileAnalysis } from './file-analysis';
+
+/**
+ * Number of files sent to a worker at a time.
+ */
+const BATCH_SIZE = 16;
+
+/**
+ * Minimum number of files per worker, below which starting a worker
+ * (and loading TypeScript in it) costs more than it saves.
+ */
+const MIN_FILES_PER_WORKER = 32;
+
+/**
+ * Time without any batch finishing after which the pool is abandoned and the
+ * remaining files are parsed on the main thread. Only workers that hang (or
+ * die without exiting, like an aborted thread) run into it.
+ */
+const STALL_TIMEOUT_MS = 60000;
+
+/**
+ * A file to parse.
+ */
+export interface ParseTask {
+  /** Absolute path of the file. */
+  path: string;
+  /** The file content. */
+  content: string;
+}
+
+/**
+ * A worker of the pool and the batch it is parsing.
+ */
+interface PoolWorker {
+  worker: Worker;
+  /** The main thread's end of the worker's channel. */
+  port: MessagePort;
+  /** Indexes of the tasks of the current batch, or null if the worker is idle. */
+  batch: number[] | null;
+}
+
+/**
+ * Gets the default number of parse jobs: the number of CPUs.
+ *
+ * @returns The number of jobs.
+ */
+export function getDefaultJobs(): number {
+  return os.cpus().length || 1;
+}
+
+/**
+ * Parses files and extracts their parse results, on up to `jobs` worker
+ * threads if there are enough files to make it worthwhile, otherwise (or if
+ * the workers cannot be started) on the main thread.
+ *
+ * @param tasks The files to parse.
+ * @param jobs The maximum number of worker threads.
+ * @returns The parse results in task order (undefined for files that cannot be parsed).
+ */
+export function analyzeFiles(tasks: ParseTask[], jobs: number): (FileAnalysis | undefined)[] {
+  const results: (FileAnalysis | undefined)[] = new Array(tasks.length);
+  const finished: boolean[] = new Array(tasks.length).fill(false);
+
+  const workerCount = Math.min(jobs, Math.floor(tasks.length / MIN_FILES_PER_WORKER));
+  // The worker entry point only exists in the compiled build (not when running from sources)
+  const workerFile = path.join(__dirname, 'parse-worker.js');
+  if (workerCount > 1 && fs.existsSync(workerFile)) {
+    runPool(tasks, workerCount, workerFile, results, finished);
+  }
+
+  tasks.forEach((task, index) => {
+    if (!finished[index]) {
+      results[index] = analyzeFileContent(task.path, task.content);
+    }
+  });
+  return results;
+}
+
+/**
+ * Runs the tasks on a pool of worker threads, storing the results of the
+ * batches that finish. Tasks left unfinished (the pool could not be started
+ * or stalled, or their worker exited) are left to the caller.
+ *
+ * @param tasks The files to parse.
+ * @param workerCount The number of worker threads.
+ * @param workerFile The absolute path of the worker entry point.
+ * @param results Parse results, filled by task index.
+ * @param finished Whether each task's results were stored, filled by task index.
+ */
+function runPool(
+  tasks: ParseTask[],
+  workerCount: number,
+  workerFile: string,
+  results: (FileAnalysis | undefined)[],
+  finished: boolean[]
+): void {
+  const counter = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+  // Set to 1 by each worker when it exits
+  const exited = new Int32Array(new SharedArrayBuffer(workerCount * Int32Array.BYTES_PER_ELEMENT));
+  const workers: PoolWorker[] = [];
+  let nextTask = 0;
+
+  const sendBatch = (poolWorker: PoolWorker): void => {
+    if (nextTask >= tasks.length) {
+      poolWorker.batch = null;
+      return;
+    }
+    const batch: number[] = [];
+    for (; nextTask < tasks.length && batch.length < BATCH_SIZE; nextTask++) {
+      batch.push(nextTask);
+    }
+    poolWorker.batch = batch;
+    poolWorker.port.postMessage(batch.map(index => tasks[index]));
+  };
+
+  try {
+    for (let i = 0; i < workerCount; i++) {
+      const { port1, port2 } = new MessageChannel();
+      const worker = new Worker(workerFile, {
+        workerData: { port: port2, counter, exited, index: i },
+        transferList: [port2],
+      });
+      // Emitted once the main thread is free again, after the worker flagged its exit: an
+      // unhandled 'error' event would end the process
+      worker.on('error', () => undefined);
+      workers.push({ worker, port: port1, batch: null });
+    }
+    workers.forEach(sendBatch);
+
+    let signaled = 0;
+    while (workers.some(poolWorker => poolWorker.batch)) {
+      if (Atomics.wait(counter, 0, signaled, STALL_TIMEOUT_MS) === 'timed-out') {
+        console.warn('[FIRE-DIFF Warning] Parse workers stopped responding. Parsing the remaining files on the main thread.');
+        break;
+      }
+      signaled = Atomics.load(counter, 0);
+
+      workers.forEach((poolWorker, workerIndex) => {
+        if (!poolWorker.batch) return;
+        const reply = receiveMessageOnPort(poolWorker.port);
+        if (reply) {
+          const batchResults: (FileAnalysis | undefined)[] = reply.message;
+          poolWorker.batch.forEach((index, i) => {
+            results[index] = batchResults[i];
+            finished[index] = true;
+          });
+          sendBatch(poolWorker);
+        }
+        // An exited worker will not reply: its batch is left to the main thread, the other workers go on
+        if (poolWorker.batch && Atomics.load(exited, workerIndex) === 1) {
+          console.warn('[FIRE-DIFF Warning] A parse worker exited unexpectedly. Parsing its files on the main thread.');
+          poolWorker.batch = null;
+        }
+      });
+    }
+  } catch (e) {
+    console.warn('[FIRE-DIFF Warning] Could not start parse workers. Parsing on the main thread.');
+  } finally {
+    for (const poolWorker of workers) {
+      poolWorker.port.close();
+      poolWorker.worker.terminate();
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Parse worker module.
+ *
+ * This module is the entry point of the worker threads of the parse pool (see
+ * core/parse-pool). Each message is a batch of files; the worker replies with
+ * their parse results in batch order, then signals the shared counter so the
+ * main thread, blocked in Atomics.wait, wakes up to collect them. When the
+ * worker exits, it flags itself and signals the counter as well, so the main
+ * thread does not wait for a reply that will never come.
+ *
+ * @module core/parse-worker
+ */
+
+import { MessagePort, workerData } from 'worker_threads';
+import { analyzeFileContent } from './file-analysis';
+import { ParseTask } from './parse-pool';
+
+const { port, counter, exited, index } = workerData as {
+  port: MessagePort;
+  counter: Int32Array;
+  exited: Int32Array;
+  index: number;
+};
+
+// Also emitted on an uncaught exception or process.exit(), before the thread stops
+process.on('exit', () => {
+  Atomics.store(exited, index, 1);
+  Atomics.add(counter, 0, 1);
+  Atomics.notify(counter, 0);
+});
+
+port.on('message', (tasks: ParseTask[]) => {
+  port.postMessage(tasks.map(task => analyzeFileContent(task.path, task.content)));
+  Atomics.add(counter, 0, 1);
+  Atomics.notify(counter, 0);
+});
@@ -0,0 +1,274 @@
+/**
+ * Unified diff module.
+ *
+ * This module parses unified diffs (the output of 'git diff', 'diff -u', or a
+ * patch downloaded from a code review system) into files and hunks, and
+ * applies the hunks to reconstruct either side of a file.
+ *
+ * @module core/patch
+ */
+
+/**
+ * A hunk of a unified diff ('@@ -oldStart,oldLines +newStart,newLines @@').
+ */
+export interface PatchHunk {
+  /** 1-based start line in the old file. */
+  oldStart: number;
+  /** Number of lines of the old file covered by the hunk. */
+  oldLines: number;
+  /** 1-based start line in the new file. */
+  newStart: number;
+  /** Number of lines of the new file covered by the hunk. */
+  newLines: number;
+  /** The hunk lines, with their ' ', '-' or '+' prefix. */
+  lines: string[];
+}
+
+/**
+ * A file entry of a unified diff.
+ */
+export interface PatchFile {
+  /** Path of the file before the change (without 'a/' prefix), or null if the file was added. */
+  oldPath: string | null;
+  /** Path of the file after the change (without 'b/' prefix), or null if the file was deleted. */
+  newPath: string | null;
+  /** The hunks of the file. */
+  hunks: PatchHunk[];
+}
+
+/**
+ * Escape sequences of git's C-style quoted paths (other than octal bytes).
+ */
+const C_ESCAPES: Record<string, number> = {
+  a: 0x07, b: 0x08, t: 0x09, n: 0x0a, v: 0x0b, f: 0x0c, r: 0x0d, '"': 0x22, '\\': 0x5c,
+};
+
+/**
+ * Unquotes a path quoted the way git quotes paths with special characters
+ * (core.quotePath): '\t', '\n', '\"', '\\' and the like, and octal escapes
+ * of the bytes of UTF-8 characters (e.g., "\303\274" for 'ü').
+ * Unquoted paths are returned as they are.
+ *
+ * @param value The path, possibly quoted.
+ * @returns The unquoted path.
+ */
+export function unquoteGitPath(value: string): string {
+  if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) {
+    return value;
+  }
+
+  const bytes: number[] = [];
+  const quoted = value.slice(1, -1);
+  let i = 0;
+  while (i < quoted.length) {
+    const backslash = quoted.indexOf('\\', i);
+    if (backslash !== i) {
+      // Unescaped text, up to the next escape
+      const end = backslash === -1 ? quoted.length : backslash;
+      bytes.push(...Buffer.from(quoted.substring(i, end), 'utf8'));
+      i = end;
+      continue;
+    }
+
+    const octal = /^[0-7]{3}/.exec(quoted.substring(i + 1));
+    const escaped = quoted[i + 1] ?? '';
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 4;
+    } else if (Object.prototype.hasOwnProperty.call(C_ESCAPES, escaped)) {
+      bytes.push(C_ESCAPES[escaped] as number);
+      i += 2;
+    } else {
+      bytes.push(0x5c);
+      i++;
+    }
+  }
+
+  return Buffer.from(bytes).toString('utf8');
+}
+
+/**
+ * Extracts the path of a '---' or '+++' header line.
+ *
+ * @param value The text after '--- ' or '+++ '.
+ * @param prefix The git prefix to strip ('a/' or 'b/').
+ * @param gitStyle Whether the file started with a 'diff --git' line.
+ * @returns The path, or null for '/dev/null'.
+ */
+function parseHeaderPath(value: string, prefix: string, gitStyle: boolean): string | null {
+  // 'diff -u' appends a tab and a timestamp
+  // (quoted paths escape their tabs, so the timestamp is after the closing quote)
+  let filePath = value.startsWith('"')
+    ? value.substring(0, value.lastIndexOf('"') + 1)
+    : value.split('\t')[0]?.trim() ?? '';
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  filePath = unquoteGitPath(filePath);
+  if (gitStyle && filePath.startsWith(prefix)) {
+    filePath = filePath.substring(prefix.length);
+  }
+  return filePath;
+}
+
+/**
+ * Parses a unified diff into files and hunks.
+ *
+ * File headers ('--- a/...', '+++ b/...', 'rename from/to', 'new file mode',
+ * 'deleted file mode') are only parsed outside of hunks, and hunk lengths are
+ * taken from the '@@' lines, so removed lines starting with '--' are never
+ * mistaken for headers.
+ *
+ * @param text The diff text.
+ * @returns The files of the diff, in order.
+ */
+export function parsePatch(text: string): PatchFile[] {
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+  let gitStyle = false;
+  let currentHunk: PatchHunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+    // Inside a hunk: consume lines until both sides are complete
+    if (currentHunk && (oldRemaining > 0 || newRemaining > 0)) {
+      // Some tools strip the space of empty context lines
+      const hunkLine = line === '' ? ' ' : line;
+      const marker = hunkLine[0];
+      if (marker === ' ' || marker === '-' || marker === '+') {
+        currentHunk.lines.push(hunkLine);
+        if (marker !== '+') oldRemaining--;
+        if (marker !== '-') newRemaining--;
+        continue;
+      }
+      if (marker === '\\') {
+        // '\ No newline at end of file'
+        continue;
+      }
+      currentHunk = null;
+    }
+
+    if (line.startsWith('\\')) {
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      current = { oldPath: null, newPath: null, hunks: [] };
+      files.push(current);
+      gitStyle = true;
+      currentHunk = null;
+
+      // Fallback paths for entries without '---'/'+++' lines (pure renames, mode changes, empty files)
+      const match = /^diff --git ("a\/(?:[^"\\]|\\.)*"|a\/.+?) ("b\/(?:[^"\\]|\\.)*"|b\/.+)$/.exec(line);
+      if (match && match[1] && match[2]) {
+        current.oldPath = unquoteGitPath(match[1]).substring(2);
+        current.newPath = unquoteGitPath(match[2]).substring(2);
+      }
+      continue;
+    }
+
+    const hunkMatch = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunkMatch && current) {
+      currentHunk = {
+        oldStart: parseInt(hunkMatch[1] as string, 10),
+        oldLines: hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10),
+        newStart: parseInt(hunkMatch[3] as string, 10),
+        newLines: hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10),
+        lines: [],
+      };
+      oldRemaining = currentHunk.oldLines;
+      newRemaining = currentHunk.newLines;
+      current.hunks.push(currentHunk);
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      // A '---' line after hunks starts a new file of a plain (non-git) diff
+      if (!current || current.hunks.length > 0 || !gitStyle) {
+        current = { oldPath: null, newPath: null, hunks: [] };
+        files.push(current);
+        gitStyle = false;
+      }
+      current.oldPath = parseHeaderPath(line.substring(4), 'a/', gitStyle);
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith('+++ ')) {
+      current.newPath = parseHeaderPath(line.substring(4), 'b/', gitStyle);
+      // Plain diffs: strip the conventional prefixes when both sides use them
+      if (!gitStyle && current.oldPath?.startsWith('a/') && current.newPath?.startsWith('b/')) {
+        current.oldPath = current.oldPath.substring(2);
+        current.newPath = current.newPath.substring(2);
+      }
+    } else if (line.startsWith('rename from ')) {
+      current.oldPath = unquoteGitPath(line.substring('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      current.newPath = unquoteGitPath(line.substring('rename to '.length));
+    } else if (line.startsWith('new file mode')) {
+      current.oldPath = null;
+    } else if (line.startsWith('deleted file mode')) {
+      current.newPath = null;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Applies the hunks of a file to its content, forward (old -> new) or in
+ * reverse (new -> old). Each hunk is looked for at its recorded position
+ * first, then anywhere after the previous hunk. Lines are compared without
+ * their '\r' like the hunk lines (see parsePatch), and the result uses the
+ * line endings of the content ('\r\n' if it has any).
+ *
+ * @param content The content to apply the hunks to ('' for a file that does not exist).
+ * @param hunks The hunks of the file.
+ * @param reverse Whether to apply the hunks in reverse.
+ * @returns The resulting content, or null if a hunk does not match.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[], reverse: boolean): string | null {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content === '' ? [] : content.split('\n').map(line => line.endsWith('\r') ? line.slice(0, -1) : line);
+  const result: string[] = [];
+  let cursor = 0;
+
+  const sourceMarker = reverse ? '+' : '-';
+  const targetMarker = reverse ? '-' : '+';
+
+  for (const hunk of hunks) {
+    const source = hunk.lines.filter(l => l[0] === ' ' || l[0] === sourceMarker).map(l => l.substring(1));
+    const target = hunk.lines.filter(l => l[0] === ' ' || l[0] === targetMarker).map(l => l.substring(1));
+
+    // A hunk without source lines inserts after its start line
+    const start = reverse ? hunk.newStart : hunk.oldStart;
+    const expected = source.length === 0 ? start : start - 1;
+
+    const matchesAt = (position: number) =>
+      position >= cursor &&
+      position + source.length <= lines.length &&
+      source.every((sourceLine, i) => lines[position + i] === sourceLine);
+
+    let position = matchesAt(expected) ? expected : -1;
+    for (let candidate = cursor; position === -1 && candidate + source.length <= lines.length; candidate++) {
+      if (matchesAt(candidate)) {
+        position = candidate;
+      }
+    }
+    if (position === -1) {
+      return null;
+    }
+
+    result.push(...lines.slice(cursor, position), ...target);
+    cursor = position + source.length;
+  }
+
+  result.push(...lines.slice(cursor));
+  return result.join(eol);
+}
@@ -0,0 +1,402 @@
+/**
+ * Project model module.
+ *
+ * This module holds the single model of the project shared by the analysis
+ * steps: each source file is read and parsed once, its top-level entities,
+ * imports, endpoints, exports and class declarations are extracted once (or
+ * loaded from the on-disk cache if the file did not change, see
+ * core/analysis-cache), and the forward and reverse import graphs are built
+ * in one pass over the files, so the importers of a file are looked up rather
+ * than searched for. When every file is needed, the files that are not
+ * cached are parsed in parallel (see core/parse-pool).
+ *
+ * @module core/project-model
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { getProjectFiles } from '../utils/file-system';
+import { parseSourceFile, removeSourceExtension } from '../utils/source-files';
+import { AnalysisCache, hashContent } from './analysis-cache';
+import { ClassDeclarationInfo } from './class-hierarchy';
+import { ExportMap } from './export-map';
+import { analyzeSourceFile, FileAnalysis } from './file-analysis';
+import { EndpointInfo, NOT_AN_ENDPOINT } from './firebase-helpers';
+import { getAliasResolver } from './module-resolver';
+import { analyzeFiles, getDefaultJobs, ParseTask } from './parse-pool';
+import { FileFunctionsResult } from './types';
+
+/**
+ * Options of the project model.
+ */
+export interface ProjectModelOptions {
+  /** Whether parse results are read from and written to the on-disk cache (default true). */
+  cache?: boolean;
+  /** Maximum number of worker threads parsing files (default: the number of CPUs). */
+  jobs?: number;
+}
+
+/**
+ * The source files of a project as they exist in the working tree,
+ * with their entities and import graph, computed on demand.
+ *
+ * @class ProjectModel
+ */
+export class ProjectModel {
+  /** Project root directory path. */
+  public readonly root: string;
+  /** All source file paths in the project. */
+  public readonly files: string[];
+
+  /** The project files, for membership checks. */
+  private fileSet: Set<string>;
+  /** File contents keyed by absolute path (undefined for unreadable files). */
+  private contents: Map<string, string | undefined> = new Map();
+  /** Parsed sources keyed by absolute path (undefined for unreadable files). */
+  private sourceFiles: Map<string, ts.SourceFile | undefined> = new Map();
+  /** Parse results keyed by absolute path (undefined for unreadable files). */
+  private analyses: Map<string, FileAnalysis | undefined> = new Map();
+  /** Parse results of previous runs, or null if caching is disabled. */
+  private cache: AnalysisCache | null;
+  /** Maximum number of worker threads parsing files. */
+  private jobs: number;
+  /** Top-level entities keyed by absolute path. */
+  private entities: Map<string, FileFunctionsResult> = new Map();
+  /** Project files imported by each file, keyed by absolute path. */
+  private imports: Map<string, string[]> | null = null;
+  /** Project files importing each file, keyed by absolute path. */
+  private importers: Map<string, string[]> | null = null;
+  /** Project files importing each file for side effects only, keyed by absolute path. */
+  private sideEffectImporters: Map<string, string[]> | null = null;
+  /** Exported names of each file, resolved through re-exports. */
+  private exportMap: ExportMap | null = null;
+
+  /**
+   * Creates the model of the project of the current working directory.
+   * Files are read and parsed on first use.
+   *
+   * @param options Model options (e.g., whether the on-disk cache is used, number of parse jobs).
+   */
+  constructor(options: ProjectModelOptions = {}) {
+    const { projectRoot, allFiles } = getProjectFiles();
+    this.root = projectRoot;
+    this.files = allFiles;
+    this.fileSet = new Set(this.files);
+    this.cache = options.cache === false ? null : new AnalysisCache(this.root);
+    this.jobs = options.jobs ?? getDefaultJobs();
+  }
+
+  /**
+   * Checks whether a file is one of the project's source files.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns True if the file is analyzed.
+   */
+  public hasFile(filePath: string): boolean {
+    return this.fileSet.has(filePath);
+  }
+
+  /**
+   * Gets the full text content of a file, using a cache. Files outside the
+   * project are read (and cached) as well.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns File content, or undefined if the file cannot be read.
+   */
+  public readFile(filePath: string): string | undefined {
+    if (!this.contents.has(filePath)) {
+      let content: string | undefined;
+      try {
+        content = fs.readFileSync(filePath, 'utf8');
+      } catch (e) {
+        content = undefined;
+      }
+      this.contents.set(filePath, content);
+    }
+    return this.contents.get(filePath);
+  }
+
+  /**
+   * Gets the parsed source of a project file, using a cache.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns The parsed source, or undefined if the file is not a project file or cannot be read.
+   */
+  public getSourceFile(filePath: string): ts.SourceFile | undefined {
+    if (!this.fileSet.has(filePath)) {
+      return undefined;
+    }
+    if (!this.sourceFiles.has(filePath)) {
+      const content = this.readFile(filePath);
+      let sourceFile: ts.SourceFile | undefined;
+      try {
+        sourceFile = content === undefined ? undefined : parseSourceFile(filePath, content);
+      } catch (e) {
+        sourceFile = undefined;
+      }
+      this.sourceFiles.set(filePath, sourceFile);
+    }
+    return this.sourceFiles.get(filePath);
+  }
+
+  /**
+   * Gets the parse results of a project file: from the on-disk cache if the
+   * file's content did not change since they were stored, otherwise by parsing it.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns The parse results, or undefined if the file is not a project file or cannot be read.
+   */
+  private getAnalysis(filePath: string): FileAnalysis | undefined {
+    if (!this.fileSet.has(filePath)) {
+      return undefined;
+    }
+    if (!this.analyses.has(filePath)) {
+      const content = this.readFile(filePath);
+      let analysis: FileAnalysis | undefined;
+      if (content !== undefined) {
+        const hash = hashContent(content);
+        analysis = this.cache?.get(filePath, hash);
+        if (!analysis) {
+          const sourceFile = this.getSourceFile(filePath);
+          analysis = sourceFile ? analyzeSourceFile(filePath, sourceFile) : undefined;
+          if (analysis) {
+            this.cache?.set(filePath, hash, analysis);
+          }
+        }
+      }
+      this.analyses.set(filePath, analysis);
+    }
+    return this.analyses.get(filePath);
+  }
+
+  /**
+   * Gets the parse results of every project file not analyzed yet: cached
+   * results are used as is, the other files are parsed on the parse pool.
+   * Results are stored in file order, so the model (and the cache) end up
+   * the same whatever the number of jobs.
+   */
+  private analyzeAll(): void {
+    const tasks: ParseTask[] = [];
+    const hashes: string[] = [];
+    for (const filePath of this.files) {
+      if (this.analyses.has(filePath)) continue;
+      const content = this.readFile(filePath);
+      if (content === undefined) {
+        this.analyses.set(filePath, undefined);
+        continue;
+      }
+      const hash = hashContent(content);
+      const analysis = this.cache?.get(filePath, hash);
+      if (analysis) {
+        this.analyses.set(filePath, analysis);
+      } else {
+        tasks.push({ path: filePath, content });
+        hashes.push(hash);
+      }
+    }
+
+    analyzeFiles(tasks, this.jobs).forEach((analysis, index) => {
+      const filePath = (tasks[index] as ParseTask).path;
+      this.analyses.set(filePath, analysis);
+      if (analysis) {
+        this.cache?.set(filePath, hashes[index] as string, analysis);
+      }
+    });
+  }
+
+  /**
+   * Writes the parse results of this run to the on-disk cache, if caching is
+   * enabled and any file was parsed.
+   */
+  public saveCache(): void {
+    this.cache?.save(this.files);
+  }
+
+  /**
+   * Gets the top-level entities of a project file, using a cache.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns The file's entity map, or undefined if the file is not a project file.
+   */
+  public getEntities(filePath: string): FileFunctionsResult | undefined {
+    if (!this.fileSet.has(filePath)) {
+      return undefined;
+    }
+    let entityMap = this.entities.get(filePath);
+    if (!entityMap) {
+      const analysis = this.getAnalysis(filePath);
+      if (analysis) {
+        entityMap = { path: filePath, funcs: analysis.entities };
+      } else {
+        console.warn(`[FIRE-DIFF Warning] Could not read or parse file: ${filePath}. Skipping.`);
+        entityMap = { path: filePath, funcs: [] };
+      }
+      this.entities.set(filePath, entityMap);
+    }
+    return entityMap;
+  }
+
+  /**
+   * Gets the endpoint info of an entity of a project file.
+   *
+   * @param filePath Absolute path to the file.
+   * @param name The entity name.
+   * @returns The endpoint info ('isEndpoint' is false for other entities).
+   */
+  public getEndpointInfo(filePath: string, name: string): EndpointInfo {
+    return this.getAnalysis(filePath)?.endpoints.get(name) ?? NOT_AN_ENDPOINT;
+  }
+
+  /**
+   * Gets the top-level class and interface declarations of a project file.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns The declarations, with their base names.
+   */
+  public getClassDeclarations(filePath: string): ClassDeclarationInfo[] {
+    return this.getAnalysis(filePath)?.classes ?? [];
+  }
+
+  /**
+   * Gets the top-level entities of every project file, in file order.
+   *
+   * @returns The entity maps of all files.
+   */
+  public getAllEntities(): FileFunctionsResult[] {
+    this.analyzeAll();
+    return this.files.map(filePath => this.getEntities(filePath) as FileFunctionsResult);
+  }
+
+  /**
+   * Gets the export map of the project, built over the parsed project files.
+   *
+   * @returns The export map.
+   */
+  public getExportMap(): ExportMap {
+    if (!this.exportMap) {
+      this.exportMap = new ExportMap(this.root, filePath => this.getAnalysis(filePath)?.exports);
+    }
+    return this.exportMap;
+  }
+
+  /**
+   * Gets the project files a file imports or re-exports from.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns Absolute paths of the imported files.
+   */
+  public getImports(filePath: string): string[] {
+    return this.buildImportGraph().imports.get(filePath) ?? [];
+  }
+
+  /**
+   * Gets the project files importing or re-exporting a file.
+   *
+   * @param filePath Absolute path to the file.
+   * @returns Absolute paths of the importing files, in project file order.
+   */
+  public getImporters(filePath: string): string[] {
+    return this.buildImportGraph().importers.get(filePath) ?? [];
+  }
+
+  /**
+   * Gets the project files importing a file for side effects only
+   * ("import './init'", "require('./init')").
+   *
+   * @param filePath Absolute path to the file.
+   * @returns Absolute paths of the importing files, in project file order.
+   */
+  public getSideEffectImporters(filePath: string): string[] {
+    return this.buildImportGraph().sideEffectImporters.get(filePath) ?? [];
+  }
+
+  /**
+   * Builds the forward and reverse import graphs in one pass over the project
+   * files. Specifiers are matched like findFilesImportingTarget matches them:
+   * relative specifiers by extensionless path (a directory stands for its
+   * 'index' file), other specifiers through tsconfig path aliases and
+   * workspace packages.
+   *
+   * @returns The imported files, the importing files and the side-effect importing files of each file.
+   */
+  private buildImportGraph(): {
+    imports: Map<string, string[]>;
+    importers: Map<string, string[]>;
+    sideEffectImporters: Map<string, string[]>;
+  } {
+    if (this.imports && this.importers && this.sideEffectImporters) {
+      return { imports: this.imports, importers: this.importers, sideEffectImporters: this.sideEffectImporters };
+    }
+
+    // "src/db/user" -> "src/db/user.ts"; "src/db" -> "src/db/index.ts"
+    const filesByModulePath = new Map<string, string[]>();
+    const indexFilesByDirectory = new Map<string, string[]>();
+    const addFile = (files: Map<string, string[]>, key: string, filePath: string) => {
+      const existing = files.get(key);
+      if (existing) {
+        existing.push(filePath);
+      } else {
+        files.set(key, [filePath]);
+      }
+    };
+    for (const filePath of this.files) {
+      const modulePath = removeSourceExtension(filePath);
+      addFile(filesByModulePath, modulePath, filePath);
+      if (path.basename(modulePath) === 'index') {
+        addFile(indexFilesByDirectory, path.dirname(modulePath), filePath);
+      }
+    }
+
+    this.analyzeAll();
+    const resolveAlias = getAliasResolver(this.root);
+    const imports = new Map<string, string[]>();
+    const importers = new Map<string, string[]>();
+    const sideEffectImporters = new Map<string, string[]>();
+
+    const addImportedFiles = (importedFiles: Set<string>, specifier: string, filePath: string) => {
+      if (specifier.startsWith('.')) {
+        // "./user", "./user.js" (ESM style) and "./user.ts" all import "user.ts"
+        const modulePath = removeSourceExtension(path.resolve(path.dirname(filePath), specifier));
+        filesByModulePath.get(modulePath)?.forEach(importedFile => importedFiles.add(importedFile));
+        indexFilesByDirectory.get(modulePath)?.forEach(importedFile => importedFiles.add(importedFile));
+      } else {
+        // Aliased import (e.g., "@/services/user"): the file it resolves to
+        const aliasedPath = resolveAlias ? resolveAlias(specifier, filePath) : null;
+        if (aliasedPath) {
+          filesByModulePath.get(removeSourceExtension(aliasedPath))?.forEach(importedFile => importedFiles.add(importedFile));
+        }
+      }
+    };
+
+    for (const filePath of this.files) {
+      const analysis = this.getAnalysis(filePath);
+      if (!analysis) continue;
+
+      const importedFiles = new Set<string>();
+      for (const specifier of analysis.imports) {
+        addImportedFiles(importedFiles, specifier, filePath);
+      }
+      importedFiles.delete(filePath);
+
+      imports.set(filePath, Array.from(importedFiles));
+      for (const importedFile of importedFiles) {
+        addFile(importers, importedFile, filePath);
+      }
+
+      const sideEffectFiles = new Set<string>();
+      for (const specifier of analysis.sideEffectImports) {
+        addImportedFiles(sideEffectFiles, specifier, filePath);
+      }
+      sideEffectFiles.delete(filePath);
+      for (const importedFile of sideEffectFiles) {
+        addFile(sideEffectImporters, importedFile, filePath);
+      }
+    }
+
+    this.imports = imports;
+    this.importers = importers;
+    this.sideEffectImporters = sideEffectImporters;
+    return { imports, importers, sideEffectImporters };
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Snapshot manifest module.
+ *
+ * This module records the state of a project as content hashes (a normalized
+ * hash per top-level entity, and per endpoint a hash of its transitive
+ * dependency closure) and compares two such snapshots. Comparing hashes does
+ * not depend on git history, so a deployed state can be compared against the
+ * working tree regardless of rebases or squash-merges in between.
+ * Configuration files, lockfile resolutions and global options are recorded
+ * as well, and compared with the same rules as in 'analyze'.
+ *
+ * @module core/snapshot
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { FaeptsAnalyzer } from './analyzer';
+import { classifyConfigChange, ConfigFileLocation, fingerprintConfigFile } from './config-changes';
+import { normalizeEntities } from './entity-diff';
+import { findFilesImportingPackage } from './find-includes';
+import { getEntityBlock } from './find-top-functions';
+import { getGlobalOptionsCalls } from './firebase-helpers';
+import { describeResolutions } from './lockfile-diff';
+import { ConfigChange, EndpointListResult, SnapshotEndpoint, SnapshotManifest } from './types';
+import { findFirebaseConfig } from '../utils/file-system';
+
+/**
+ * Format version of the manifests written by this module.
+ */
+export const SNAPSHOT_MANIFEST_VERSION = 2;
+
+/**
+ * Key prefix of the lockfile resolutions of direct dependencies in
+ * dependency closures (e.g., "package-lock.json#lodash").
+ */
+const PACKAGE_KEY_PREFIX = 'package-lock.json#';
+
+/**
+ * Result of comparing a deployed snapshot with the current one.
+ */
+export interface SnapshotComparison {
+  /** Endpoints that are new or whose dependency closure changed. */
+  affected: SnapshotEndpoint[];
+  /** Endpoints of the deployed snapshot that no longer exist. */
+  removed: SnapshotEndpoint[];
+  /** Changed configuration files (every endpoint is affected). */
+  configChanges: ConfigChange[];
+  /** Versions whose global options changed (every endpoint of the version is affected). */
+  globalOptionsVersions: ('v1' | 'v2')[];
+}
+
+/**
+ * Hashes a string with SHA-256.
+ *
+ * @param content The string to hash.
+ * @returns The hex digest.
+ */
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Converts an absolute "{path}#{name}" key into a project-relative one.
+ *
+ * @param root The project root.
+ * @param filePath Absolute path of the file.
+ * @param fn The entity name.
+ * @returns The relative key (e.g., "src/utils/db.ts#getUser").
+ */
+function relativeKey(root: string, filePath: string, fn: string): string {
+  return `${path.relative(root, filePath).replace(/\\/g, '/')}#${fn}`;
+}
+
+/**
+ * Gets the directories the configuration files of a codebase are looked up
+ * from: firebase.json is the nearest one above the functions source directory.
+ *
+ * @param projectRoot The absolute path to the functions source directory.
+ * @returns The Firebase project root and the functions source directory.
+ */
+function getConfigFileLocation(projectRoot: string): ConfigFileLocation {
+  const firebaseRoot = findFirebaseConfig(projectRoot)?.firebaseRoot ?? path.dirname(projectRoot);
+  return { firebaseRoot, projectRoot };
+}
+
+/**
+ * Reads a file, returning undefined if it does not exist.
+ *
+ * @param filePath Absolute path of the file.
+ * @returns The file content, or undefined.
+ */
+function readOptionalFile(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Fingerprints the configuration files of a codebase (see
+ * fingerprintConfigFile): the files of the functions source directory
+ * handled by a rule, and firebase.json.
+ *
+ * @param location The Firebase project root and the functions source directory.
+ * @returns The fingerprints, keyed by path relative to the functions source directory.
+ */
+function fingerprintConfigFiles(location: ConfigFileLocation): Record<string, string> {
+  const config: Record<string, string> = {};
+  const firebaseConfigPath = path.join(location.firebaseRoot, 'firebase.json');
+  const filePaths = [
+    ...fs.readdirSync(location.projectRoot).sort().map(name => path.join(location.projectRoot, name)),
+    firebaseConfigPath,
+  ];
+
+  for (const filePath of filePaths) {
+    const relativePath = path.relative(location.projectRoot, filePath).replace(/\\/g, '/');
+    const content = readOptionalFile(filePath);
+    const fingerprint = content === undefined ? null : fingerprintConfigFile(relativePath, content, location);
+    if (fingerprint !== null) {
+      config[relativePath] = fingerprint;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Finds the entities that use an npm package: every entity of an importing
+ * file whose block references one of the imported bindings, or every entity
+ * of the file if the package is imported without a binding.
+ *
+ * @param analyzer The analyzer of the project.
+ * @param packageName The npm package name.
+ * @returns Relative keys of the entities using the package.
+ */
+function findPackageUsers(analyzer: FaeptsAnalyzer, packageName: string): string[] {
+  const users: string[] = [];
+  const imports = findFilesImportingPackage(packageName, analyzer.files, filePath => analyzer.model.readFile(filePath) ?? '');
+
+  for (const importInfo of imports) {
+    const entityMap = analyzer.model.getEntities(importInfo.path);
+    const content = analyzer.model.readFile(importInfo.path);
+    if (!entityMap || content === undefined) continue;
+
+    for (const entity of entityMap.funcs) {
+      const blockContent = getEntityBlock(content, entityMap.funcs, entity);
+      if (importInfo.unbound || importInfo.bindings.some(name => blockContent.includes(name))) {
+        users.push(relativeKey(analyzer.root, importInfo.path, entity.fn));
+      }
+    }
+  }
+
+  return users;
+}
+
+/**
+ * Takes a snapshot of the project: hashes every top-level entity (and every
+ * property of object literal constants) and the dependency closure of every endpoint.
+ *
+ * The dependency graph is built by running the analyzer from every entity,
+ * so a closure contains exactly the entities whose change would mark the
+ * endpoint as affected in 'analyze'. The closures of the entities using a
+ * direct dependency include its lockfile resolution.
+ *
+ * @param analyzer A fresh analyzer of the project.
+ * @param endpoints All endpoints of the project (from EndPointLister).
+ * @returns The snapshot manifest.
+ */
+export function createSnapshot(analyzer: FaeptsAnalyzer, endpoints: EndpointListResult[]): SnapshotManifest {
+  const entities: Record<string, string> = {};
+
+  for (const fileMap of analyzer.topEntities) {
+    const content = analyzer.model.readFile(fileMap.path);
+    if (content === undefined) {
+      console.warn(`[FIRE-DIFF Warning] Could not read file: ${fileMap.path}. Skipping.`);
+      continue;
+    }
+
+    const normalized = normalizeEntities(fileMap.path, content);
+    const names = new Set([...fileMap.funcs.map(entity => entity.fn), ...normalized.keys()]);
+    for (const name of names) {
+      entities[relativeKey(analyzer.root, fileMap.path, name)] = hash(normalized.get(name) ?? '');
+
+      // Reverse edges (entity -> dependents); property paths only reach the entities using them
+      analyzer.findAffectedFunctionsRecursive({ fn: name, path: fileMap.path });
+    }
+  }
+
+  // Forward edges (entity -> dependencies)
+  const dependencies = new Map<string, Set<string>>();
+  for (const result of analyzer.analysisChecklist.values()) {
+    const dependencyKey = relativeKey(analyzer.root, result.path, result.fn);
+    for (const dependent of result.result) {
+      const dependentKey = relativeKey(analyzer.root, dependent.path, dependent.fn);
+      if (!dependencies.has(dependentKey)) {
+        dependencies.set(dependentKey, new Set());
+      }
+      dependencies.get(dependentKey)?.add(dependencyKey);
+    }
+  }
+
+  // Entities using a direct dependency depend on its lockfile resolution
+  const resolutions = describeResolutions(readOptionalFile(path.join(analyzer.root, 'package-lock.json')));
+  const packages: Record<string, string> | null = resolutions ? {} : null;
+  const hashes: Record<string, string> = { ...entities };
+  for (const [name, resolution] of resolutions ?? []) {
+    const packageKey = `${PACKAGE_KEY_PREFIX}${name}`;
+    (packages as Record<string, string>)[name] = hash(resolution);
+    hashes[packageKey] = hash(resolution);
+    for (const userKey of findPackageUsers(analyzer, name)) {
+      if (!dependencies.has(userKey)) {
+        dependencies.set(userKey, new Set());
+      }
+      dependencies.get(userKey)?.add(packageKey);
+    }
+  }
+
+  const closureHash = (rootKeys: string[]): string => {
+    const closure = new Set<string>();
+    const queue = [...rootKeys];
+    while (queue.length > 0) {
+      const key = queue.shift() as string;
+      if (closure.has(key)) continue;
+      closure.add(key);
+      queue.push(...(dependencies.get(key) ?? []));
+    }
+
+    return hash(
+      Array.from(closure).sort().map(key => `${key}=${hashes[key] ?? ''}`).join('\n')
+    );
+  };
+
+  const snapshotEndpoints: SnapshotEndpoint[] = endpoints.map(endpoint => ({
+    path: endpoint.path.replace(/\\/g, '/'),
+    name: endpoint.name,
+    deployname: endpoint.deployname,
+    version: endpoint.version,
+    closureHash: closureHash([`${endpoint.path.replace(/\\/g, '/')}#${endpoint.name}`]),
+  }));
+
+  // setGlobalOptions(), onInit() and shared runWith() defaults configure every endpoint of their version
+  const globalOptionsCallers = { v1: [] as string[], v2: [] as string[] };
+  for (const fileMap of analyzer.topEntities) {
+    const content = analyzer.model.readFile(fileMap.path);
+    if (content === undefined) continue;
+    for (const [fn, calls] of getGlobalOptionsCalls(fileMap.path, content, fileMap.funcs)) {
+      for (const { version } of calls) {
+        globalOptionsCallers[version].push(relativeKey(analyzer.root, fileMap.path, fn));
+      }
+    }
+  }
+
+  return {
+    manifestVersion: SNAPSHOT_MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    entities,
+    endpoints: snapshotEndpoints,
+    config: fingerprintConfigFiles(getConfigFileLocation(analyzer.root)),
+    packages,
+    globalOptions: {
+      v1: closureHash(globalOptionsCallers.v1),
+      v2: closureHash(globalOptionsCallers.v2),
+    },
+  };
+}
+
+/**
+ * Reads and validates a snapshot manifest.
+ *
+ * @param manifestPath Path to the manifest file.
+ * @returns The manifest.
+ * @throws Error if the file cannot be read or is not a valid manifest.
+ */
+export function readSnapshot(manifestPath: string): SnapshotManifest {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (e) {
+    throw new Error(`Could not read snapshot manifest: ${manifestPath}`);
+  }
+
+  if (manifest?.manifestVersion !== SNAPSHOT_MANIFEST_VERSION) {
+    throw new Error(`Unsupported snapshot manifest version in ${manifestPath}. Take a new snapshot with "fire-diff snapshot".`);
+  }
+  if (!Array.isArray(manifest.endpoints) || typeof manifest.entities !== 'object' || manifest.entities === null ||
+      typeof manifest.config !== 'object' || manifest.config === null || typeof manifest.packages !== 'object' ||
+      typeof manifest.globalOptions?.v1 !== 'string' || typeof manifest.globalOptions?.v2 !== 'string') {
+    throw new Error(`Invalid snapshot manifest: ${manifestPath}`);
+  }
+
+  return manifest as SnapshotManifest;
+}
+
+/**
+ * Compares a deployed snapshot with the current one. Endpoints are matched
+ * by deployment name. Changed configuration files affect every endpoint and
+ * changed global options every endpoint of their version, as in 'analyze';
+ * lockfile changes are attributed per package when both lockfiles could be parsed.
+ *
+ * @param deployed The snapshot of the deployed state.
+ * @param current The snapshot of the working tree.
+ * @param projectRoot The absolute path to the functions source directory.
+ * @returns The affected and removed endpoints, and the reasons affecting every endpoint.
+ */
+export function compareSnapshots(deployed: SnapshotManifest, current: SnapshotManifest, projectRoot: string): SnapshotComparison {
+  const deployedByName = new Map(deployed.endpoints.map(endpoint => [endpoint.deployname, endpoint]));
+  const currentNames = new Set(current.endpoints.map(endpoint => endpoint.deployname));
+
+  const lockfileChanged = deployed.config['package-lock.json'] !== current.config['package-lock.json'];
+  const context = {
+    ...getConfigFileLocation(projectRoot),
+    lockfileAttributed: lockfileChanged && deployed.packages !== null && current.packages !== null,
+  };
+  const configChanges = [...new Set([...Object.keys(deployed.config), ...Object.keys(current.config)])]
+    .sort()
+    .map(relativePath => classifyConfigChange(relativePath, deployed.config[relativePath], current.config[relativePath], context))
+    .filter((change): change is ConfigChange => change !== null);
+
+  const globalOptionsVersions = (['v1', 'v2'] as const).filter(version => deployed.globalOptions[version] !== current.globalOptions[version]);
+
+  return {
+    affected: current.endpoints.filter(endpoint =>
+      configChanges.length > 0 ||
+      globalOptionsVersions.some(version => version === endpoint.version) ||
+      deployedByName.get(endpoint.deployname)?.closureHash !== endpoint.closureHash
+    ),
+    removed: deployed.endpoints.filter(endpoint => !currentNames.has(endpoint.deployname)),
+    configChanges,
+    globalOptionsVersions,
+  };
+}
@@ -0,0 +1,445 @@
+/**
+ * Symbol index module.
+ *
+ * This module builds a TypeScript program of the project and uses the type
+ * checker to resolve every identifier reference (and every string literal
+ * property access, 'CONFIG["limits"]') to the declaration of its symbol, following import aliases ('import { a as b }'), namespace imports
+ * ('utils.a') and re-exports. The result is a reverse index from each
+ * top-level entity to the entities that reference it, which is exact where
+ * name matching is not (shadowing, substrings, strings and comments).
+ *
+ * @module core/symbol-index
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import { findEntityAtPosition } from './find-top-functions';
+import { getAliasResolver } from './module-resolver';
+import { loadCompilerOptions } from '../utils/tsconfig';
+import { AnalysisSeed, FileFunctionsResult, TopLevelEntity } from './types';
+
+/**
+ * Module resolution extensions by source file extension.
+ */
+const EXTENSIONS: Record<string, ts.Extension> = {
+  '.ts': ts.Extension.Ts,
+  '.tsx': ts.Extension.Tsx,
+  '.mts': ts.Extension.Mts,
+  '.cts': ts.Extension.Cts,
+  '.js': ts.Extension.Js,
+  '.mjs': ts.Extension.Mjs,
+  '.cjs': ts.Extension.Cjs,
+};
+
+/**
+ * Gets the module resolution extension of a resolved file.
+ *
+ * @param filePath The resolved file path.
+ * @returns The extension (".ts" when not a known source extension).
+ */
+function getExtension(filePath: string): ts.Extension {
+  return EXTENSIONS[path.extname(filePath)] ?? ts.Extension.Ts;
+}
+
+/**
+ * Index of the references between top-level entities, built with the type checker.
+ *
+ * @class SymbolIndex
+ */
+export class SymbolIndex {
+  /** Top-level entities of each file, sorted by start, keyed by normalized path. */
+  private entitiesByFile: Map<string, TopLevelEntity[]> = new Map();
+  /**
+   * Referencing entities keyed by "{path}#{name}" of the referenced entity.
+   * Property paths of object literal constants and enums use "{path}#{OBJECT}.{PROPERTY}"
+   * (nested: "{path}#{OBJECT}.{PROPERTY}.{NESTED}"), and "{path}#{OBJECT}.*"
+   * (or "{path}#{OBJECT}.{PROPERTY}.*") collects uses of the whole value. Members of
+   * interfaces use "{path}#{INTERFACE}.{MEMBER}" in addition to the interface key.
+   */
+  private dependents: Map<string, Map<string, AnalysisSeed>> = new Map();
+  /** Declared property paths (e.g., "{path}#CONFIG.limits.maxPlayers"), used or not. */
+  private declaredProperties: Set<string> = new Set();
+  /** Declared classes, keyed by "{path}#{name}". */
+  private declaredClasses: Set<string> = new Set();
+  /** Resolves a module specifier of a file to the normalized path of the imported file. */
+  private resolveModule: (specifier: string, containingFile: string) => string | undefined;
+
+  /**
+   * Creates the index and resolves all references of the given files.
+   *
+   * @param projectRoot The absolute path to the project root (its tsconfig.json is used).
+   * @param topEntities Top-level entities of every analyzed file.
+   */
+  constructor(projectRoot: string, topEntities: FileFunctionsResult[]) {
+    for (const entityMap of topEntities) {
+      this.entitiesByFile.set(path.normalize(entityMap.path), entityMap.funcs);
+    }
+
+    const options: ts.CompilerOptions = {
+      ...(loadCompilerOptions(projectRoot) ?? {}),
+      // JavaScript sources are part of the project as well
+      allowJs: true,
+      noEmit: true,
+      skipLibCheck: true,
+    };
+
+    // Workspace packages are resolved to their sources instead of their build output
+    const resolveAlias = getAliasResolver(projectRoot);
+    const host = ts.createCompilerHost(options, true);
+    const resolveModuleName = (moduleName: string, containingFile: string): ts.ResolvedModuleFull | undefined => {
+      const aliasedPath = resolveAlias ? resolveAlias(moduleName, containingFile) : null;
+      if (aliasedPath) {
+        return { resolvedFileName: aliasedPath, extension: getExtension(aliasedPath), isExternalLibraryImport: false };
+      }
+      return ts.resolveModuleName(moduleName, containingFile, options, host).resolvedModule;
+    };
+    host.resolveModuleNames = (moduleNames, containingFile) => moduleNames.map(moduleName => resolveModuleName(moduleName, containingFile));
+    this.resolveModule = (specifier, containingFile) => {
+      const resolvedModule = resolveModuleName(specifier, containingFile);
+      return resolvedModule && !resolvedModule.isExternalLibraryImport ? path.normalize(resolvedModule.resolvedFileName) : undefined;
+    };
+
+    const program = ts.createProgram(topEntities.map(entityMap => entityMap.path), options, host);
+    const checker = program.getTypeChecker();
+
+    for (const entityMap of topEntities) {
+      const sourceFile = program.getSourceFile(entityMap.path);
+      if (sourceFile) {
+        this.indexFile(sourceFile, path.normalize(entityMap.path), checker);
+      }
+    }
+  }
+
+  /**
+   * Finds the top-level entity whose code contains a position.
+   *
+   * @param filePath Normalized path of the file.
+   * @param position Character position in the file.
+   * @param name Name declared at the position (see findEntityAtPosition).
+   * @returns The entity, or undefined if the position is outside of all entities.
+   */
+  private findEntityAt(filePath: string, position: number, name?: string): TopLevelEntity | undefined {
+    const entities = this.entitiesByFile.get(filePath);
+    return entities ? findEntityAtPosition(entities, position, name) : undefined;
+  }
+
+  /**
+   * Records that an entity references a target key.
+   *
+   * @param targetKey The referenced "{path}#{name}" key.
+   * @param dependents The referencing entities.
+   */
+  private addDependent(targetKey: string, dependents: AnalysisSeed[]): void {
+    let entries = this.dependents.get(targetKey);
+    if (!entries) {
+      entries = new Map();
+      this.dependents.set(targetKey, entries);
+    }
+    for (const dependent of dependents) {
+      entries.set(`${dependent.path}#${dependent.fn}`, dependent);
+    }
+  }
+
+  /**
+   * Gets the symbol an identifier (or a string literal accessing a property)
+   * refers to, following import and re-export aliases.
+   *
+   * @param identifier The identifier or string literal.
+   * @param checker The type checker.
+   * @returns The resolved symbol, or undefined.
+   */
+  private resolveSymbol(identifier: ts.Identifier | ts.StringLiteralLike, checker: ts.TypeChecker): ts.Symbol | undefined {
+    // '{ getUser }' refers to the variable, not to the property it creates
+    let symbol = ts.isShorthandPropertyAssignment(identifier.parent) && identifier.parent.name === identifier
+      ? checker.getShorthandAssignmentValueSymbol(identifier.parent)
+      : checker.getSymbolAtLocation(identifier);
+
+    // 'const { fmt } = require(...)' refers to the property it reads, not to the variable it declares
+    const bindingElement = identifier.parent;
+    if (ts.isBindingElement(bindingElement) && bindingElement.name === identifier && !bindingElement.propertyName &&
+        ts.isObjectBindingPattern(bindingElement.parent)) {
+      symbol = checker.getTypeAtLocation(bindingElement.parent).getProperty(identifier.text) ?? symbol;
+      // 'module.exports = { fmt }' exports the function, not a property of its own
+      const declaration = symbol?.valueDeclaration;
+      if (declaration && ts.isShorthandPropertyAssignment(declaration)) {
+        symbol = checker.getShorthandAssignmentValueSymbol(declaration) ?? symbol;
+      }
+    }
+
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    return symbol;
+  }
+
+  /**
+   * Gets the path of an object literal property or enum member within the
+   * declaration it belongs to (e.g., ["limits", "maxPlayers"] for 'maxPlayers'
+   * in 'export const CONFIG = { limits: { maxPlayers: 4 } } as const').
+   * Objects may be wrapped in 'as const', 'satisfies', parentheses or 'Object.freeze()'.
+   *
+   * @param declaration The property or enum member declaration.
+   * @returns The owning declaration (a variable, an enum or a class field)
+   *          and the property path, or undefined if the declaration is not
+   *          such a property.
+   */
+  private getPropertyPath(declaration: ts.Declaration): { owner: ts.NamedDeclaration; names: string[] } | undefined {
+    const getName = (name: ts.PropertyName | undefined) =>
+      name && (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) ? name.text : undefined;
+
+    if (ts.isEnumMember(declaration)) {
+      const memberName = getName(declaration.name);
+      return memberName === undefined ? undefined : { owner: declaration.parent, names: [memberName] };
+    }
+
+    const names: string[] = [];
+    let property: ts.Node = declaration;
+    while (true) {
+      if (!ts.isPropertyAssignment(property) && !ts.isShorthandPropertyAssignment(property) && !ts.isMethodDeclaration(property)) {
+        return undefined;
+      }
+      const propertyName = getName(property.name);
+      if (propertyName === undefined || !ts.isObjectLiteralExpression(property.parent)) {
+        return undefined;
+      }
+      names.unshift(propertyName);
+
+      let node: ts.Node = property.parent.parent;
+      while (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node) ||
+          ts.isTypeAssertionExpression(node) || (ts.isCallExpression(node) && node.expression.getText() === 'Object.freeze')) {
+        node = node.parent;
+      }
+
+      if (ts.isPropertyAssignment(node)) {
+        // Nested object: continue with the enclosing property
+        property = node;
+        continue;
+      }
+      if ((ts.isVariableDeclaration(node) && ts.isVariableStatement(node.parent.parent)) || ts.isPropertyDeclaration(node)) {
+        return { owner: node, names };
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether an identifier is the end of an access chain, i.e. its
+   * value is used as a whole ('CONFIG.limits' in 'f(CONFIG.limits)') rather
+   * than to access one of its properties ('CONFIG.limits.maxPlayers').
+   * A computed access ('CONFIG[key]') may read any property, so it is a whole use.
+   *
+   * @param identifier The identifier, or the string literal of an element access ('limits' in 'CONFIG["limits"]').
+   * @returns True if nothing is accessed on the identifier's value.
+   */
+  private isWholeValueUse(identifier: ts.Identifier | ts.StringLiteralLike): boolean {
+    const parentAccess = identifier.parent;
+    const access = (ts.isPropertyAccessExpression(parentAccess) && parentAccess.name === identifier) ||
+      (ts.isElementAccessExpression(parentAccess) && parentAccess.argumentExpression === identifier)
+      ? parentAccess
+      : identifier;
+    const parent = access.parent;
+    if (ts.isPropertyAccessExpression(parent) && parent.expression === access) {
+      return false;
+    }
+    return !(ts.isElementAccessExpression(parent) && parent.expression === access && ts.isStringLiteralLike(parent.argumentExpression));
+  }
+
+  /**
+   * Resolves the references of every identifier of a file and records them.
+   *
+   * @param sourceFile The source file from the program.
+   * @param filePath Normalized path of the file.
+   * @param checker The type checker.
+   */
+  private indexFile(sourceFile: ts.SourceFile, filePath: string, checker: ts.TypeChecker): void {
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node)) {
+        this.indexIdentifier(node, filePath, checker);
+      }
+      // CONFIG['limits'] accesses the property like CONFIG.limits
+      if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+        this.indexIdentifier(node.argumentExpression, filePath, checker);
+      }
+      if ((ts.isPropertyAssignment(node) || ts.isShorthandPropertyAssignment(node) || ts.isMethodDeclaration(node) || ts.isEnumMember(node))) {
+        this.indexPropertyDeclaration(node, filePath);
+      }
+      if (ts.isClassDeclaration(node) && node.name) {
+        this.declaredClasses.add(`${filePath}#${node.name.text}`);
+      }
+      if (ts.isBindingElement(node)) {
+        this.indexRequireBinding(node, filePath);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  /**
+   * Records the property path of an object literal property or enum member declaration.
+   *
+   * @param declaration The declaration.
+   * @param filePath Normalized path of its file.
+   */
+  private indexPropertyDeclaration(declaration: ts.Declaration, filePath: string): void {
+    const propertyPath = this.getPropertyPath(declaration);
+    const target = this.findEntityAt(filePath, declaration.getStart());
+    if (propertyPath && target) {
+      this.declaredProperties.add(`${filePath}#${target.fn}.${propertyPath.names.join('.')}`);
+    }
+  }
+
+  /**
+   * Records the reference of a name destructured from a CommonJS import
+   * ('const { fmt } = require("../legacy/fmt")'). The type checker does not
+   * resolve require() calls in TypeScript files, so the name is matched to
+   * the entity of the same name in the required file.
+   *
+   * @param element The binding element.
+   * @param filePath Normalized path of its file.
+   */
+  private indexRequireBinding(element: ts.BindingElement, filePath: string): void {
+    const declaration = element.parent.parent;
+    if (!ts.isObjectBindingPattern(element.parent) || !ts.isVariableDeclaration(declaration) ||
+        !declaration.initializer || !ts.isCallExpression(declaration.initializer)) {
+      return;
+    }
+    const call = declaration.initializer;
+    const specifier = call.arguments[0];
+    const importedName = element.propertyName ?? element.name;
+    if (!ts.isIdentifier(call.expression) || call.expression.text !== 'require' || !specifier || !ts.isStringLiteral(specifier) ||
+        !ts.isIdentifier(importedName) || !ts.isIdentifier(element.name)) {
+      return;
+    }
+
+    const requiredPath = this.resolveModule(specifier.text, filePath);
+    const dependentEntity = this.findEntityAt(filePath, element.getStart(), element.name.text);
+    if (!requiredPath || !dependentEntity) {
+      return;
+    }
+    if ((this.entitiesByFile.get(requiredPath) ?? []).some(entity => entity.fn === importedName.text)) {
+      this.addDependent(`${requiredPath}#${importedName.text}`, [{ fn: dependentEntity.fn, path: filePath }]);
+    }
+  }
+
+  /**
+   * Records the references of a single identifier, or of the string literal
+   * of an element access.
+   *
+   * @param identifier The identifier or string literal.
+   * @param filePath Normalized path of its file.
+   * @param checker The type checker.
+   */
+  private indexIdentifier(identifier: ts.Identifier | ts.StringLiteralLike, filePath: string, checker: ts.TypeChecker): void {
+    const dependentEntity = this.findEntityAt(filePath, identifier.getStart());
+    if (!dependentEntity) {
+      return;
+    }
+    // Entities declared by the same statement ('const { a, b } = factory()') share its references
+    const dependentEntities = (this.entitiesByFile.get(filePath) ?? []).filter(entity => entity === dependentEntity ||
+      (!dependentEntity.ranges && entity.start === dependentEntity.start && entity.end === dependentEntity.end));
+    const dependents: AnalysisSeed[] = dependentEntities.map(entity => ({ fn: entity.fn, path: filePath }));
+
+    const symbol = this.resolveSymbol(identifier, checker);
+    for (const declaration of symbol?.declarations ?? []) {
+      // A namespace import refers to the module itself; its members are resolved on their own
+      if (ts.isSourceFile(declaration) || (ts.isModuleDeclaration(declaration) && ts.isStringLiteral(declaration.name))) continue;
+
+      const declarationPath = path.normalize(declaration.getSourceFile().fileName);
+      const declarationName = ts.getNameOfDeclaration(declaration);
+      const target = this.findEntityAt(declarationPath, declaration.getStart(),
+        declarationName && ts.isIdentifier(declarationName) ? declarationName.text : undefined);
+      if (!target) continue;
+
+      // References to itself (recursion, locals, parameters)
+      if (declarationPath === filePath && dependentEntities.includes(target)) continue;
+
+      this.addDependent(`${declarationPath}#${target.fn}`, dependents);
+      const isWholeValueUse = this.isWholeValueUse(identifier);
+
+      // A property of an object literal constant, enum or static object field
+      // (e.g., KEYS.B, CONFIG.limits.maxPlayers, Status.Active, Config.LIMITS.max)
+      const propertyPath = this.getPropertyPath(declaration);
+      const ownerName = propertyPath?.owner.name && ts.isIdentifier(propertyPath.owner.name) ? propertyPath.owner.name.text : undefined;
+      if (propertyPath && ownerName !== undefined && (target.fn === ownerName || target.fn.endsWith(`.${ownerName}`))) {
+        const propertyKey = `${declarationPath}#${target.fn}.${propertyPath.names.join('.')}`;
+        this.addDependent(propertyKey, dependents);
+        // Only a whole use affects the changes of the properties nested in it
+        if (isWholeValueUse) {
+          this.addDependent(`${propertyKey}.*`, dependents);
+        }
+      }
+
+      // A member of an interface (e.g., Repo.save), called through the interface type
+      const parent = declaration.parent;
+      if (parent && ts.isInterfaceDeclaration(parent) && parent.name.text === target.fn &&
+          (ts.isMethodSignature(declaration) || ts.isPropertySignature(declaration)) && ts.isIdentifier(declaration.name)) {
+        this.addDependent(`${declarationPath}#${target.fn}.${declaration.name.text}`, dependents);
+      }
+
+      // The whole object constant, enum or static field is used (e.g., Object.values(KEYS)), not one of its properties
+      const isObjectDeclaration = ts.isVariableDeclaration(declaration) || ts.isEnumDeclaration(declaration) || ts.isPropertyDeclaration(declaration);
+      if (isObjectDeclaration && isWholeValueUse) {
+        this.addDependent(`${declarationPath}#${target.fn}.*`, dependents);
+      }
+    }
+  }
+
+  /**
+   * Checks whether a seed is declared in the indexed program.
+   * Seeds that no longer exist (deleted entities and properties) cannot be resolved.
+   *
+   * @param seed The changed entity (or "OBJECT.PROPERTY" path).
+   * @returns True if its references are known.
+   */
+  public hasEntity(seed: AnalysisSeed): boolean {
+    const filePath = path.normalize(seed.path);
+    const entities = this.entitiesByFile.get(filePath) ?? [];
+    if (entities.some(entity => entity.fn === seed.fn)) {
+      return true;
+    }
+    // Members inherited from a base class resolve to the base class member
+    const segments = seed.fn.split('.');
+    if (segments.length === 2 && this.declaredClasses.has(`${filePath}#${segments[0]}`)) {
+      return true;
+    }
+    // Property paths (class members are entities of their own)
+    return segments.length > 1 && this.declaredProperties.has(`${filePath}#${seed.fn}`) &&
+      entities.some(entity => entity.fn === segments[0]);
+  }
+
+  /**
+   * Gets the entities that reference a seed. For a property path, these are
+   * the entities using that property, a property nested in it, or one of
+   * the objects containing it as a whole.
+   *
+   * @param seed The changed entity (or "OBJECT.PROPERTY" path).
+   * @returns The referencing entities.
+   */
+  public getDependents(seed: AnalysisSeed): AnalysisSeed[] {
+    const filePath = path.normalize(seed.path);
+    const seedKey = `${filePath}#${seed.fn}`;
+    const keys = [seedKey];
+
+    // Whole uses of the enclosing objects (CONFIG.*, CONFIG.limits.* for CONFIG.limits.maxPlayers)
+    const segments = seed.fn.split('.');
+    for (let i = 1; i < segments.length; i++) {
+      keys.push(`${filePath}#${segments.slice(0, i).join('.')}.*`);
+    }
+    // Uses of nested properties (CONFIG.limits.maxPlayers for CONFIG.limits)
+    if (segments.length > 1) {
+      for (const key of this.dependents.keys()) {
+        if (key.startsWith(`${seedKey}.`)) {
+          keys.push(key);
+        }
+      }
+    }
+
+    const dependents = new Map<string, AnalysisSeed>();
+    for (const key of keys) {
+      for (const [dependentKey, dependent] of this.dependents.get(key) ?? []) {
+        dependents.set(dependentKey, dependent);
+      }
+    }
+    return Array.from(dependents.values());
+  }
+}
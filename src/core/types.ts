@@ -11,7 +11,12 @@
  * Represents a seed entity (function, class, etc.) used as a starting point for analysis.
  */
 export interface AnalysisSeed {
-    /** The name of the function, class, or entity. */
+    /**
+     * The name of the function, class, or entity. Class members are qualified
+     * with the class name (e.g., "UserRepo.save"); other dotted names are
+     * property paths of object literal constants and enums (e.g., "KEYS.CREATOR",
+     * "CONFIG.limits.maxPlayers" or "Status.Active").
+     */
     fn: string;
     /** The absolute path to the file containing this entity. */
     path: string;
@@ -37,10 +42,17 @@ export interface AnalysisResult {
  * Represents a top-level entity found in a TypeScript file.
  */
 export interface TopLevelEntity {
-    /** The name of the entity. */
+    /** The name of the entity. Class members are qualified with the class name (e.g., "UserRepo.save"). */
     fn: string;
     /** The character position where this entity starts in the file. */
     start: number;
+    /** The character position where this entity ends in the file (exclusive). */
+    end: number;
+    /**
+     * For the synthetic module init entity only: the ranges of the top-level
+     * statements it is made of (see core/find-top-functions).
+     */
+    ranges?: { start: number; end: number }[];
 }
 
 /**
@@ -68,4 +80,216 @@ export interface EndpointListResult {
     kind: string | null;
     /** The function version (e.g., "v1" or "v2"). */
     version: 'v1' | 'v2' | null;
-}
\ No newline at end of file
+}
+
+/**
+ * Options of the dependency analysis.
+ */
+export interface AnalyzerOptions {
+    /**
+     * Resolve references with the TypeScript type checker instead of matching
+     * entity names in the source text (slower, but exact).
+     */
+    symbolAccurate?: boolean;
+    /**
+     * Stop the propagation at type-only edges (dependents using an entity in
+     * type positions only), so type-level changes do not affect endpoints at runtime.
+     */
+    runtimeOnly?: boolean;
+    /**
+     * Reuse the parse results of unchanged files from the on-disk cache
+     * (see core/analysis-cache) and store those of the parsed files (default true).
+     */
+    cache?: boolean;
+    /**
+     * Maximum number of worker threads parsing files (default: the number of
+     * CPUs, see core/parse-pool).
+     */
+    jobs?: number;
+}
+
+/**
+ * Options that control which revisions are compared when looking for changes.
+ */
+export interface GitDiffOptions {
+    /** Base ref (e.g., "origin/main"). The diff starts at the merge-base of base and head. */
+    base?: string;
+    /** Head ref (e.g., "HEAD"). When omitted, the working tree is compared. */
+    head?: string;
+    /** Tag pattern (e.g., "v*"). The most recent matching tag reachable from the parent of head is used as base. */
+    sinceTag?: string;
+    /** Compare the index (staged changes) instead of the working tree, reading files as ':path'. */
+    staged?: boolean;
+    /** If the base cannot be resolved (e.g., shallow clone), treat every endpoint as affected instead of failing. */
+    fallbackToAll?: boolean;
+    /**
+     * A unified diff to analyze instead of invoking git. The working tree may
+     * contain the patch already applied or not applied yet.
+     */
+    patch?: string;
+}
+
+/**
+ * Represents an endpoint whose file was renamed or moved between the compared revisions.
+ */
+export interface MovedEndpoint {
+    /** The name of the endpoint. */
+    fn: string;
+    /** The absolute path of the file at the base revision. */
+    oldPath: string;
+    /** The absolute path of the file at the head revision. */
+    newPath: string;
+    /** The Firebase Functions version ('v1' or 'v2'). */
+    version?: 'v1' | 'v2' | null;
+}
+
+/**
+ * A functions entry of firebase.json (the keys the analysis reads; other
+ * keys such as 'runtime' or 'ignore' are compared as they are).
+ */
+export interface FirebaseFunctionsConfig {
+    /** The functions source directory, relative to the Firebase project root (e.g., "functions" or "apps/functions"). */
+    source?: string;
+    /** The codebase name (multiple codebases). */
+    codebase?: string;
+    /** The compiled entry file, relative to the source directory (e.g., "lib/index.js"). */
+    main?: string;
+    /** Other keys (runtime, region, ignore, predeploy, ...). */
+    [key: string]: unknown;
+}
+
+/**
+ * The parts of firebase.json read by the analysis.
+ */
+export interface FirebaseConfig {
+    /** A single functions entry, or one entry per codebase. */
+    functions?: FirebaseFunctionsConfig | FirebaseFunctionsConfig[];
+}
+
+/**
+ * Represents a change to a non-TypeScript file that affects deployed functions
+ * (e.g., package.json, tsconfig.json, .env files, firebase.json).
+ */
+export interface ConfigChange {
+    /** The path of the changed file, relative to the project root (e.g., "package.json"). */
+    path: string;
+    /**
+     * The scope of the change:
+     * - 'codebase': every function of the codebase is affected.
+     * - 'project': every function is affected when deploying to a specific project.
+     */
+    scope: 'codebase' | 'project';
+    /** The Firebase project id or alias for 'project' scope, otherwise null. */
+    project: string | null;
+    /** Human-readable reason (e.g., "dependencies changed"). */
+    reason: string;
+}
+
+/**
+ * Represents a changed global configuration call site (setGlobalOptions(),
+ * onInit(), or a shared functions.runWith() default), which affects every
+ * endpoint of its Firebase Functions version.
+ */
+export interface GlobalOptionsChange {
+    /** The absolute path of the file containing the call. */
+    path: string;
+    /** The name of the entity containing the call (e.g., "(module init)"). */
+    fn: string;
+    /** The called function (e.g., "setGlobalOptions" or "functions.runWith"). */
+    call: string;
+    /** The Firebase Functions version whose endpoints are affected. */
+    version: 'v1' | 'v2';
+}
+
+/**
+ * Represents a direct npm dependency whose installed version, or the
+ * resolution of a package in its dependency tree, changed in the lockfile.
+ */
+export interface PackageChange {
+    /** The package name (e.g., "lodash"). */
+    name: string;
+    /** The installed version at base, or null if the package was added. */
+    from: string | null;
+    /** The installed version at head, or null if the package was removed. */
+    to: string | null;
+    /** Changes of transitive packages (e.g., "ms 2.1.2 -> 2.1.3"). */
+    transitive: string[];
+    /** Entities that reference the package's imported bindings. */
+    seeds: AnalysisSeed[];
+}
+
+/**
+ * Represents how a top-level entity changed between two versions of a file,
+ * decided by comparing normalized ASTs.
+ */
+export interface EntityChange {
+    /** The name of the entity. */
+    fn: string;
+    /** The change status of the entity. */
+    status: 'added' | 'modified' | 'deleted' | 'unchanged';
+    /**
+     * For object literal constants, enums and static object fields where only
+     * properties changed, the paths of the changed properties (e.g., ["CREATOR"],
+     * ["limits.maxPlayers"] or ["Active"]); otherwise null.
+     */
+    changedProperties: string[] | null;
+    /**
+     * Whether the change leaves the emitted JavaScript unchanged: the entity
+     * is a type declaration (interface, type alias, 'declare'), or only its
+     * type annotations or type-only imports changed.
+     */
+    typeOnly: boolean;
+}
+
+/**
+ * An endpoint recorded in a snapshot manifest.
+ */
+export interface SnapshotEndpoint {
+    /** The path to the file, relative to the project root (e.g., "src/index.ts"). */
+    path: string;
+    /** The original name of the entity in the source code. */
+    name: string;
+    /** The deployment name (e.g., "gf-getGame"). */
+    deployname: string;
+    /** The function version ('v1' or 'v2'). */
+    version: 'v1' | 'v2' | null;
+    /** Hash of the endpoint and every entity it transitively depends on. */
+    closureHash: string;
+}
+
+/**
+ * A content-hash manifest of the project written by 'fire-diff snapshot',
+ * used to compare a deployed state against the working tree without git.
+ */
+export interface SnapshotManifest {
+    /** Format version of the manifest. */
+    manifestVersion: number;
+    /** ISO timestamp of when the snapshot was taken. */
+    createdAt: string;
+    /**
+     * Normalized content hash of every top-level entity, keyed by "{path}#{name}".
+     * Properties of object literal constants are keyed by "{path}#{name}.{property}".
+     */
+    entities: Record<string, string>;
+    /** Every endpoint with the hash of its dependency closure. */
+    endpoints: SnapshotEndpoint[];
+    /**
+     * Fingerprints of the configuration files of the codebase, keyed by path
+     * relative to the project root (e.g., "package.json", ".env.prod" or
+     * "../firebase.json"): the parts their rules compare, with values hashed
+     * (see core/config-changes).
+     */
+    config: Record<string, string>;
+    /**
+     * Hash of the lockfile resolution of each direct dependency, keyed by
+     * package name, or null if package-lock.json cannot be parsed. Closures of
+     * the entities using a package include its resolution.
+     */
+    packages: Record<string, string> | null;
+    /**
+     * Hash of the global options call sites (setGlobalOptions(), onInit(),
+     * shared functions.runWith() defaults) of each version and of every
+     * entity they depend on.
+     */
+    globalOptions: { v1: string; v2: string };
+}
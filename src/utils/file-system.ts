@@ -1,8 +1,9 @@
 /**
  * File system utilities module.
  * 
- * This module provides utilities for finding and processing TypeScript files
- * in the project, including path normalization and file discovery.
+ * This module provides utilities for finding and processing the TypeScript
+ * and JavaScript source files of the project, including path normalization
+ * and file discovery.
  * 
  * @module utils/file-system
  */
@@ -10,18 +11,57 @@
 import { globSync } from 'glob';
 import path from 'path';
 import fs from 'fs';
+import { getWorkspacePackages } from './workspaces';
+import { loadCompilerOptions } from './tsconfig';
+import { resolveSourceFile, SOURCE_EXTENSIONS } from './source-files';
+import { FirebaseConfig, FirebaseFunctionsConfig } from '../core/types';
+
+/**
+ * Output directories by project root (see getOutputDirectory).
+ */
+const outputDirectoryCache = new Map<string, string | null>();
+
+/**
+ * Entry files by project root (see findEntryFile).
+ */
+const entryFileCache = new Map<string, string>();
+
+/**
+ * Gets the directory the TypeScript sources of a project are compiled to
+ * (tsconfig 'outDir', e.g., "lib" in the Firebase template), whose JavaScript
+ * files are build output rather than sources.
+ *
+ * @param projectPath The absolute path to the root of the project.
+ * @returns The output directory relative to the project root (with '/'
+ *          separators), or null if it is not set or outside of the project.
+ */
+export function getOutputDirectory(projectPath: string): string | null {
+  const cached = outputDirectoryCache.get(projectPath);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const outDir = loadCompilerOptions(projectPath)?.outDir;
+  const relativeOutDir = outDir ? path.relative(projectPath, outDir).replace(/\\/g, '/') : '';
+  const outputDirectory = relativeOutDir === '' || relativeOutDir.startsWith('..') || path.isAbsolute(relativeOutDir)
+    ? null
+    : relativeOutDir;
+  outputDirectoryCache.set(projectPath, outputDirectory);
+  return outputDirectory;
+}
 
 /**
  * (Internal Worker Function)
- * Finds all .ts source files in a given project directory,
- * respecting common ignore patterns.
+ * Finds all TypeScript and JavaScript source files in a given project
+ * directory, respecting common ignore patterns and the tsconfig 'outDir'
+ * (so the compiled output of the sources is not scanned as well).
  *
  * @param projectPath The absolute path to the root of the project to scan.
  * @returns An array of absolute file paths (string[]).
  */
 function getSourceFiles(projectPath: string): string[] {
-  // Pattern to find all TypeScript files
-  const tsFilePattern = path.join(projectPath, '**/*.ts');
+  // Pattern to find all source files
+  const sourceFilePattern = `**/*.{${SOURCE_EXTENSIONS.map(ext => ext.substring(1)).join(',')}}`;
 
   // Patterns to ignore common build, dependency, and test directories/files
   // Use **/ pattern to ignore at any directory level
@@ -29,11 +69,19 @@ function getSourceFiles(projectPath: string): string[] {
     '**/node_modules/**',  // Ignore dependencies at any level
     '**/dist/**',          // Ignore built output at any level
     '**/src/__tests__/**', // Ignore __tests__ directory at any level
-    '**/*.test.ts',       // Ignore files ending in .test.ts
-    '**/*.spec.ts',       // Ignore files ending in .spec.ts
+    '**/*.test.*',         // Ignore files ending in .test.ts, .test.js, ...
+    '**/*.spec.*',         // Ignore files ending in .spec.ts, .spec.js, ...
+    '**/*.d.{ts,mts,cts}', // Ignore declaration files
   ];
 
-  const allFiles = globSync(tsFilePattern, {
+  // Compiled output (e.g., "lib" in the Firebase template)
+  const outputDirectory = getOutputDirectory(projectPath);
+  if (outputDirectory !== null) {
+    ignorePattern.push(`${outputDirectory}/**`);
+  }
+
+  const allFiles = globSync(sourceFilePattern, {
+    cwd: projectPath,
     ignore: ignorePattern,
     absolute: true,
   });
@@ -42,13 +90,14 @@ function getSourceFiles(projectPath: string): string[] {
 }
 
 /**
- * Finds firebase.json file starting from the current working directory
- * and searching upward in the directory tree.
+ * Finds firebase.json file starting from a directory (the current working
+ * directory by default) and searching upward in the directory tree.
  *
+ * @param startDirectory The absolute path of the directory to start from.
  * @returns An object with configPath and firebaseRoot, or null if not found.
  */
-function findFirebaseConfig(): { configPath: string; firebaseRoot: string } | null {
-  let currentDir = process.cwd();
+export function findFirebaseConfig(startDirectory: string = process.cwd()): { configPath: string; firebaseRoot: string } | null {
+  let currentDir = startDirectory;
   const root = path.parse(currentDir).root;
 
   while (currentDir !== root) {
@@ -65,6 +114,74 @@ function findFirebaseConfig(): { configPath: string; firebaseRoot: string } | nu
   return null;
 }
 
+/**
+ * Finds the functions entry of firebase.json for a functions source directory.
+ * Entries are matched by resolving their 'source' against the Firebase project
+ * root, so sources nested deeper (e.g., "apps/functions") are found as well.
+ *
+ * @param firebaseConfig The parsed firebase.json (undefined if missing or invalid).
+ * @param firebaseRoot The absolute path to the Firebase project root.
+ * @param projectRoot The absolute path to the functions source directory.
+ * @returns The functions entry, or undefined.
+ */
+export function getFunctionsConfig(
+  firebaseConfig: FirebaseConfig | undefined,
+  firebaseRoot: string,
+  projectRoot: string
+): FirebaseFunctionsConfig | undefined {
+  const functions = firebaseConfig?.functions;
+  if (Array.isArray(functions)) {
+    return functions.find(entry =>
+      typeof entry.source === 'string' && path.resolve(firebaseRoot, entry.source) === path.resolve(projectRoot));
+  }
+  return functions;
+}
+
+/**
+ * Finds the entry file of a functions source directory: the 'main' of its
+ * firebase.json entry, converted back to its source path (e.g., "lib/index.js"
+ * -> "src/index.ts"), or "src/index.ts" if firebase.json does not name one.
+ *
+ * @param projectRoot The absolute path to the functions source directory.
+ * @returns Absolute path to the entry source file.
+ */
+export function findEntryFile(projectRoot: string): string {
+  const cached = entryFileCache.get(projectRoot);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const defaultIndexPath = resolveSourceFile(path.join(projectRoot, 'src/index')) ??
+    resolveSourceFile(path.join(projectRoot, 'index')) ??
+    path.join(projectRoot, 'src/index.ts');
+
+  let entryFile = defaultIndexPath;
+  const configInfo = findFirebaseConfig(projectRoot);
+  try {
+    if (!configInfo) {
+      throw new Error('firebase.json not found');
+    }
+    const firebaseConfig: FirebaseConfig = JSON.parse(fs.readFileSync(configInfo.configPath, 'utf8'));
+    const mainJsPath = getFunctionsConfig(firebaseConfig, configInfo.firebaseRoot, projectRoot)?.main;
+
+    if (typeof mainJsPath === 'string' && mainJsPath !== '') {
+      // "lib/index.js" -> "src/index.ts" (or the JavaScript entry file itself)
+      const mainSourcePath = mainJsPath
+        .replace(/^lib\//, 'src/')
+        .replace(/^dist\//, 'src/');
+
+      entryFile = resolveSourceFile(path.join(projectRoot, mainSourcePath)) ??
+        resolveSourceFile(path.join(projectRoot, mainJsPath)) ??
+        path.join(projectRoot, mainSourcePath.replace(/\.js$/, '.ts'));
+    }
+  } catch (e) {
+    console.warn(`[FIRE-DIFF Warning] Could not read firebase.json. Assuming 'src/index.ts'.`);
+  }
+
+  entryFileCache.set(projectRoot, entryFile);
+  return entryFile;
+}
+
 /**
  * Extracts function source directories from firebase.json configuration.
  *
@@ -98,12 +215,13 @@ function getFunctionsSources(firebaseConfig: any, firebaseRoot: string): string[
 
 /**
  * Gets the project's absolute root path ("World") AND a list of all
- * .ts files within that world.
+ * source files within that world.
  *
  * The function first tries to find firebase.json to determine function
  * source directories. If found and contains multiple function sources,
  * it scans each one separately. Otherwise, it uses the current working
- * directory as the project root.
+ * directory as the project root. The sources of the workspace packages the
+ * functions depend on (see utils/workspaces) are scanned as well.
  *
  * @returns An object: { projectRoot: string, allFiles: string[] }
  */
@@ -130,7 +248,13 @@ export function getProjectFiles(): { projectRoot: string; allFiles: string[] } {
         // or use firebaseRoot if no sources found
         const projectRoot = functionSources[0] || configInfo.firebaseRoot;
 
-        return { projectRoot, allFiles };
+        // Workspace packages the functions depend on (monorepos)
+        const packageRoots = new Set(functionSources.flatMap(sourcePath => getWorkspacePackages(sourcePath).map(pkg => pkg.root)));
+        for (const packageRoot of packageRoots) {
+          allFiles.push(...getSourceFiles(packageRoot));
+        }
+
+        return { projectRoot, allFiles: [...new Set(allFiles)] };
       }
     } catch (e) {
       // If parsing fails, fall through to default behavior
@@ -140,6 +264,9 @@ export function getProjectFiles(): { projectRoot: string; allFiles: string[] } {
   // Default behavior: use current working directory
   const projectRoot = process.cwd();
   const allFiles = getSourceFiles(projectRoot);
+  for (const pkg of getWorkspacePackages(projectRoot)) {
+    allFiles.push(...getSourceFiles(pkg.root));
+  }
 
   return { projectRoot, allFiles };
 }
@@ -7,11 +7,64 @@
  * @module utils/git-analyzer
  */
 
-import { execSync } from 'child_process';
+import { execFileSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import { AnalysisSeed, FileFunctionsResult, TopLevelEntity } from '../core/types';
-import { fileTopFunctions } from '../core/find-top-functions';
+import { AnalysisSeed, ConfigChange, FileFunctionsResult, GitDiffOptions, MovedEndpoint, PackageChange } from '../core/types';
+import { CONFIG_FILE_PATHSPECS, classifyConfigChange } from '../core/config-changes';
+import { findFilesImportingPackage, findFilesImportingTarget } from '../core/find-includes';
+import { diffEntities } from '../core/entity-diff';
+import { applyHunks, parsePatch } from '../core/patch';
+import { diffLockfiles } from '../core/lockfile-diff';
+import { fileTopFunctions, getEntityBlock, MODULE_INIT_ENTITY } from '../core/find-top-functions';
+import { getEndpointInfo } from '../core/firebase-helpers';
+import { ProjectModel } from '../core/project-model';
+import { getWorkspacePackages } from './workspaces';
+import { findFirebaseConfig, getOutputDirectory } from './file-system';
+import { isSourceFilePath, SOURCE_EXTENSIONS } from './source-files';
+
+/**
+ * Pathspecs limiting the diff to TypeScript and JavaScript sources, excluding
+ * tests and declaration files. Relative to a source root (see GitChangeAnalyzer.getSourcePathspecs).
+ */
+const SOURCE_PATHSPECS = [
+  ...SOURCE_EXTENSIONS.map(extension => `*${extension}`),
+  ':(exclude)src/__tests__', ':(exclude)*.test.*', ':(exclude)*.spec.*',
+  ':(exclude)*.d.ts', ':(exclude)*.d.mts', ':(exclude)*.d.cts',
+];
+
+/**
+ * The pair of revisions being compared.
+ */
+interface DiffRange {
+  /** The commit the diff starts from (merge-base of base and head). */
+  from: string;
+  /**
+   * The head ref, '' for the index (staged changes, read as ':path'),
+   * or null when comparing against the working tree.
+   */
+  to: string | null;
+}
+
+/**
+ * A file entry of the diff, built from its header lines.
+ */
+interface DiffFile {
+  /** Absolute path of the file at the base revision, or null if the file was added. */
+  oldPath: string | null;
+  /** Absolute path of the file at the head revision, or null if the file was deleted. */
+  newPath: string | null;
+}
+
+/**
+ * Content of a file changed by a patch, on both sides.
+ */
+interface PatchContent {
+  /** The file content before the patch, or undefined if the file did not exist. */
+  base: string | undefined;
+  /** The file content after the patch, or undefined if the file was deleted. */
+  head: string | undefined;
+}
 
 /**
  * Analyzes 'git diff' output against the pre-built entity map
@@ -20,30 +73,268 @@ import { fileTopFunctions } from '../core/find-top-functions';
  * @class GitChangeAnalyzer
  */
 export class GitChangeAnalyzer {
-  /** Map of file paths to their top-level entities. */
-  private topEntitiesMap: Map<string, FileFunctionsResult>;
+  /** The working tree's files, entities and content cache (shared with FaeptsAnalyzer). */
+  private model: ProjectModel;
   /** Project root directory path. */
   private projectRoot: string;
-  /** File content cache to avoid repeated file system reads. */
+  /**
+   * Directories whose TypeScript sources are analyzed: the project root and
+   * the workspace packages it depends on (see utils/workspaces).
+   */
+  private sourceRoots: string[];
+  /** Absolute path of the git working tree root, resolved on first use. */
+  private repositoryRoot: string | null = null;
+  /** File content cache for the head ref and the patch (the model caches the working tree). */
   private fileContentCache: Map<string, string> = new Map();
+  /** Options selecting the revisions to compare. */
+  private options: GitDiffOptions;
+  /** The head ref whose content is analyzed ('' for the index), or null for the working tree. */
+  private headRef: string | null = null;
+  /** Entity maps parsed from file content at the head ref. */
+  private headEntitiesMap: Map<string, FileFunctionsResult> = new Map();
+  /** The commit the diff starts from, or null before the diff is run. */
+  private baseRef: string | null = null;
+  /**
+   * Contents of the files changed by the patch (see GitDiffOptions.patch),
+   * keyed by absolute path. Null when git is used.
+   */
+  private patchContents: Map<string, PatchContent> | null = null;
+  /**
+   * Whether the working tree holds the original version of the patched files
+   * (the patch is not applied yet). Only meaningful with a patch.
+   */
+  public workingTreeIsBase = false;
+
+  /**
+   * True when the base revision could not be resolved and the caller opted in
+   * to treating every endpoint as affected (see GitDiffOptions.fallbackToAll).
+   */
+  public everythingAffected: boolean = false;
+
+  /**
+   * Endpoints that existed at the base revision but were deleted
+   * (either the entity or its whole file). Filled by getChangedEntities().
+   */
+  public removedEndpoints: AnalysisSeed[] = [];
+
+  /**
+   * Endpoints whose file was renamed or moved. Their deployment name may
+   * change if the file moved between groups. Filled by getChangedEntities().
+   */
+  public movedEndpoints: MovedEndpoint[] = [];
+
+  /**
+   * Changes to non-TypeScript files (package.json, tsconfig, .env, firebase.json)
+   * that affect deployed functions. Filled by getChangedEntities().
+   */
+  public configChanges: ConfigChange[] = [];
+
+  /**
+   * Direct npm dependencies whose resolution changed in package-lock.json,
+   * with the entities that use them as seeds. Filled by getChangedEntities().
+   */
+  public packageChanges: PackageChange[] = [];
+
+  /**
+   * Keys ("{path}#{name}") of the changed entities whose change leaves the
+   * emitted JavaScript unchanged (see EntityChange.typeOnly). Filled by getChangedEntities().
+   */
+  public typeOnlyChanges: Set<string> = new Set();
 
   /**
    * Creates the Git analyzer.
-   * @param topEntities The "reference map" (Map) from FaeptsAnalyzer.
-   * @param projectRoot The absolute path to the project root.
+   * @param model The project model from FaeptsAnalyzer (the working tree's files and entities).
+   * @param options Revisions to compare. Defaults to HEAD against the working tree.
    */
-  constructor(topEntities: FileFunctionsResult[], projectRoot: string) {
-    this.projectRoot = projectRoot;
-    
-    this.topEntitiesMap = new Map();
-    for (const entityFile of topEntities) {
-      this.topEntitiesMap.set(entityFile.path, entityFile);
+  constructor(model: ProjectModel, options: GitDiffOptions = {}) {
+    this.model = model;
+    this.projectRoot = model.root;
+    this.sourceRoots = [this.projectRoot, ...getWorkspacePackages(this.projectRoot).map(pkg => pkg.root)];
+    this.options = options;
+  }
+
+  /**
+   * Runs a git command in the project root and returns its stdout.
+   * Arguments are passed without a shell, so refs are never interpreted.
+   * 
+   * @param args Arguments passed to git.
+   * @returns The command output as a string.
+   */
+  private git(args: string[]): string {
+    return execFileSync('git', args, {
+      cwd: this.projectRoot,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 256 * 1024 * 1024,
+    }).toString();
+  }
+
+  /**
+   * Gets the root of the git working tree, which paths in the output of
+   * 'git diff' (without --relative) and 'git status' are relative to.
+   * 
+   * @returns The absolute path of the repository root.
+   */
+  private getRepositoryRoot(): string {
+    if (this.repositoryRoot === null) {
+      // Relative to the project root, so symlinked paths stay comparable with the scanned files
+      this.repositoryRoot = path.resolve(this.projectRoot, this.git(['rev-parse', '--show-cdup']).trim());
+    }
+    return this.repositoryRoot;
+  }
+
+  /**
+   * Builds the pathspecs of the sources of every source root, relative to
+   * the project root (where git runs). The compiled output directory of a
+   * root (tsconfig 'outDir') is excluded.
+   * 
+   * @returns The pathspecs.
+   */
+  private getSourcePathspecs(): string[] {
+    return this.sourceRoots.flatMap(root => {
+      const relativeRoot = path.relative(this.projectRoot, root).replace(/\\/g, '/');
+      const prefix = relativeRoot === '' ? '' : `${relativeRoot}/`;
+      const outputDirectory = getOutputDirectory(root);
+      const pathspecs = outputDirectory === null ? SOURCE_PATHSPECS : [...SOURCE_PATHSPECS, `:(exclude)${outputDirectory}`];
+      return pathspecs.map(pathspec => pathspec.startsWith(':(exclude)')
+        ? `:(exclude)${prefix}${pathspec.substring(':(exclude)'.length)}`
+        : `${prefix}${pathspec}`
+      );
+    });
+  }
+
+  /**
+   * Checks whether a ref resolves to a commit in the local repository.
+   * 
+   * @param ref The ref to check (branch, tag, sha).
+   * @returns True if the ref can be resolved.
+   */
+  private refExists(ref: string): boolean {
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Checks whether the repository is a shallow clone.
+   * 
+   * @returns True if the repository has truncated history.
+   */
+  private isShallowRepository(): boolean {
+    try {
+      return this.git(['rev-parse', '--is-shallow-repository']).trim() === 'true';
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Handles a base revision that cannot be resolved: either fails with the given
+   * message or, if opted in, switches the analyzer to "everything affected".
+   * 
+   * @param message Description of what could not be resolved.
+   * @returns Always null (only when falling back).
+   */
+  private failOrFallback(message: string): null {
+    if (this.isShallowRepository()) {
+      message += ' The repository is a shallow clone; fetch more history (e.g., \'git fetch --unshallow\' or \'fetch-depth: 0\' in CI).';
+    }
+    if (this.options.fallbackToAll) {
+      console.warn(`[FIRE-DIFF Warning] ${message} Treating every endpoint as affected.`);
+      this.everythingAffected = true;
+      return null;
+    }
+    throw new Error(`${message} Pass --fallback-all to treat every endpoint as affected instead.`);
+  }
+
+  /**
+   * Resolves the revisions to compare from the options.
+   * Uses three-dot semantics: the diff starts at the merge-base of base and head.
+   * 
+   * @returns The diff range, or null if falling back to "everything affected".
+   */
+  private resolveDiffRange(): DiffRange | null {
+    const { base, head, sinceTag, staged } = this.options;
+
+    if (staged && head !== undefined) {
+      throw new Error('Staged changes cannot be compared with a head ref.');
+    }
+    // Staged changes are read from the index
+    const headContentRef = staged ? '' : (head ?? null);
+
+    if (head !== undefined && !this.refExists(head)) {
+      throw new Error(`Head ref '${head}' could not be resolved.`);
+    }
+    const headCommit = head ?? 'HEAD';
+
+    let baseRef = base;
+    if (sinceTag !== undefined) {
+      // Described from the parent, so a tagged head (a release build) is compared with the previous tag
+      try {
+        baseRef = this.git(['describe', '--tags', '--abbrev=0', '--match', sinceTag, `${headCommit}^`]).trim();
+      } catch (e) {
+        return this.failOrFallback(`No tag matching '${sinceTag}' is reachable from the parent of '${headCommit}'.`);
+      }
+    }
+
+    // Default: compare HEAD with the working tree (or the index)
+    if (baseRef === undefined) {
+      return { from: 'HEAD', to: headContentRef };
+    }
+
+    if (!this.refExists(baseRef)) {
+      return this.failOrFallback(`Base ref '${baseRef}' could not be resolved.`);
+    }
+
+    let mergeBase: string;
+    try {
+      mergeBase = this.git(['merge-base', baseRef, headCommit]).trim();
+    } catch (e) {
+      return this.failOrFallback(`No merge-base found between '${baseRef}' and '${headCommit}'.`);
+    }
+
+    return { from: mergeBase, to: headContentRef };
+  }
+
+  /**
+   * Reads a file as it exists at a git revision.
+   * 
+   * @param rev The revision to read from.
+   * @param filePath Absolute path to the file.
+   * @returns The file content.
+   */
+  private readFileAtRevision(rev: string, filePath: string): string {
+    const relativePath = path.relative(this.projectRoot, filePath).replace(/\\/g, '/');
+    return this.git(['show', `${rev}:./${relativePath}`]);
+  }
+
+  /**
+   * Gets the content of a file as it existed at the base of the diff.
+   * 
+   * @param filePath Absolute path to the file.
+   * @returns File content, or undefined if the file did not exist at base.
+   */
+  public getBaseFileContent(filePath: string): string | undefined {
+    if (this.patchContents) {
+      const patched = this.patchContents.get(filePath);
+      return patched ? patched.base : this.readWorkingTreeFile(filePath);
+    }
+    if (this.baseRef === null) {
+      return undefined;
+    }
+    try {
+      return this.readFileAtRevision(this.baseRef, filePath);
+    } catch (e) {
+      return undefined;
     }
   }
 
   /**
    * Gets the full text content of a file, using a cache.
-   * Must read from file system to capture unstaged changes that 'git diff HEAD' reports.
+   * Reads from the head ref when one is set; otherwise reads from the file system
+   * to capture unstaged changes that 'git diff HEAD' reports.
    * 
    * @param filePath Absolute path to the file.
    * @returns File content or undefined if read fails.
@@ -53,7 +344,18 @@ export class GitChangeAnalyzer {
       return this.fileContentCache.get(filePath);
     }
     try {
-      const content = fs.readFileSync(filePath, 'utf8');
+      const patched = this.patchContents?.get(filePath);
+      if (patched && patched.head === undefined) {
+        throw new Error(`File deleted by the patch: ${filePath}`);
+      }
+      const content = patched
+        ? patched.head as string
+        : this.headRef !== null
+          ? this.readFileAtRevision(this.headRef, filePath)
+          : this.model.readFile(filePath);
+      if (content === undefined) {
+        throw new Error(`Could not read file: ${filePath}`);
+      }
       this.fileContentCache.set(filePath, content);
       return content;
     } catch (e) {
@@ -63,165 +365,285 @@ export class GitChangeAnalyzer {
   }
 
   /**
-   * Converts a 1-based line number (from git diff) into a 0-based character index.
+   * Reads a file as it exists in the analyzed revision, without warnings.
+   * Only working tree content is cached (by the project model).
    * 
-   * @param content Full file content.
-   * @param lineNumber 1-based line number from git diff.
-   * @returns 0-based character index position.
-   */
-  private convertLineToCharIndex(content: string, lineNumber: number): number {
-    const lines = content.split('\n');
-    const targetLineIndex = lineNumber - 1; // Convert 1-based to 0-based
-    let charIndex = 0;
-    
-    for (let i = 0; i < targetLineIndex; i++) {
-      const line = lines[i];
-      if (line !== undefined) {
-        charIndex += line.length + 1; // +1 for the '\n'
-      }
+   * @param filePath Absolute path to the file.
+   * @returns File content, or undefined if the file does not exist.
+   */
+  private readHeadFile(filePath: string): string | undefined {
+    const patched = this.patchContents?.get(filePath);
+    if (patched) {
+      return patched.head;
+    }
+    try {
+      return this.headRef !== null
+        ? this.readFileAtRevision(this.headRef, filePath)
+        : this.model.readFile(filePath);
+    } catch (e) {
+      return undefined;
     }
-    return charIndex;
   }
 
   /**
-   * Checks if a line contains a function definition.
+   * Reads a file from the working tree without warnings.
+   * 
+   * @param filePath Absolute path to the file.
+   * @returns File content, or undefined if the file does not exist.
+   */
+  private readWorkingTreeFile(filePath: string): string | undefined {
+    return this.model.readFile(filePath);
+  }
+
+  /**
+   * Finds the source root (project root or workspace package) containing a file.
    * 
-   * @param line The line to check (without leading + or -).
-   * @returns True if the line contains a function definition pattern.
-   */
-  private isFunctionDefinitionLine(line: string): boolean {
-    const trimmed = line.trim();
-    // Match: export const functionName = ...
-    // Match: export function functionName ...
-    // Match: export async function functionName ...
-    return /^(export\s+)?(const|function|async\s+function)\s+\w+\s*[=(]/.test(trimmed) ||
-           /^export\s+const\s+\w+\s*=/.test(trimmed);
+   * @param filePath Absolute path to the file.
+   * @returns The source root, or undefined if the file is outside all of them.
+   */
+  private findSourceRoot(filePath: string): string | undefined {
+    return this.sourceRoots.find(root => {
+      const relativePath = path.relative(root, filePath);
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    });
   }
 
   /**
-   * Extracts function name from a function definition line.
+   * Checks whether a file is a source of this codebase that is
+   * analyzed for entity changes (the same files as getSourcePathspecs).
    * 
-   * @param line The line containing the function definition.
-   * @returns Function name or null if not found.
+   * @param filePath Absolute path to the file, or null.
+   * @returns True if the file is analyzed.
    */
-  private extractFunctionName(line: string): string | null {
-    const trimmed = line.trim();
-    
-    // Match: export const functionName = ...
-    const constMatch = /(?:export\s+)?const\s+(\w+)\s*=/.exec(trimmed);
-    if (constMatch && constMatch[1]) {
-      return constMatch[1];
+  private isAnalyzedSourceFile(filePath: string | null): boolean {
+    if (filePath === null) {
+      return false;
     }
-    
-    // Match: export function functionName ...
-    const functionMatch = /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*[\(]/.exec(trimmed);
-    if (functionMatch && functionMatch[1]) {
-      return functionMatch[1];
+    const sourceRoot = this.findSourceRoot(filePath);
+    if (sourceRoot === undefined) {
+      return false;
     }
-    
-    return null;
+    const relativePath = path.relative(sourceRoot, filePath).replace(/\\/g, '/');
+    const outputDirectory = getOutputDirectory(sourceRoot);
+    return isSourceFilePath(relativePath) &&
+      !relativePath.startsWith('src/__tests__/') &&
+      (outputDirectory === null || !relativePath.startsWith(`${outputDirectory}/`));
   }
 
   /**
-   * Detects if a changed line is an object property and extracts the property path.
+   * Reconstructs the contents of the files of a patch on both sides, either
+   * reading the working tree as the patched version (reverse-applying the
+   * hunks) or, if the patch is not applied yet, as the original version.
+   * Fills patchContents.
    * 
-   * @param changedLine The line that was changed (with + or - prefix removed).
-   * @param fileContent Full content of the file to find parent object name.
-   * @param lineNumber 1-based line number of the changed line.
-   * @param entityMap File's entity map to find the containing entity.
-   * @returns Property path in format "OBJECT_NAME.PROPERTY_NAME" or null if not a property change.
-   */
-  private detectObjectPropertyChange(
-    changedLine: string, 
-    fileContent: string, 
-    lineNumber: number,
-    entityMap: FileFunctionsResult
-  ): string | null {
-    const trimmed = changedLine.trim();
-    
-    // Match object property pattern: PROPERTY_NAME: "value" or PROPERTY_NAME: value
-    // Examples: LAST_UPDATE_OPTIONS: "luo", CREATOR: "cre"
-    const propertyMatch = /^\s*(\w+)\s*:\s*/.exec(trimmed);
-    if (!propertyMatch || !propertyMatch[1]) {
-      return null;
+   * @param patchText The unified diff.
+   * @returns The files of the patch, with absolute paths.
+   * @throws Error if the patch matches the working tree in neither direction.
+   */
+  private loadPatch(patchText: string): DiffFile[] {
+    const patchFiles = parsePatch(patchText);
+
+    // Patches may be relative to the project root or to a directory above it
+    // (e.g., "functions/src/..." from the repository root): use the closest
+    // directory under which the most patched files land in an existing directory
+    // of a source root
+    let patchRoot = this.projectRoot;
+    let bestCount = -1;
+    for (let candidate = this.projectRoot; ; candidate = path.dirname(candidate)) {
+      const count = patchFiles.filter(file => {
+        const filePath = path.resolve(candidate, (file.newPath ?? file.oldPath) as string);
+        return this.findSourceRoot(filePath) !== undefined && fs.existsSync(path.dirname(filePath));
+      }).length;
+      if (count > bestCount) {
+        patchRoot = candidate;
+        bestCount = count;
+      }
+      if (path.dirname(candidate) === candidate) break;
     }
-    
-    const propertyName = propertyMatch[1];
-    
-    // Find which entity contains this line
-    const lineCharIndex = this.convertLineToCharIndex(fileContent, lineNumber);
-    const containingEntity = this.findEntityAtPosition(entityMap, lineCharIndex);
-    
-    if (!containingEntity) {
-      return null;
+    const resolve = (patchPath: string | null) => patchPath === null ? null : path.resolve(patchRoot, patchPath);
+
+    const files = patchFiles.map(file => ({
+      oldPath: resolve(file.oldPath),
+      newPath: resolve(file.newPath),
+      hunks: file.hunks,
+    }));
+
+    // Only the files of this codebase (and firebase.json) have to match the working tree
+    const firebaseConfigPath = this.getFirebaseConfigPath();
+    const relevantFiles = files.filter(file => {
+      const filePath = (file.newPath ?? file.oldPath) as string;
+      return filePath === firebaseConfigPath || this.findSourceRoot(filePath) !== undefined;
+    });
+
+    const reconstruct = (reverse: boolean): Map<string, PatchContent> | null => {
+      const contents = new Map<string, PatchContent>();
+
+      for (const file of relevantFiles) {
+        // The side of the file that is in the working tree
+        const workingPath = reverse ? file.newPath : file.oldPath;
+        const otherPath = reverse ? file.oldPath : file.newPath;
+
+        let workingContent: string | undefined;
+        if (workingPath !== null) {
+          workingContent = this.readWorkingTreeFile(workingPath);
+          if (workingContent === undefined) return null;
+        } else if (otherPath !== null && fs.existsSync(otherPath)) {
+          return null;
+        }
+
+        const otherContent = applyHunks(workingContent ?? '', file.hunks, reverse);
+        if (otherContent === null) return null;
+
+        const base = reverse ? (file.oldPath === null ? undefined : otherContent) : workingContent;
+        const head = reverse ? workingContent : (file.newPath === null ? undefined : otherContent);
+
+        if (file.oldPath !== null) {
+          contents.set(file.oldPath, { base, head: file.oldPath === file.newPath ? head : undefined });
+        }
+        if (file.newPath !== null && file.newPath !== file.oldPath) {
+          contents.set(file.newPath, { base: undefined, head });
+        }
+      }
+
+      return contents;
+    };
+
+    const appliedContents = reconstruct(true);
+    const contents = appliedContents ?? reconstruct(false);
+    if (!contents) {
+      throw new Error('The patch does not match the working tree, neither as already applied nor as applicable.');
     }
-    
-    // Get the entity's content block
-    const sortedEntities = entityMap.funcs;
-    const entityIndex = sortedEntities.indexOf(containingEntity);
-    const start = containingEntity.start;
-    const nextEntity = sortedEntities[entityIndex + 1];
-    const end = nextEntity ? nextEntity.start : fileContent.length;
-    const entityContent = fileContent.substring(start, end);
-    
-    // Check if this entity is an object declaration (const OBJECT_NAME = { ... })
-    const objectDeclMatch = /(?:export\s+)?(?:const|let|var)\s+(\w+)\s*=\s*\{/.exec(entityContent);
-    if (!objectDeclMatch || !objectDeclMatch[1]) {
+    this.patchContents = contents;
+    this.workingTreeIsBase = appliedContents === null;
+
+    return files.map(file => ({ oldPath: file.oldPath, newPath: file.newPath }));
+  }
+
+  /**
+   * Finds the entities that use an npm package: every entity of an importing
+   * file whose block references one of the imported bindings, or every entity
+   * of the file if the package is imported without a binding.
+   * 
+   * @param packageName The npm package name.
+   * @returns Seeds for the entities using the package.
+   */
+  private findPackageSeeds(packageName: string): AnalysisSeed[] {
+    const seeds: AnalysisSeed[] = [];
+    const imports = findFilesImportingPackage(
+      packageName,
+      this.model.files,
+      (filePath) => this.readHeadFile(filePath) ?? ''
+    );
+
+    for (const importInfo of imports) {
+      const entityMap = this.getEntityMap(importInfo.path);
+      const content = this.getFileContent(importInfo.path);
+      if (!entityMap || content === undefined) continue;
+
+      for (const entity of entityMap.funcs) {
+        const blockContent = getEntityBlock(content, entityMap.funcs, entity);
+
+        if (importInfo.unbound || importInfo.bindings.some(name => blockContent.includes(name))) {
+          seeds.push({ fn: entity.fn, path: importInfo.path });
+        }
+      }
+    }
+
+    return seeds;
+  }
+
+  /**
+   * Compares package-lock.json at base and head and finds the entities that
+   * use each direct dependency whose resolution changed (see core/lockfile-diff).
+   * 
+   * @returns The package changes, or null if the lockfile did not change or cannot be parsed.
+   */
+  private findPackageChanges(): PackageChange[] | null {
+    const lockfilePath = path.join(this.projectRoot, 'package-lock.json');
+    const baseContent = this.getBaseFileContent(lockfilePath);
+    const headContent = this.readHeadFile(lockfilePath);
+    if (baseContent === headContent) {
       return null;
     }
-    
-    const objectName = objectDeclMatch[1];
-    
-    // Verify that the property is actually in this object by checking if it's within the object's braces
-    // Simple check: if the property line appears after the opening brace
-    const objectStartIndex = entityContent.indexOf('{');
-    if (objectStartIndex === -1) {
+
+    const changes = diffLockfiles(baseContent, headContent);
+    if (!changes) {
+      console.warn(`[FIRE-DIFF Warning] Could not parse package-lock.json. Treating it as a configuration change.`);
       return null;
     }
-    
-    // Check if the changed line is within the object (after the opening brace)
-    const relativeLineIndex = lineCharIndex - start;
-    if (relativeLineIndex > objectStartIndex) {
-      return `${objectName}.${propertyName}`;
+
+    for (const change of changes) {
+      change.seeds = this.findPackageSeeds(change.name);
     }
-    
-    return null;
+    return changes;
   }
 
   /**
-   * Finds the top-level entity that contains a given character position.
+   * Gets the path of the firebase.json of the project: the nearest one above
+   * the functions source directory, or the one next to it if there is none
+   * in the working tree (e.g., it was deleted).
    * 
-   * @param entityMap File's entity map containing all top-level entities.
-   * @param position Character position to search for.
-   * @returns Top-level entity containing the position, or undefined if not found.
+   * @returns The absolute path of firebase.json.
    */
-  private findEntityAtPosition(entityMap: FileFunctionsResult, position: number): TopLevelEntity | undefined {
-    const sortedEntities = entityMap.funcs;
-    
-    // First, check if position exactly matches a function's start position
-    // This handles cases where a new function is added and git diff points to its start
-    for (let i = 0; i < sortedEntities.length; i++) {
-      const currentEntity = sortedEntities[i];
-      if (!currentEntity) continue;
-
-      if (position === currentEntity.start) {
-        return currentEntity;
+  private getFirebaseConfigPath(): string {
+    return findFirebaseConfig(this.projectRoot)?.configPath ?? path.join(this.projectRoot, '../firebase.json');
+  }
+
+  /**
+   * Finds changes to configuration files and classifies them
+   * (see core/config-changes).
+   * 
+   * @param changedFiles Changed configuration files, relative to the project root.
+   * @param lockfileAttributed Whether package-lock.json changes are attributed per package.
+   * @returns The classified configuration changes.
+   */
+  private findConfigChanges(changedFiles: string[], lockfileAttributed: boolean): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+    const firebaseConfigPath = this.getFirebaseConfigPath();
+    const firebaseRoot = path.dirname(firebaseConfigPath);
+
+    // firebase.json lives in the Firebase project root, any number of levels above the functions source
+    changedFiles.push(path.relative(this.projectRoot, firebaseConfigPath));
+
+    for (const relativePath of changedFiles) {
+      const filePath = path.join(this.projectRoot, relativePath);
+      const change = classifyConfigChange(
+        relativePath,
+        this.getBaseFileContent(filePath),
+        this.readHeadFile(filePath),
+        { firebaseRoot, projectRoot: this.projectRoot, lockfileAttributed }
+      );
+      if (change) {
+        changes.push(change);
       }
     }
-    
-    // If no exact match, use the original logic to find which function contains the position
-    for (let i = 0; i < sortedEntities.length; i++) {
-      const currentEntity = sortedEntities[i];
-      if (!currentEntity) continue;
 
-      const nextEntity = sortedEntities[i + 1];
-      const end = nextEntity ? nextEntity.start - 1 : Infinity;
+    return changes;
+  }
 
-      if (position >= currentEntity.start && position <= end) {
-        return currentEntity;
-      }
+  /**
+   * Gets the entity map of a file as it exists in the analyzed revision.
+   * For the working tree the pre-built map is used; for a head ref the file
+   * is re-parsed from its content at that ref.
+   * 
+   * @param filePath Absolute path to the file.
+   * @returns The file's entity map, or undefined if unavailable.
+   */
+  private getEntityMap(filePath: string): FileFunctionsResult | undefined {
+    if (this.headRef === null && !this.patchContents?.has(filePath)) {
+      return this.model.getEntities(filePath);
+    }
+    const cached = this.headEntitiesMap.get(filePath);
+    if (cached) {
+      return cached;
     }
-    return undefined;
+    const content = this.getFileContent(filePath);
+    if (content === undefined) {
+      return undefined;
+    }
+    const entityMap = fileTopFunctions(filePath, content);
+    this.headEntitiesMap.set(filePath, entityMap);
+    return entityMap;
   }
 
   /**
@@ -235,7 +657,7 @@ export class GitChangeAnalyzer {
     
     for (const filePath of newFiles) {
       try {
-        const entityMap = fileTopFunctions(filePath);
+        const entityMap = this.model.getEntities(filePath) ?? fileTopFunctions(filePath);
         if (entityMap && entityMap.funcs.length > 0) {
           for (const entity of entityMap.funcs) {
             entities.push({
@@ -252,6 +674,189 @@ export class GitChangeAnalyzer {
     return entities;
   }
 
+  /**
+   * Compares the entities of a file at base with those at head and records
+   * every entity that no longer exists. Deleted endpoints are added to
+   * removedEndpoints; other deleted entities are returned as seeds so that
+   * their dependents are analyzed.
+   * 
+   * @param oldPath Absolute path of the file at base.
+   * @param headEntityMap The file's entities at head, or null if the file was deleted.
+   * @returns Seeds for deleted non-endpoint entities.
+   */
+  private findDeletedEntities(oldPath: string, headEntityMap: FileFunctionsResult | null): AnalysisSeed[] {
+    const seeds: AnalysisSeed[] = [];
+
+    const baseContent = this.getBaseFileContent(oldPath);
+    if (baseContent === undefined) {
+      return seeds;
+    }
+
+    const baseEntities = fileTopFunctions(oldPath, baseContent).funcs;
+    const headNames = new Set(headEntityMap ? headEntityMap.funcs.map(e => e.fn) : []);
+
+    for (const entity of baseEntities) {
+      if (headNames.has(entity.fn)) continue;
+
+      const endpointInfo = getEndpointInfo(getEntityBlock(baseContent, baseEntities, entity));
+
+      if (endpointInfo.isEndpoint && entity.fn !== MODULE_INIT_ENTITY) {
+        if (!this.removedEndpoints.some(e => e.path === oldPath && e.fn === entity.fn)) {
+          this.removedEndpoints.push({
+            fn: entity.fn,
+            path: oldPath,
+            version: endpointInfo.version
+          });
+        }
+      } else {
+        seeds.push({
+          fn: entity.fn,
+          path: oldPath
+        });
+      }
+    }
+
+    return seeds;
+  }
+
+  /**
+   * Finds the files that imported a file at the base revision.
+   * Candidates are narrowed down with 'git grep' before parsing.
+   * 
+   * @param oldPath Absolute path of the imported file at base.
+   * @returns Absolute paths of the importing files (as they were at base).
+   */
+  private findBaseImporters(oldPath: string): string[] {
+    if (this.patchContents) {
+      const candidates = [...new Set([...this.model.files, ...this.patchContents.keys()])]
+        .filter(filePath => this.isAnalyzedSourceFile(filePath) && this.getBaseFileContent(filePath) !== undefined);
+      return findFilesImportingTarget(
+        path.relative(this.projectRoot, oldPath),
+        this.projectRoot,
+        candidates,
+        (filePath) => this.getBaseFileContent(filePath) ?? ''
+      );
+    }
+    if (this.baseRef === null) {
+      return [];
+    }
+    const baseRef = this.baseRef;
+
+    // An 'index' file may be imported through its directory name
+    const parsedPath = path.parse(oldPath);
+    const needle = parsedPath.name === 'index' ? path.basename(parsedPath.dir) : parsedPath.name;
+
+    let candidates: string[];
+    try {
+      candidates = this.git(['grep', '-l', '-F', '-e', needle, baseRef, '--', ...this.getSourcePathspecs()])
+        .split('\n')
+        .filter(line => line.startsWith(`${baseRef}:`))
+        .map(line => path.join(this.projectRoot, line.substring(baseRef.length + 1)));
+    } catch (e) {
+      // 'git grep' exits with an error when nothing matches
+      return [];
+    }
+
+    return findFilesImportingTarget(
+      path.relative(this.projectRoot, oldPath),
+      this.projectRoot,
+      candidates,
+      (filePath) => this.readFileAtRevision(baseRef, filePath)
+    );
+  }
+
+  /**
+   * Handles a renamed or moved file as a "moved entity set": every entity of
+   * the file is treated as changed (so importers of the new path are analyzed),
+   * the importers of the old path at base are analyzed as well, and moved
+   * endpoints are recorded in movedEndpoints.
+   * 
+   * @param oldPath Absolute path of the file at base.
+   * @param newPath Absolute path of the file at head.
+   * @returns Seeds for the moved entities and the affected importers.
+   */
+  private findMovedEntities(oldPath: string, newPath: string): AnalysisSeed[] {
+    const seeds: AnalysisSeed[] = [];
+
+    const entityMap = this.getEntityMap(newPath);
+    const content = this.getFileContent(newPath);
+    if (!entityMap || content === undefined) {
+      return seeds;
+    }
+
+    const baseContent = this.getBaseFileContent(oldPath);
+    const baseNames = new Set(baseContent !== undefined ? fileTopFunctions(oldPath, baseContent).funcs.map(e => e.fn) : []);
+
+    const sortedEntities = entityMap.funcs;
+    for (const entity of sortedEntities) {
+      seeds.push({ fn: entity.fn, path: newPath });
+
+      const endpointInfo = getEndpointInfo(getEntityBlock(content, sortedEntities, entity));
+      if (endpointInfo.isEndpoint && baseNames.has(entity.fn) && entity.fn !== MODULE_INIT_ENTITY) {
+        this.movedEndpoints.push({
+          fn: entity.fn,
+          oldPath,
+          newPath,
+          version: endpointInfo.version
+        });
+      }
+    }
+
+    // Importers of the old path at base: their entities that used a moved entity
+    const movedNames = sortedEntities.map(e => e.fn);
+    for (const importerPath of this.findBaseImporters(oldPath)) {
+      const importerMap = this.getEntityMap(importerPath);
+      const importerContent = this.getFileContent(importerPath);
+      if (!importerMap || importerContent === undefined) continue;
+
+      for (const entity of importerMap.funcs) {
+        const blockContent = getEntityBlock(importerContent, importerMap.funcs, entity);
+        if (movedNames.some(name => blockContent.includes(name))) {
+          seeds.push({ fn: entity.fn, path: importerPath });
+        }
+      }
+    }
+
+    return seeds;
+  }
+
+  /**
+   * Pairs deleted files with untracked files that look like their moved
+   * version (a plain 'mv' without 'git mv'): same file name and at least
+   * half of the entities of the deleted file.
+   * 
+   * @param deletedFiles Absolute paths of deleted files.
+   * @param newFiles Absolute paths of untracked files.
+   * @returns The detected renames.
+   */
+  private pairUntrackedRenames(deletedFiles: string[], newFiles: string[]): DiffFile[] {
+    const renames: DiffFile[] = [];
+    const pairedNewFiles = new Set<string>();
+
+    for (const oldPath of deletedFiles) {
+      const baseContent = this.getBaseFileContent(oldPath);
+      if (baseContent === undefined) continue;
+      const baseNames = fileTopFunctions(oldPath, baseContent).funcs.map(e => e.fn);
+      if (baseNames.length === 0) continue;
+
+      const match = newFiles.find(newPath => {
+        if (pairedNewFiles.has(newPath) || path.basename(newPath) !== path.basename(oldPath)) {
+          return false;
+        }
+        const newNames = new Set(this.getEntityMap(newPath)?.funcs.map(e => e.fn) ?? []);
+        const shared = baseNames.filter(name => newNames.has(name)).length;
+        return shared * 2 >= baseNames.length;
+      });
+
+      if (match) {
+        pairedNewFiles.add(match);
+        renames.push({ oldPath, newPath: match });
+      }
+    }
+
+    return renames;
+  }
+
   /**
    * Runs 'git diff' and analyzes the output to find all changed entities.
    * 
@@ -259,210 +864,210 @@ export class GitChangeAnalyzer {
    */
   public getChangedEntities(): AnalysisSeed[] {
     const changedEntities = new Map<string, AnalysisSeed>();
-    let currentFilePath: string | undefined = undefined;
-    
-    const diffCommand = 'git diff HEAD --relative --unified=3 -- "*.ts" ":(exclude)src/__tests__" ":(exclude)*.test.ts" ":(exclude)*.spec.ts"';
-    
-    let diffOutput: string;
-    try {
-      diffOutput = execSync(diffCommand, { cwd: this.projectRoot }).toString();
-    } catch (e: any) {
-      console.error(`[FIRE-DIFF Error] 'git diff' command failed.`);
-      console.error(e.message);
-      return [];
-    }
 
-    const diffLines = diffOutput.split('\n');
-    let inHunk = false;
-    let hunkStartLine = 0;
+    this.fileContentCache.clear();
+    this.headEntitiesMap.clear();
+    this.removedEndpoints = [];
+    this.movedEndpoints = [];
+    this.packageChanges = [];
+    this.patchContents = null;
+    this.workingTreeIsBase = false;
+
+    let diffFiles: DiffFile[];
+    let changedConfigFiles: string[];
+    // Untracked files are only looked for when comparing against the working tree with git
+    let scanUntracked = false;
 
-    for (const line of diffLines) {
-      if (line.startsWith('+++ b/')) {
-        const relativePath = line.substring(6); 
-        currentFilePath = path.join(this.projectRoot, relativePath);
-        inHunk = false;
-        continue;
+    if (this.options.patch !== undefined) {
+      // A unified diff replaces git: both sides are reconstructed from the patch
+      this.headRef = null;
+      this.baseRef = null;
+      diffFiles = this.loadPatch(this.options.patch)
+        .filter(file => this.isAnalyzedSourceFile(file.newPath ?? file.oldPath));
+      const patchedFiles = (this.patchContents as Map<string, PatchContent> | null)?.keys() ?? [];
+      changedConfigFiles = Array.from(patchedFiles)
+        .filter(filePath => path.dirname(filePath) === this.projectRoot)
+        .map(filePath => path.basename(filePath));
+    } else {
+      const range = this.resolveDiffRange();
+      if (!range) {
+        return [];
       }
+      this.headRef = range.to;
+      this.baseRef = range.from;
+      scanUntracked = range.to === null;
 
-      if (!currentFilePath) {
-        continue; 
+      const rangeArgs: string[] = [];
+      if (range.to === '') {
+        rangeArgs.push('--cached', range.from);
+      } else if (range.to !== null) {
+        rangeArgs.push(range.from, range.to);
+      } else {
+        rangeArgs.push(range.from);
       }
 
-      if (line.startsWith('@@')) {
-        const hunkMatch = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
-        
-        if (hunkMatch && hunkMatch[1]) {
-          hunkStartLine = parseInt(hunkMatch[1], 10);
-          inHunk = true;
-          
-          const content = this.getFileContent(currentFilePath); 
-          if (!content) {
-            inHunk = false;
-            continue;
-          }
+      changedConfigFiles = [];
+      try {
+        changedConfigFiles = this.git(['diff', '--name-only', '--no-renames', ...rangeArgs, '--relative', '--', ...CONFIG_FILE_PATHSPECS])
+          .split('\n')
+          .filter(line => line.trim() !== '');
+      } catch (e) {
+        // Treat as no configuration changes
+      }
+      // New configuration files (e.g., a first '.env.<project>') are untracked in the working tree
+      if (scanUntracked) {
+        try {
+          const untrackedConfigFiles = this.git(['ls-files', '--others', '--exclude-standard', '--', ...CONFIG_FILE_PATHSPECS])
+            .split('\n')
+            .filter(line => line.trim() !== '' && !line.includes('/'));
+          changedConfigFiles.push(...untrackedConfigFiles);
+        } catch (e) {
+          // Silently continue on error
+        }
+      }
 
-          const charIndex = this.convertLineToCharIndex(content, hunkStartLine);
-
-          const entityMap = this.topEntitiesMap.get(currentFilePath);
-          if (!entityMap) {
-            inHunk = false;
-            continue;
-          } 
-
-          // First, check if any newly added lines contain function definitions
-          // This handles cases where a new function is added
-          let foundNewFunction = false;
-          let foundPropertyChange = false;
-          
-          // Read ahead in the hunk to find function definitions and property changes in added lines
-          let currentLineIndex = diffLines.indexOf(line);
-          let currentLineNumber = hunkStartLine;
-          
-          for (let i = currentLineIndex + 1; i < diffLines.length && i < currentLineIndex + 50; i++) {
-            const hunkLine = diffLines[i];
-            if (!hunkLine) break;
-            
-            // Stop if we hit the next hunk or file header
-            if (hunkLine.startsWith('@@') || hunkLine.startsWith('+++') || hunkLine.startsWith('---')) {
-              break;
-            }
-            
-            // Track line numbers: only increment for context lines (starting with space) and added lines (+)
-            // Deleted lines (-) don't increment the line number in the new file
-            if (hunkLine.startsWith('+') && !hunkLine.startsWith('+++')) {
-              // This is an added line in the new file
-              const addedLine = hunkLine.substring(1);
-              
-              // First, check if this is an object property change
-              if (!foundPropertyChange) {
-                const propertyPath = this.detectObjectPropertyChange(addedLine, content, currentLineNumber, entityMap);
-                if (propertyPath) {
-                  // Found a property change, mark it as changed
-                  const key = `${currentFilePath}#${propertyPath}`;
-                  if (!changedEntities.has(key)) {
-                    changedEntities.set(key, {
-                      fn: propertyPath,
-                      path: currentFilePath
-                    });
-                    foundPropertyChange = true;
-                  }
-                }
-              }
-              
-              // Check if this line contains a function definition
-              if (!foundNewFunction && this.isFunctionDefinitionLine(addedLine)) {
-                // Extract function name from the line
-                const functionName = this.extractFunctionName(addedLine);
-                if (functionName) {
-                  // Find the entity with this name
-                  const newEntity = entityMap.funcs.find(e => e.fn === functionName);
-                  if (newEntity) {
-                    const key = `${currentFilePath}#${newEntity.fn}`;
-                    if (!changedEntities.has(key)) {
-                      changedEntities.set(key, {
-                        fn: newEntity.fn,
-                        path: currentFilePath
-                      });
-                      foundNewFunction = true;
-                    }
-                  }
-                }
-              }
-              
-              currentLineNumber++;
-            } else if (hunkLine.startsWith(' ')) {
-              // Context line (unchanged), increment line number
-              currentLineNumber++;
-            }
-            // Deleted lines (-) don't increment the line number
-          }
-          
-          // If we didn't find a new function definition or property change, 
-          // check all changed lines in the hunk to find which function contains the changes
-          if (!foundNewFunction && !foundPropertyChange) {
-            // Collect all line numbers that have changes (added lines only, as they exist in the new file)
-            const changedLineNumbers = new Set<number>();
-            
-            // Re-scan the hunk to collect all changed line positions
-            let scanLineIndex = diffLines.indexOf(line);
-            let scanLineNumber = hunkStartLine;
-            
-            for (let i = scanLineIndex + 1; i < diffLines.length && i < scanLineIndex + 50; i++) {
-              const hunkLine = diffLines[i];
-              if (!hunkLine) break;
-              
-              // Stop if we hit the next hunk or file header
-              if (hunkLine.startsWith('@@') || hunkLine.startsWith('+++') || hunkLine.startsWith('---')) {
-                break;
-              }
-              
-              // Track added lines (they exist in the new file, so position calculation is correct)
-              // Also track deleted lines by using the current line number (approximate but works for finding containing function)
-              if (hunkLine.startsWith('+') && !hunkLine.startsWith('+++')) {
-                changedLineNumbers.add(scanLineNumber);
-                scanLineNumber++;
-              } else if (hunkLine.startsWith('-') && !hunkLine.startsWith('---')) {
-                // For deleted lines, use the current line number (approximate position in new file)
-                // This helps find the function that contains the deleted content
-                changedLineNumbers.add(scanLineNumber);
-                // Don't increment for deleted lines in new file
-              } else if (hunkLine.startsWith(' ')) {
-                scanLineNumber++;
-              }
-            }
-            
-            // Check each changed line to find the containing function
-            for (const lineNum of changedLineNumbers) {
-              const lineCharIndex = this.convertLineToCharIndex(content, lineNum);
-              const entity = this.findEntityAtPosition(entityMap, lineCharIndex);
-              
-              if (entity) {
-                const key = `${currentFilePath}#${entity.fn}`;
-                
-                if (!changedEntities.has(key)) {
-                  changedEntities.set(key, {
-                    fn: entity.fn,
-                    path: currentFilePath
-                  });
-                }
-              }
+      // Without --relative, so that workspace packages outside the project root are included
+      const diffArgs = ['diff', ...rangeArgs, '--find-renames', '--unified=0', '--', ...this.getSourcePathspecs()];
+
+      let diffOutput: string;
+      try {
+        diffOutput = this.git(diffArgs);
+      } catch (e: any) {
+        console.error(`[FIRE-DIFF Error] 'git diff' command failed.`);
+        console.error(e.message);
+        return [];
+      }
+
+      // Only the file headers are needed: entity changes are decided by
+      // comparing the base and head versions of each file (see core/entity-diff)
+      diffFiles = parsePatch(diffOutput).map(file => ({
+        oldPath: file.oldPath === null ? null : path.join(this.getRepositoryRoot(), file.oldPath),
+        newPath: file.newPath === null ? null : path.join(this.getRepositoryRoot(), file.newPath),
+      }));
+    }
+
+    const packageChanges = this.findPackageChanges();
+    this.packageChanges = packageChanges ?? [];
+    this.configChanges = this.findConfigChanges(changedConfigFiles, packageChanges !== null);
+
+    const modifiedFiles: DiffFile[] = [];
+    const addedFiles: string[] = [];
+    let deletedFiles: string[] = [];
+    for (const file of diffFiles) {
+      if (file.oldPath !== null && file.newPath !== null) {
+        modifiedFiles.push(file);
+      } else if (file.oldPath !== null) {
+        deletedFiles.push(file.oldPath);
+      } else if (file.newPath !== null) {
+        addedFiles.push(file.newPath);
+      }
+    }
+
+    // Detect new files: untracked files in the working tree, added files otherwise
+    let newFiles: string[] = addedFiles;
+    if (scanUntracked) {
+      try {
+        const statusOutput = this.git(['status', '--porcelain', '--', ...this.getSourcePathspecs()]);
+        const statusLines = statusOutput.split('\n');
+        
+        for (const line of statusLines) {
+          if (line.startsWith('??')) {
+            const relativePath = line.substring(3).trim();
+            if (relativePath) {
+              // Porcelain paths are relative to the repository root
+              newFiles.push(path.join(this.getRepositoryRoot(), relativePath));
             }
           }
         }
+      } catch (e) {
+        // Silently continue on error
+      }
+
+      // A plain 'mv' shows up as a deleted file plus an untracked file
+      const untrackedRenames = this.pairUntrackedRenames(deletedFiles, newFiles);
+      for (const rename of untrackedRenames) {
+        modifiedFiles.push(rename);
+        deletedFiles = deletedFiles.filter(filePath => filePath !== rename.oldPath);
+        newFiles = newFiles.filter(filePath => filePath !== rename.newPath);
       }
     }
 
-    // Detect new files and add their functions
-    const statusCommand = 'git status --porcelain -- "*.ts" ":(exclude)src/__tests__" ":(exclude)*.test.ts" ":(exclude)*.spec.ts"';
-    try {
-      const statusOutput = execSync(statusCommand, { cwd: this.projectRoot }).toString();
-      const statusLines = statusOutput.split('\n');
-      const newFiles: string[] = [];
-      
-      for (const line of statusLines) {
-        if (line.startsWith('??')) {
-          let relativePath = line.substring(3).trim();
-          if (relativePath) {
-            // If path starts with projectRoot's basename (e.g., "functions/..."), remove it
-            const rootBasename = path.basename(this.projectRoot);
-            if (relativePath.startsWith(`${rootBasename}/`)) {
-              relativePath = relativePath.substring(rootBasename.length + 1);
+    // Added and modified entities of modified (and renamed) files
+    const typeOnlyDeletions = new Set<string>();
+    for (const file of modifiedFiles) {
+      if (file.oldPath === null || file.newPath === null) continue;
+      const changes = diffEntities(file.newPath, this.getBaseFileContent(file.oldPath), this.getFileContent(file.newPath));
+
+      for (const change of changes) {
+        if (change.status === 'deleted' && change.typeOnly) {
+          typeOnlyDeletions.add(`${file.oldPath}#${change.fn}`);
+        }
+        if (change.status !== 'added' && change.status !== 'modified') continue;
+
+        // Only some properties of an object literal changed: seed the property paths
+        const changedNames = change.changedProperties
+          ? change.changedProperties.map(property => `${change.fn}.${property}`)
+          : [change.fn];
+        for (const fn of changedNames) {
+          const key = `${file.newPath}#${fn}`;
+          if (!changedEntities.has(key)) {
+            changedEntities.set(key, { fn, path: file.newPath });
+            if (change.typeOnly) {
+              this.typeOnlyChanges.add(key);
             }
-            newFiles.push(path.join(this.projectRoot, relativePath));
           }
         }
       }
-      
-      // Find and add functions from new files
-      const newFileEntities = this.findNewFileEntities(newFiles);
-      for (const entity of newFileEntities) {
-        const key = `${entity.path}#${entity.fn}`;
-        if (!changedEntities.has(key)) {
-          changedEntities.set(key, entity);
+    }
+
+    const additionalSeeds: AnalysisSeed[] = [];
+
+    // Detect deleted entities in modified files and in deleted files
+    for (const file of modifiedFiles) {
+      if (file.oldPath === null || file.newPath === null) continue;
+      const headEntityMap = this.getEntityMap(file.newPath);
+      if (headEntityMap) {
+        additionalSeeds.push(...this.findDeletedEntities(file.oldPath, headEntityMap));
+      }
+    }
+    for (const filePath of deletedFiles) {
+      additionalSeeds.push(...this.findDeletedEntities(filePath, null));
+    }
+
+    // Renamed or moved files
+    for (const file of modifiedFiles) {
+      if (file.oldPath === null || file.newPath === null || file.oldPath === file.newPath) continue;
+      additionalSeeds.push(...this.findMovedEntities(file.oldPath, file.newPath));
+    }
+
+    // Find and add functions from new files
+    if (scanUntracked) {
+      additionalSeeds.push(...this.findNewFileEntities(newFiles));
+    } else {
+      for (const filePath of newFiles) {
+        for (const entity of this.getEntityMap(filePath)?.funcs ?? []) {
+          additionalSeeds.push({ fn: entity.fn, path: filePath });
         }
       }
-    } catch (e) {
-      // Silently continue on error
+    }
+
+    // Entities using a dependency whose lockfile resolution changed
+    for (const change of this.packageChanges) {
+      additionalSeeds.push(...change.seeds);
+    }
+
+    for (const seed of additionalSeeds) {
+      const key = `${seed.path}#${seed.fn}`;
+      if (!changedEntities.has(key)) {
+        changedEntities.set(key, seed);
+      }
+      // Also changed for another reason (e.g., a moved file or a dependency change)
+      if (!typeOnlyDeletions.has(key)) {
+        this.typeOnlyChanges.delete(key);
+      }
+    }
+    for (const key of typeOnlyDeletions) {
+      this.typeOnlyChanges.add(key);
     }
 
     return Array.from(changedEntities.values());
@@ -0,0 +1,116 @@
+/**
+ * Source file extensions module.
+ *
+ * This module defines the TypeScript and JavaScript extensions of the
+ * analyzed source files, and resolves module paths to source files the way
+ * TypeScript does ("./user.js" -> "user.ts", "./exports" -> "exports/index.ts").
+ * It also parses source files the same way for every analysis step.
+ *
+ * @module utils/source-files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+/**
+ * Extensions of the analyzed source files, in module resolution order.
+ */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.mjs', '.cjs'];
+
+/**
+ * TypeScript extensions an import specifier's JavaScript extension stands for
+ * (e.g., "./user.js" imports "user.ts"), as in TypeScript's module resolution.
+ */
+const SUBSTITUTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Matches the extension of a source file or declaration file (e.g., ".ts", ".d.mts" or ".cjs").
+ */
+const SOURCE_EXTENSION_REGEX = /(\.d)?\.(tsx?|[mc]ts|[mc]?js)$/;
+
+/**
+ * Checks whether a path is an analyzed source file: a TypeScript or
+ * JavaScript file that is neither a declaration file nor a test.
+ *
+ * @param filePath The file path (absolute or relative).
+ * @returns True if the file is analyzed.
+ */
+export function isSourceFilePath(filePath: string): boolean {
+  const fileName = path.basename(filePath);
+  return SOURCE_EXTENSIONS.includes(path.extname(fileName)) &&
+    !/\.d\.[mc]?ts$/.test(fileName) &&
+    !/\.(test|spec)\.[^.]+$/.test(fileName);
+}
+
+/**
+ * Removes the source file extension of a path
+ * (e.g., "src/db/user.ts" or "./db/user.js" -> "src/db/user" or "./db/user").
+ *
+ * @param filePath The file path or module specifier.
+ * @returns The path without extension (unchanged if it has no source extension).
+ */
+export function removeSourceExtension(filePath: string): string {
+  return filePath.replace(SOURCE_EXTENSION_REGEX, '');
+}
+
+/**
+ * Resolves a module path to a source file the way TypeScript does: the
+ * TypeScript file a JavaScript extension stands for ("./user.js" -> "user.ts"),
+ * the path itself, the path with each source extension, then the 'index'
+ * file of the directory.
+ *
+ * @param modulePath Absolute module path, with or without extension.
+ * @param fileExists Checks whether a file exists (defaults to the file system).
+ * @returns The absolute path of the source file, or null if none exists.
+ */
+export function resolveSourceFile(
+  modulePath: string,
+  fileExists: (filePath: string) => boolean = (filePath) => fs.existsSync(filePath) && fs.statSync(filePath).isFile()
+): string | null {
+  const extension = path.extname(modulePath);
+  const candidates: string[] = [];
+
+  const substitutes = SUBSTITUTED_EXTENSIONS[extension];
+  if (substitutes) {
+    const withoutExtension = modulePath.substring(0, modulePath.length - extension.length);
+    candidates.push(...substitutes.map(substitute => withoutExtension + substitute));
+  }
+  if (SOURCE_EXTENSIONS.includes(extension)) {
+    candidates.push(modulePath);
+  }
+  candidates.push(...SOURCE_EXTENSIONS.map(sourceExtension => modulePath + sourceExtension));
+  candidates.push(...SOURCE_EXTENSIONS.map(sourceExtension => path.join(modulePath, `index${sourceExtension}`)));
+
+  return candidates.find(candidate => fileExists(candidate)) ?? null;
+}
+
+/**
+ * Parses the content of a source file, with parent nodes set
+ * (required for .getStart() and for walking up from a node).
+ *
+ * @param filePath Absolute path of the file (its extension selects TypeScript, TSX or JavaScript).
+ * @param content The file content.
+ * @returns The parsed source file.
+ */
+export function parseSourceFile(filePath: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.ESNext, true);
+}
+
+/**
+ * Reads and parses a source file from disk, returning undefined on failure.
+ *
+ * @param filePath Absolute path of the file.
+ * @returns The parsed source file, or undefined if it cannot be read.
+ */
+export function readSourceFile(filePath: string): ts.SourceFile | undefined {
+  try {
+    return parseSourceFile(filePath, fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    return undefined;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * tsconfig.json loader module.
+ *
+ * This module reads the compiler options of a project's tsconfig.json,
+ * following 'extends' chains.
+ *
+ * @module utils/tsconfig
+ */
+
+import path from 'path';
+import ts from 'typescript';
+
+/**
+ * Reads the compiler options of the tsconfig.json closest to the project root,
+ * including the options inherited through 'extends'.
+ *
+ * @param projectRoot The absolute path to the project root.
+ * @returns The compiler options, or null if there is no tsconfig.json or it cannot be read.
+ */
+export function loadCompilerOptions(projectRoot: string): ts.CompilerOptions | null {
+  const configPath = ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json');
+  if (!configPath) {
+    return null;
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    console.warn(`[FIRE-DIFF Warning] Could not read ${configPath}. Aliased imports are not resolved.`);
+    return null;
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+  // 5083: Cannot read file, 6053: File not found (e.g., a missing 'extends' target)
+  const extendsError = parsed.errors.find(diagnostic => diagnostic.code === 5083 || diagnostic.code === 6053);
+  if (extendsError) {
+    console.warn(`[FIRE-DIFF Warning] ${ts.flattenDiagnosticMessageText(extendsError.messageText, ' ')}`);
+  }
+
+  return parsed.options;
+}
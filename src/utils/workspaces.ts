@@ -0,0 +1,344 @@
+/**
+ * Workspace packages module.
+ *
+ * This module detects the npm/yarn/pnpm workspace the functions source
+ * directory belongs to (from the root package.json 'workspaces' field or
+ * pnpm-workspace.yaml), finds the workspace packages the functions depend on,
+ * and resolves bare imports of those packages to their TypeScript sources.
+ *
+ * @module utils/workspaces
+ */
+
+import { globSync } from 'glob';
+import path from 'path';
+import fs from 'fs';
+import { loadCompilerOptions } from './tsconfig';
+import { resolveSourceFile } from './source-files';
+
+/**
+ * A package of the workspace that the functions depend on.
+ */
+export interface WorkspacePackage {
+  /** The package name (e.g., "@acme/shared"). */
+  name: string;
+  /** Absolute path of the package directory. */
+  root: string;
+  /**
+   * Entry points keyed by export subpath ("." or "./utils", with '*' for
+   * subpath patterns), mapped to the target declared in package.json
+   * (e.g., "./dist/index.js").
+   */
+  entryPoints: Map<string, string>;
+  /** Absolute path of the build output directory (tsconfig 'outDir'), or null if unknown. */
+  outDir: string | null;
+  /** Absolute path of the source directory the output is compiled from (tsconfig 'rootDir', or 'src'). */
+  rootDir: string;
+}
+
+/**
+ * Directories commonly used for build output, mapped back to 'src'
+ * when the package's tsconfig does not tell.
+ */
+const OUTPUT_DIRECTORIES = ['dist', 'lib', 'build', 'out'];
+
+/**
+ * Export conditions checked for an entry point, in order of preference.
+ */
+const EXPORT_CONDITIONS = ['types', 'import', 'require', 'node', 'default'];
+
+/**
+ * Dependency fields of package.json that can link workspace packages.
+ */
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+/**
+ * Workspace packages by functions source directory.
+ */
+const workspaceCache = new Map<string, WorkspacePackage[]>();
+
+/**
+ * Reads and parses a JSON file, returning undefined on failure.
+ *
+ * @param filePath Absolute path to the file.
+ * @returns The parsed value, or undefined.
+ */
+function readJson(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts the 'packages' globs of a pnpm-workspace.yaml file.
+ * Supports the block list ("- 'packages/*'") and flow list ("['a', 'b']") forms.
+ *
+ * @param content The YAML content.
+ * @returns The package globs (negated globs start with '!').
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const globs: string[] = [];
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^packages\s*:\s*(.*)$/.exec(lines[i] as string);
+    if (!match) continue;
+
+    const inline = (match[1] as string).replace(/\s+#.*$/, '').trim();
+    if (inline.startsWith('[')) {
+      return inline.replace(/^\[|\]$/g, '').split(',').map(unquote).filter(glob => glob !== '');
+    }
+
+    for (let j = i + 1; j < lines.length; j++) {
+      const line = lines[j] as string;
+      if (line.trim() === '' || line.trim().startsWith('#')) continue;
+      const item = /^\s+-\s*(.+?)\s*(#.*)?$/.exec(line);
+      if (!item) break;
+      globs.push(unquote(item[1] as string));
+    }
+    break;
+  }
+
+  return globs;
+}
+
+/**
+ * Finds the workspace root of a directory: the closest directory (itself or
+ * above) with a package.json 'workspaces' field or a pnpm-workspace.yaml.
+ *
+ * @param startDir The directory to start from.
+ * @returns The workspace root and its package globs, or null if not in a workspace.
+ */
+function findWorkspaceRoot(startDir: string): { root: string; globs: string[] } | null {
+  let currentDir = startDir;
+
+  while (true) {
+    const pnpmConfigPath = path.join(currentDir, 'pnpm-workspace.yaml');
+    if (fs.existsSync(pnpmConfigPath)) {
+      return { root: currentDir, globs: parsePnpmWorkspace(fs.readFileSync(pnpmConfigPath, 'utf8')) };
+    }
+
+    const workspaces = readJson(path.join(currentDir, 'package.json'))?.workspaces;
+    const globs = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    if (Array.isArray(globs)) {
+      return { root: currentDir, globs: globs.filter((glob: unknown) => typeof glob === 'string') };
+    }
+
+    const parentDir = path.dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+/**
+ * Picks the target of an 'exports' entry, following export conditions.
+ *
+ * @param value The 'exports' value (a string, a conditions object or an array).
+ * @returns The target path, or null if none applies.
+ */
+function pickExportTarget(value: any): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = pickExportTarget(item);
+      if (target) return target;
+    }
+    return null;
+  }
+  if (value && typeof value === 'object') {
+    for (const condition of EXPORT_CONDITIONS) {
+      if (condition in value) {
+        const target = pickExportTarget(value[condition]);
+        if (target) return target;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects the entry points of a package from 'exports', or from 'types',
+ * 'typings' and 'main' when there is no 'exports' field.
+ *
+ * @param packageJson The parsed package.json.
+ * @returns Entry points keyed by export subpath.
+ */
+function getEntryPoints(packageJson: any): Map<string, string> {
+  const entryPoints = new Map<string, string>();
+  const exportsField = packageJson.exports;
+
+  if (exportsField !== undefined && exportsField !== null) {
+    const isSubpathMap = typeof exportsField === 'object' && !Array.isArray(exportsField) &&
+      Object.keys(exportsField).some(key => key.startsWith('.'));
+
+    if (isSubpathMap) {
+      for (const [subpath, value] of Object.entries(exportsField)) {
+        const target = pickExportTarget(value);
+        if (target) entryPoints.set(subpath, target);
+      }
+    } else {
+      const target = pickExportTarget(exportsField);
+      if (target) entryPoints.set('.', target);
+    }
+    return entryPoints;
+  }
+
+  const main = packageJson.types ?? packageJson.typings ?? packageJson.main ?? 'index.js';
+  entryPoints.set('.', main);
+  // Without 'exports', any file of the package can be imported by its path
+  entryPoints.set('./*', './*');
+  return entryPoints;
+}
+
+/**
+ * Maps an entry point target (e.g., "./dist/index.js" or "./lib/index.d.ts")
+ * back to the TypeScript source it is compiled from, using the outDir and
+ * rootDir of the package's tsconfig.json or the common output directories.
+ *
+ * @param pkg The workspace package.
+ * @param target The target path, relative to the package root.
+ * @returns The absolute path of the source file, or null if it cannot be found.
+ */
+function mapToSource(pkg: WorkspacePackage, target: string): string | null {
+  const absoluteTarget = path.resolve(pkg.root, target);
+  if (/\.(tsx?|[mc]ts)$/.test(absoluteTarget) && !/\.d\.[mc]?tsx?$/.test(absoluteTarget) && fs.existsSync(absoluteTarget)) {
+    return absoluteTarget;
+  }
+
+  const withoutExtension = absoluteTarget.replace(/(\.d)?\.([cm]?[jt]s|tsx|jsx)$/, '');
+  const candidates = [withoutExtension];
+
+  if (pkg.outDir) {
+    const relativeToOutDir = path.relative(pkg.outDir, withoutExtension);
+    if (!relativeToOutDir.startsWith('..') && !path.isAbsolute(relativeToOutDir)) {
+      candidates.push(path.join(pkg.rootDir, relativeToOutDir));
+    }
+  }
+
+  const relativeToRoot = path.relative(pkg.root, withoutExtension).replace(/\\/g, '/');
+  const [firstSegment, ...rest] = relativeToRoot.split('/');
+  if (firstSegment && OUTPUT_DIRECTORIES.includes(firstSegment)) {
+    candidates.push(path.join(pkg.root, 'src', ...rest));
+  } else if (firstSegment !== 'src') {
+    candidates.push(path.join(pkg.root, 'src', relativeToRoot));
+  }
+
+  for (const candidate of candidates) {
+    const sourcePath = resolveSourceFile(candidate);
+    if (sourcePath !== null) {
+      return sourcePath;
+    }
+  }
+
+  // A JavaScript package without a build step
+  return /\.[mc]?js$/.test(absoluteTarget) && fs.existsSync(absoluteTarget) ? absoluteTarget : null;
+}
+
+/**
+ * Gets the workspace packages that the functions depend on, directly or
+ * through other workspace packages. The result is cached per directory.
+ *
+ * @param projectRoot The absolute path to the functions source directory.
+ * @returns The workspace packages (empty if the functions are not in a workspace).
+ */
+export function getWorkspacePackages(projectRoot: string): WorkspacePackage[] {
+  const cached = workspaceCache.get(projectRoot);
+  if (cached) {
+    return cached;
+  }
+
+  const workspace = findWorkspaceRoot(projectRoot);
+  if (!workspace) {
+    workspaceCache.set(projectRoot, []);
+    return [];
+  }
+
+  const includeGlobs = workspace.globs.filter(glob => !glob.startsWith('!'));
+  const excludeGlobs = workspace.globs.filter(glob => glob.startsWith('!')).map(glob => glob.substring(1));
+
+  const manifestPaths = includeGlobs.length === 0 ? [] : globSync(includeGlobs.map(glob => `${glob.replace(/\/$/, '')}/package.json`), {
+    cwd: workspace.root,
+    ignore: ['**/node_modules/**', ...excludeGlobs.map(glob => `${glob.replace(/\/$/, '')}/package.json`)],
+    absolute: true,
+  });
+
+  const packagesByName = new Map<string, { root: string; packageJson: any }>();
+  for (const manifestPath of manifestPaths.sort()) {
+    const packageJson = readJson(manifestPath);
+    const root = path.dirname(manifestPath);
+    if (typeof packageJson?.name === 'string' && root !== projectRoot && !packagesByName.has(packageJson.name)) {
+      packagesByName.set(packageJson.name, { root, packageJson });
+    }
+  }
+
+  // Only the packages reachable from the functions' dependencies
+  const packages: WorkspacePackage[] = [];
+  const queue = [readJson(path.join(projectRoot, 'package.json'))];
+  const visited = new Set<string>();
+  while (queue.length > 0) {
+    const packageJson = queue.shift();
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const name of Object.keys(packageJson?.[field] ?? {})) {
+        const found = packagesByName.get(name);
+        if (!found || visited.has(name)) continue;
+        visited.add(name);
+        const options = loadCompilerOptions(found.root);
+        packages.push({
+          name,
+          root: found.root,
+          entryPoints: getEntryPoints(found.packageJson),
+          outDir: options?.outDir ?? null,
+          rootDir: options?.rootDir ?? path.join(found.root, 'src'),
+        });
+        queue.push(found.packageJson);
+      }
+    }
+  }
+
+  workspaceCache.set(projectRoot, packages);
+  return packages;
+}
+
+/**
+ * Resolves a bare import of a workspace package (e.g., "@acme/shared" or
+ * "@acme/shared/utils") to the TypeScript source of the imported entry point.
+ *
+ * @param specifier The module specifier.
+ * @param packages The workspace packages (from getWorkspacePackages).
+ * @returns The absolute path of the source file, or null if the specifier is
+ *          not a workspace package or its source cannot be found.
+ */
+export function resolveWorkspaceImport(specifier: string, packages: WorkspacePackage[]): string | null {
+  const pkg = packages.find(p => specifier === p.name || specifier.startsWith(`${p.name}/`));
+  if (!pkg) {
+    return null;
+  }
+
+  const subpath = `.${specifier.substring(pkg.name.length)}`;
+
+  const exactTarget = pkg.entryPoints.get(subpath);
+  if (exactTarget !== undefined) {
+    return mapToSource(pkg, exactTarget);
+  }
+
+  // Subpath patterns (e.g., "./*": "./dist/*.js"); the longest prefix wins
+  const patterns = Array.from(pkg.entryPoints.keys())
+    .filter(key => key.includes('*'))
+    .sort((a, b) => b.length - a.length);
+  for (const pattern of patterns) {
+    const [prefix, suffix] = pattern.split('*') as [string, string];
+    if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+      const replacement = subpath.substring(prefix.length, subpath.length - suffix.length);
+      const target = (pkg.entryPoints.get(pattern) as string).split('*').join(replacement);
+      return mapToSource(pkg, target);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,74 @@
+const assert = require('node:assert');
+const fs = require('node:fs');
+const path = require('node:path');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const SOURCES = {
+  'src/index.ts': `export * from './users';
+export * from './orders';
+`,
+  'src/db.ts': `export const getUser = (id: string) => ({ id });
+export const getOrder = (id: string) => ({ id });
+`,
+  'src/users.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { getUser } from './db';
+export const fetchUser = onCall(() => getUser('1'));
+`,
+  'src/orders.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { getOrder } from './db';
+export const fetchOrder = onCall(() => getOrder('1'));
+`,
+};
+
+const cacheFile = (functionsRoot) => path.join(functionsRoot, 'node_modules', '.cache', 'fire-diff', 'analysis.json');
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('analyze writes the cache and reuses it on the next run', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/db.ts': SOURCES['src/db.ts'].replace("({ id })", "({ id, kind: 'user' })") });
+
+  const first = runCli(project.functionsRoot, 'analyze');
+  assert.strictEqual(first.status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(first.stdout), ['fetchUser']);
+
+  const cache = JSON.parse(fs.readFileSync(cacheFile(project.functionsRoot), 'utf8'));
+  assert.deepStrictEqual(Object.keys(cache.files).sort(), ['src/db.ts', 'src/index.ts', 'src/orders.ts', 'src/users.ts']);
+
+  const second = runCli(project.functionsRoot, 'analyze');
+  assert.strictEqual(second.status, 0);
+  assert.strictEqual(second.stdout, first.stdout);
+});
+
+test('an edited file is reparsed instead of read from the cache', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/db.ts': SOURCES['src/db.ts'].replace("({ id })", "({ id, kind: 'user' })") });
+
+  const first = runCli(project.functionsRoot, 'analyze');
+  assert.strictEqual(first.status, 0);
+  const before = JSON.parse(fs.readFileSync(cacheFile(project.functionsRoot), 'utf8')).files['src/db.ts'].hash;
+
+  writeFiles(project.functionsRoot, { 'src/db.ts': SOURCES['src/db.ts'].replace("getOrder = (id: string) => ({ id })", "getOrder = (id: string) => ({ id, kind: 'order' })") });
+
+  const second = runCli(project.functionsRoot, 'analyze');
+  assert.strictEqual(second.status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(second.stdout), ['fetchOrder']);
+  const after = JSON.parse(fs.readFileSync(cacheFile(project.functionsRoot), 'utf8')).files['src/db.ts'].hash;
+  assert.notStrictEqual(after, before);
+});
+
+test('--no-cache neither reads nor writes the cache', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/db.ts': SOURCES['src/db.ts'].replace("({ id })", "({ id, kind: 'user' })") });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['fetchUser']);
+  assert.strictEqual(fs.existsSync(cacheFile(project.functionsRoot)), false);
+});
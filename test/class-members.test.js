@@ -0,0 +1,36 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const SERVICES = (userRepoSave) => `import { onCall } from 'firebase-functions/v2/https';
+export class UserRepo { save() { return ${userRepoSave}; } }
+export class Logger { save() { return 0; } }
+export const handler = onCall(() => { const repo = new UserRepo(); return repo.save(); });
+export const otherSave = onCall(() => { const repo = new Logger(); return repo.save(); });
+export class Service {
+  constructor(private store: Logger) {}
+  run(logger: Logger) { return logger.save(); }
+  flush() { return this.store.save(); }
+}
+export const viaService = onCall(() => new Service(new Logger()).run(new Logger()));
+export const viaFlush = onCall(() => new Service(new Logger()).flush());
+const shared = new UserRepo();
+export const viaShared = onCall(() => shared.save());
+export const untyped = onCall((req: any) => req.data.repo.save());
+`;
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('receivers are typed by their declaration in scope, not by same-named variables elsewhere in the file', () => {
+  project = createProject({ 'src/index.ts': SERVICES(1) });
+  writeFiles(project.functionsRoot, { 'src/index.ts': SERVICES(2) });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['handler', 'untyped', 'viaShared']);
+});
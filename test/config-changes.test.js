@@ -0,0 +1,88 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, git, parseAffectedEndpoints, parseSection, removeProject, runCli, writeFiles } = require('./helpers');
+
+const SOURCES = {
+  'src/index.ts': `export * from './games';
+export * from './hello';
+`,
+  'src/games.ts': `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => 'played');
+`,
+  'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+};
+
+const PACKAGE = (changes) => JSON.stringify({ name: 'functions', main: 'lib/index.js', ...changes });
+
+let project;
+
+/**
+ * Runs analyze on the working tree and returns the configuration changes and affected endpoints.
+ */
+function analyze() {
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  return {
+    changes: parseSection(stdout, 'Configuration changes (all endpoints affected):'),
+    endpoints: parseAffectedEndpoints(stdout),
+  };
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a package.json engines change affects every endpoint', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'package.json': PACKAGE({ engines: { node: '20' } }) });
+
+  const { changes, endpoints } = analyze();
+  assert.strictEqual(changes.length, 1);
+  assert.match(changes[0], /package\.json: engines changed$/);
+  assert.deepStrictEqual(endpoints, ['hello', 'play']);
+});
+
+test('a package.json scripts change affects nothing', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'package.json': PACKAGE({ scripts: { build: 'tsc' } }) });
+
+  assert.deepStrictEqual(analyze(), { changes: [], endpoints: [] });
+});
+
+test('tsconfig.json and .env.<project> changes are reported with their scope', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, {
+    'tsconfig.json': JSON.stringify({ compilerOptions: { outDir: 'lib', module: 'commonjs', target: 'es2022' }, include: ['src'] }),
+    '.env.staging': 'GREETING=hi\n',
+  });
+
+  const { changes, endpoints } = analyze();
+  assert.strictEqual(changes.length, 2);
+  assert.ok(changes.some(change => /\.env\.staging: environment variables changed \(when deploying to project 'staging'\)$/.test(change)));
+  assert.ok(changes.some(change => /tsconfig\.json: compiler options changed$/.test(change)));
+  assert.deepStrictEqual(endpoints, ['hello', 'play']);
+});
+
+test('only the firebase.json entry of the analyzed codebase counts', () => {
+  project = createProject(SOURCES);
+  const firebaseJson = (defaultRuntime, otherRuntime) => JSON.stringify({
+    functions: [
+      { source: 'functions', codebase: 'default', runtime: defaultRuntime },
+      { source: 'other', codebase: 'other', runtime: otherRuntime },
+    ],
+  });
+  writeFiles(project.root, { 'firebase.json': firebaseJson('nodejs20', 'nodejs22') });
+  git(project.root, 'commit', '-q', '-am', 'runtimes');
+
+  writeFiles(project.root, { 'firebase.json': firebaseJson('nodejs20', 'nodejs18') });
+  assert.deepStrictEqual(analyze(), { changes: [], endpoints: [] });
+
+  writeFiles(project.root, { 'firebase.json': firebaseJson('nodejs22', 'nodejs18') });
+  const { changes, endpoints } = analyze();
+  assert.strictEqual(changes.length, 1);
+  assert.match(changes[0], /firebase\.json: functions configuration \(runtime\) changed$/);
+  assert.deepStrictEqual(endpoints, ['hello', 'play']);
+});
@@ -0,0 +1,41 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const INDEX = `export * from './hello';
+export { default as greet } from './greet';
+`;
+
+const HELLO = (greeting) => `import { onCall, onRequest } from 'firebase-functions/v2/https';
+export const hi = onCall(() => '${greeting}');
+export default onRequest((req, res) => { res.send('${greeting}'); });
+`;
+
+const GREET = (greeting) => `import { onCall } from 'firebase-functions/v2/https';
+export default onCall(() => '${greeting}');
+`;
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a default export is listed under the name the entry file re-exports it with only', () => {
+  project = createProject({ 'src/index.ts': INDEX, 'src/hello.ts': HELLO('hi'), 'src/greet.ts': GREET('hi') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'endpoints', '--no-cache');
+  assert.strictEqual(status, 0);
+  const listed = stdout.split('\n').filter(line => line.includes('[on')).sort();
+  assert.deepStrictEqual(listed, ['greet (default) [onCall - v2]', 'hi (hi) [onCall - v2]']);
+});
+
+test('a changed default export without an exported name has no deploy name', () => {
+  project = createProject({ 'src/index.ts': INDEX, 'src/hello.ts': HELLO('hi'), 'src/greet.ts': GREET('hi') });
+  writeFiles(project.functionsRoot, { 'src/hello.ts': HELLO('hello'), 'src/greet.ts': GREET('hello') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['greet', 'hi']);
+});
@@ -0,0 +1,28 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, removeProject, runCli } = require('./helpers');
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('an endpoint exported under several names is listed under each deploy name', () => {
+  project = createProject({
+    'src/index.ts': `export * from './games';
+export * as ex from './exports';
+`,
+    'src/exports.ts': `export * as gameNs from './games';
+`,
+    'src/games.ts': `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => 'played');
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'endpoints');
+  assert.strictEqual(status, 0);
+  const listed = stdout.split('\n').filter(line => line.includes('(play)')).sort();
+  assert.deepStrictEqual(listed, ['ex-gameNs-play (play) [onCall - v2]', 'play (play) [onCall - v2]']);
+});
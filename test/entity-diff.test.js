@@ -0,0 +1,67 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { diffEntities } = require('../dist/core/entity-diff');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const GAMES = `import { onCall } from 'firebase-functions/v2/https';
+import { score } from './score';
+export const play = onCall(() => score(1));
+export const quit = onCall(() => 'bye');
+`;
+
+/**
+ * Diffs two versions of a file into "{name}: {status}" lines for the entities that are not unchanged.
+ */
+function changedEntities(base, head) {
+  return diffEntities('/src/games.ts', base, head)
+    .filter(change => change.status !== 'unchanged')
+    .map(change => `${change.fn}: ${change.status}`);
+}
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('formatting and comments do not change entities, code does', () => {
+  assert.deepStrictEqual(changedEntities(GAMES, GAMES.replace('score(1)', 'score( 1 ) // scored')), []);
+  assert.deepStrictEqual(changedEntities(GAMES, GAMES.replace("'bye'", "'goodbye'")), ['quit: modified']);
+});
+
+test('a re-pointed import changes the entities using it only', () => {
+  assert.deepStrictEqual(changedEntities(GAMES, GAMES.replace("'./score'", "'./scoring'")), ['play: modified']);
+});
+
+test('a side-effect import change is a change to the module init entity only', () => {
+  const withPolyfill = GAMES.replace("import { score }", "import './polyfill';\nimport { score }");
+  assert.deepStrictEqual(changedEntities(GAMES, withPolyfill), ['(module init): added']);
+  assert.deepStrictEqual(
+    changedEntities(withPolyfill, withPolyfill.replace("'./polyfill'", "'./shim'")),
+    ['(module init): modified']
+  );
+});
+
+test('an added side-effect import affects the endpoints loaded through the file', () => {
+  project = createProject({
+    'src/index.ts': `export * from './games';
+export * from './hello';
+`,
+    'src/games.ts': GAMES,
+    'src/score.ts': `export const score = (n: number) => n;
+`,
+    'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+  });
+  writeFiles(project.functionsRoot, {
+    'src/games.ts': GAMES.replace("import { score }", "import './polyfill';\nimport { score }"),
+    'src/polyfill.ts': `(globalThis as any).polyfilled = true;
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['play', 'quit']);
+});
@@ -0,0 +1,78 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { fileTopFunctions } = require('../dist/core/find-top-functions');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('every top-level form declares its entities', () => {
+  const { funcs } = fileTopFunctions('/src/forms.ts', `export default function () { return 1; }
+export const { a, b: renamed } = factory();
+export namespace Utils { export const format = () => ''; }
+export function parse(value: string): string;
+export function parse(value: number): string;
+export function parse(value: unknown) { return String(value); }
+export class Box {
+  get size() { return 1; }
+  set size(value: number) {}
+  static { init(); }
+}
+module.exports.legacy = () => 1;
+`);
+  // Overloads are one entity; a getter and a setter are one each; static blocks stay part of their class
+  const names = funcs.map(entity => entity.fn);
+
+  assert.deepStrictEqual(names.filter(name => name !== '(module init)'), [
+    'default', 'a', 'renamed', 'Utils', 'Utils.format', 'parse', 'Box', 'Box.size', 'Box.size', 'legacy',
+  ]);
+});
+
+test('module.exports object members are entities and deploy under their exported names', () => {
+  const handlers = (greeting) => `const { onCall } = require('firebase-functions/v2/https');
+const greet = onCall(() => '${greeting}');
+const ping = onCall(() => 'pong');
+module.exports = { greet, ping };
+`;
+  project = createProject({
+    'tsconfig.json': JSON.stringify({ compilerOptions: { outDir: 'lib', module: 'commonjs', allowJs: true }, include: ['src'] }),
+    'src/index.ts': `export * from './handlers';
+`,
+    'src/handlers.js': handlers('hi'),
+  });
+  writeFiles(project.functionsRoot, { 'src/handlers.js': handlers('hello') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['greet']);
+});
+
+test('destructured and namespaced helpers affect the endpoints using them', () => {
+  const helpers = (prefix) => `const factory = () => ({ read: (id: string) => id, write: (id: string) => id });
+export const { read, write } = factory();
+export namespace Text {
+  export const label = (id: string) => '${prefix}' + id;
+  export const plain = (id: string) => id;
+}
+`;
+  project = createProject({
+    'src/index.ts': `export * from './users';
+`,
+    'src/helpers.ts': helpers('#'),
+    'src/users.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { read, Text } from './helpers';
+export const readUser = onCall(() => read('1'));
+export const labelUser = onCall(() => Text.label('1'));
+export const plainUser = onCall(() => Text.plain('1'));
+`,
+  });
+  writeFiles(project.functionsRoot, { 'src/helpers.ts': helpers('@') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['labelUser']);
+});
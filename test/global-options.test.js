@@ -0,0 +1,69 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const INDEX = (region) => `import { setGlobalOptions as configure } from 'firebase-functions/v2';
+configure({ region: '${region}' });
+export * from './games';
+export * from './hello';
+`;
+
+const GAMES = (onInitResult) => `import { onCall } from 'firebase-functions/v2/https';
+class Svc { onInit() { return ${onInitResult}; } }
+export const play = onCall(() => new Svc().onInit());
+`;
+
+const HELLO = `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`;
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('an aliased setGlobalOptions() call affects every endpoint of the version', () => {
+  project = createProject({ 'src/index.ts': INDEX('europe-west1'), 'src/games.ts': GAMES(1), 'src/hello.ts': HELLO });
+  writeFiles(project.functionsRoot, { 'src/index.ts': INDEX('us-central1') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.match(stdout, /global options changed \(setGlobalOptions in \(module init\), v2\)/);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('a class method named onInit is not a global options call', () => {
+  project = createProject({ 'src/index.ts': INDEX('europe-west1'), 'src/games.ts': GAMES(1), 'src/hello.ts': HELLO });
+  writeFiles(project.functionsRoot, { 'src/games.ts': GAMES(2) });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.doesNotMatch(stdout, /global options changed/);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['play']);
+});
+
+test('a v1 runWith() default shared outside of an endpoint affects every v1 endpoint', () => {
+  const options = (memory) => `import * as functions from 'firebase-functions/v1';
+export const regional = functions.runWith({ memory: '${memory}' });
+`;
+  project = createProject({
+    'src/index.ts': `export * from './v1';
+export * from './hello';
+`,
+    'src/options.ts': options('256MB'),
+    'src/v1.ts': `import * as functions from 'firebase-functions/v1';
+import { regional } from './options';
+export const legacyPlay = regional.https.onCall(() => 'played');
+export const legacyPing = functions.https.onRequest((req, res) => { res.send('pong'); });
+`,
+    'src/hello.ts': HELLO,
+  });
+  writeFiles(project.functionsRoot, { 'src/options.ts': options('1GB') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.match(stdout, /global options changed \(functions\.runWith in regional, v1\)/);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['legacyPing', 'legacyPlay']);
+});
@@ -0,0 +1,115 @@
+/**
+ * Test helpers: temporary Firebase projects in git repositories, and a runner
+ * for the built CLI (run 'npm run build' first).
+ */
+
+const { execFileSync, spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+
+/**
+ * Creates a Firebase project in a new git repository: firebase.json at the
+ * root and a TypeScript functions codebase in 'functions/'.
+ *
+ * @param {Record<string, string>} sources Files of the codebase, keyed by path relative to 'functions/'.
+ * @returns {{ root: string, functionsRoot: string }} Absolute paths of the repository and of the codebase.
+ */
+function createProject(sources) {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'fire-diff-test-'));
+  writeFiles(root, {
+    'firebase.json': JSON.stringify({ functions: [{ source: 'functions', codebase: 'default' }] }),
+    'functions/package.json': JSON.stringify({ name: 'functions', main: 'lib/index.js' }),
+    'functions/tsconfig.json': JSON.stringify({ compilerOptions: { outDir: 'lib', module: 'commonjs' }, include: ['src'] }),
+  });
+  writeFiles(path.join(root, 'functions'), sources);
+
+  git(root, 'init', '-q');
+  git(root, 'add', '-A');
+  git(root, 'commit', '-q', '-m', 'init');
+  return { root, functionsRoot: path.join(root, 'functions') };
+}
+
+/**
+ * Writes files, creating their directories.
+ *
+ * @param {string} directory Absolute path of the base directory.
+ * @param {Record<string, string>} files File contents keyed by relative path.
+ */
+function writeFiles(directory, files) {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(directory, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+}
+
+/**
+ * Runs git in a repository with a fixed identity.
+ *
+ * @param {string} cwd The repository.
+ * @param {...string} args Git arguments.
+ */
+function git(cwd, ...args) {
+  execFileSync('git', ['-c', 'user.email=test@example.com', '-c', 'user.name=test', ...args], { cwd, stdio: 'pipe' });
+}
+
+/**
+ * Runs the CLI.
+ *
+ * @param {string} cwd The working directory (the functions codebase).
+ * @param {...string} args CLI arguments.
+ * @returns {{ status: number | null, stdout: string, stderr: string }} The exit status and output.
+ */
+function runCli(cwd, ...args) {
+  const result = spawnSync(process.execPath, [CLI, ...args], { cwd, encoding: 'utf8', timeout: 60000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+/**
+ * Extracts the endpoint names listed under the "Affected endpoints" headers
+ * of the analyze output.
+ *
+ * @param {string} output The CLI output.
+ * @returns {string[]} The affected endpoints, sorted.
+ */
+function parseAffectedEndpoints(output) {
+  const endpoints = [];
+  const lines = output.split('\n');
+  lines.forEach((line, index) => {
+    if (!line.startsWith('Affected endpoints')) return;
+    for (let i = index + 2; i < lines.length && lines[i].trim() !== ''; i++) {
+      endpoints.push(lines[i].trim());
+    }
+  });
+  return endpoints.sort();
+}
+
+/**
+ * Extracts the lines of an output section: the lines after its header and
+ * underline, up to the next empty line.
+ *
+ * @param {string} output The CLI output.
+ * @param {string} header The section header (e.g., "Removed endpoints:").
+ * @returns {string[]} The lines of the section, empty if it is not in the output.
+ */
+function parseSection(output, header) {
+  const lines = output.split('\n');
+  const start = lines.indexOf(header);
+  if (start === -1) return [];
+  const end = lines.findIndex((line, index) => index > start + 1 && line.trim() === '');
+  return lines.slice(start + 2, end === -1 ? undefined : end);
+}
+
+/**
+ * Removes a project created by createProject.
+ *
+ * @param {{ root: string }} project The project.
+ */
+function removeProject(project) {
+  fs.rmSync(project.root, { recursive: true, force: true });
+}
+
+module.exports = { createProject, writeFiles, git, runCli, parseAffectedEndpoints, parseSection, removeProject };
@@ -0,0 +1,62 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli } = require('./helpers');
+
+const SOURCES = {
+  'src/index.ts': `export * from './users';
+export * from './hello';
+`,
+  'src/db.ts': `export const getUser = (id: string) => ({ id });
+export const saveUser = (id: string) => id;
+export const KEYS = { CREATOR: 'creator', OWNER: 'owner' };
+`,
+  'src/users.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { getUser, saveUser, KEYS } from './db';
+export const fetchUser = onCall(() => getUser('1'));
+export const storeUser = onCall(() => saveUser('1'));
+export const creatorKey = onCall(() => KEYS.CREATOR);
+export const ownerKey = onCall(() => KEYS.OWNER);
+`,
+  'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+};
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('impact of a symbol lists the endpoints using it', () => {
+  project = createProject(SOURCES);
+
+  const { status, stdout } = runCli(project.functionsRoot, 'impact', 'src/db.ts#getUser', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['fetchUser']);
+});
+
+test('impact accepts paths relative to the repository and property paths', () => {
+  project = createProject(SOURCES);
+
+  const { status, stdout } = runCli(project.functionsRoot, 'impact', 'functions/src/db.ts#KEYS.CREATOR', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['creatorKey']);
+});
+
+test('impact of a file covers all of its entities', () => {
+  project = createProject(SOURCES);
+
+  const { status, stdout } = runCli(project.functionsRoot, 'impact', 'src/db.ts', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['creatorKey', 'fetchUser', 'ownerKey', 'storeUser']);
+});
+
+test('impact of an unknown symbol fails with the available ones', () => {
+  project = createProject(SOURCES);
+
+  const { status, stderr } = runCli(project.functionsRoot, 'impact', 'src/db.ts#removeUser', '--no-cache');
+  assert.strictEqual(status, 1);
+  assert.match(stderr, /Symbol "removeUser" not found in src\/db\.ts\. Available: getUser, saveUser, KEYS/);
+});
@@ -0,0 +1,45 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const BASE_REPO = (saved) => `export interface Repo { save(): number; }
+export class BaseRepo implements Repo {
+  save() { return ${saved}; }
+  load() { return 0; }
+}
+`;
+
+const SOURCES = {
+  'src/index.ts': `export * from './admin';
+`,
+  'src/base.ts': BASE_REPO(1),
+  'src/repos.ts': `import { BaseRepo } from './base';
+export class AdminRepo extends BaseRepo {}
+export class AuditRepo extends BaseRepo { save() { return 2; } }
+`,
+  'src/admin.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { AdminRepo, AuditRepo } from './repos';
+import { Repo } from './base';
+export const saveAdmin = onCall(() => new AdminRepo().save());
+export const loadAdmin = onCall(() => new AdminRepo().load());
+export const saveAudit = onCall(() => new AuditRepo().save());
+export const saveAny = onCall(() => { const repo: Repo = new AdminRepo(); return repo.save(); });
+`,
+};
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a changed base class method affects the endpoints calling it through a subclass or interface', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/base.ts': BASE_REPO(3) });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  // AuditRepo overrides save(), and load() did not change
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['saveAdmin', 'saveAny']);
+});
@@ -0,0 +1,67 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const SOURCES = {
+  'tsconfig.json': JSON.stringify({ compilerOptions: { outDir: 'lib', module: 'commonjs', allowJs: true }, include: ['src'] }),
+  'src/index.ts': `export * from './esm';
+export * from './legacy';
+export * as ui from './widgets';
+`,
+  'src/format.ts': `export const format = (text: string) => text.trim();
+`,
+  'src/math.mts': `export const double = (n: number) => n * 2;
+`,
+  'src/helpers.js': `exports.slugify = (text) => text.toLowerCase();
+`,
+  'src/widgets/index.tsx': `import { onCall } from 'firebase-functions/v2/https';
+export const widget = onCall(() => 'widget');
+`,
+  'src/esm.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { format } from './format.js';
+import { double } from './math.mjs';
+export const formatted = onCall(() => format(' a '));
+export const doubled = onCall(() => double(2));
+`,
+  'src/legacy.ts': `import { onCall } from 'firebase-functions/v2/https';
+const { slugify } = require('./helpers');
+export const slug = onCall(() => slugify('A'));
+`,
+};
+
+let project;
+
+/**
+ * Changes files of the project and returns the affected endpoints.
+ */
+function affectedBy(files) {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, files);
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  return parseAffectedEndpoints(stdout);
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('an ESM .js specifier resolves to the .ts source', () => {
+  assert.deepStrictEqual(affectedBy({ 'src/format.ts': `export const format = (text: string) => text.trimStart();\n` }), ['formatted']);
+});
+
+test('an .mjs specifier resolves to the .mts source', () => {
+  assert.deepStrictEqual(affectedBy({ 'src/math.mts': `export const double = (n: number) => n + n;\n` }), ['doubled']);
+});
+
+test('JavaScript helpers are scanned and diffed', () => {
+  assert.deepStrictEqual(affectedBy({ 'src/helpers.js': `exports.slugify = (text) => text.toLowerCase().trim();\n` }), ['slug']);
+});
+
+test('a directory import resolves to its .tsx index', () => {
+  project = createProject(SOURCES);
+  const { status, stdout } = runCli(project.functionsRoot, 'endpoints', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.match(stdout, /^ui-widget \(widget\) \[onCall - v2\]$/m);
+});
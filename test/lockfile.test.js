@@ -0,0 +1,89 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, parseSection, removeProject, runCli, writeFiles } = require('./helpers');
+
+/**
+ * Creates a package-lock.json (lockfileVersion 3) with lodash, and dayjs depending on tslib.
+ */
+function lockfile({ lodash = '4.17.20', dayjs = '1.11.0', tslib = '2.6.0' } = {}) {
+  const entry = (name, version, dependencies) => ({
+    version,
+    resolved: `https://registry.npmjs.org/${name}/-/${name}-${version}.tgz`,
+    ...(dependencies ? { dependencies } : {}),
+  });
+  return JSON.stringify({
+    name: 'functions',
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'functions', dependencies: { lodash: '^4.17.0', dayjs: '^1.11.0' } },
+      'node_modules/lodash': entry('lodash', lodash),
+      'node_modules/dayjs': entry('dayjs', dayjs, { tslib: '^2.0.0' }),
+      'node_modules/tslib': entry('tslib', tslib),
+    },
+  });
+}
+
+const SOURCES = {
+  'src/index.ts': `export * from './games';
+export * from './dates';
+export * from './hello';
+`,
+  'src/games.ts': `import { onCall } from 'firebase-functions/v2/https';
+import chunk from 'lodash/chunk';
+export const play = onCall(() => chunk([1, 2], 1));
+`,
+  'src/dates.ts': `import { onCall } from 'firebase-functions/v2/https';
+import dayjs from 'dayjs';
+export const today = onCall(() => dayjs().format());
+`,
+  'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+  'package.json': JSON.stringify({ name: 'functions', main: 'lib/index.js', dependencies: { lodash: '^4.17.0', dayjs: '^1.11.0' } }),
+  'package-lock.json': lockfile(),
+};
+
+let project;
+
+/**
+ * Runs analyze on the working tree and returns the dependency changes and affected endpoints.
+ */
+function analyze() {
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  return { dependencies: parseSection(stdout, 'Dependency changes:'), endpoints: parseAffectedEndpoints(stdout) };
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a package version change affects the endpoints importing it only', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'package-lock.json': lockfile({ lodash: '4.17.21' }) });
+
+  assert.deepStrictEqual(analyze(), {
+    dependencies: ['lodash 4.17.20 -> 4.17.21: play'],
+    endpoints: ['play'],
+  });
+});
+
+test('a transitive resolution change affects the importers of the direct dependency', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'package-lock.json': lockfile({ tslib: '2.6.1' }) });
+
+  assert.deepStrictEqual(analyze(), {
+    dependencies: ['dayjs 1.11.0 (transitive: tslib 2.6.0 -> 2.6.1): today'],
+    endpoints: ['today'],
+  });
+});
+
+test('an unparsable lockfile affects every endpoint', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'package-lock.json': '{ not json' });
+
+  const { dependencies, endpoints } = analyze();
+  assert.deepStrictEqual(dependencies, []);
+  assert.deepStrictEqual(endpoints, ['hello', 'play', 'today']);
+});
@@ -0,0 +1,86 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const GAMES = `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => 'played');
+`;
+
+const HELLO = `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`;
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a module init change in the entry file affects every endpoint', () => {
+  project = createProject({
+    'src/index.ts': `import * as admin from 'firebase-admin';
+admin.initializeApp();
+export * from './games';
+export { hello } from './hello';
+`,
+    'src/games.ts': GAMES,
+    'src/hello.ts': HELLO,
+  });
+  writeFiles(project.functionsRoot, {
+    'src/index.ts': `import * as admin from 'firebase-admin';
+admin.initializeApp({ projectId: 'demo' });
+export * from './games';
+export { hello } from './hello';
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('a module init change in a file imported for side effects affects the endpoints of its importer', () => {
+  project = createProject({
+    'src/index.ts': `import './init';
+export * from './games';
+export { hello } from './hello';
+`,
+    'src/init.ts': `import * as admin from 'firebase-admin';
+admin.initializeApp();
+`,
+    'src/games.ts': GAMES,
+    'src/hello.ts': HELLO,
+  });
+  writeFiles(project.functionsRoot, {
+    'src/init.ts': `import * as admin from 'firebase-admin';
+admin.initializeApp({ projectId: 'demo' });
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('a module init change in a re-exported file affects the endpoints loaded through it only', () => {
+  project = createProject({
+    'src/index.ts': `export * from './games';
+export { hello } from './hello';
+`,
+    'src/games/index.ts': `console.log('games loaded');
+export * from './play';
+`,
+    'src/games/play.ts': GAMES,
+    'src/hello.ts': HELLO,
+  });
+  writeFiles(project.functionsRoot, {
+    'src/games/index.ts': `console.log('games module loaded');
+export * from './play';
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['play']);
+});
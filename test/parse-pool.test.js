@@ -0,0 +1,42 @@
+const assert = require('node:assert');
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { test } = require('node:test');
+
+const PARSE_POOL = path.join(__dirname, '..', 'dist', 'core', 'parse-pool.js');
+
+// Preloaded in every thread (workers inherit the execArgv): the first worker throws once it is running
+const CRASH_FIRST_WORKER = `const { isMainThread, threadId } = require('worker_threads');
+if (!isMainThread && threadId === 1) setTimeout(() => { throw new Error('worker crashed'); }, 0);
+`;
+
+const PARSE_FILES = `const { analyzeFiles } = require(${JSON.stringify(PARSE_POOL)});
+const tasks = Array.from({ length: 128 }, (_, i) => ({
+  path: '/src/file' + i + '.ts',
+  content: 'export const fn' + i + ' = () => ' + i + ';\\n',
+}));
+const results = analyzeFiles(tasks, 2);
+console.log(JSON.stringify(results.map(result => result && result.entities.map(entity => entity.fn))));
+`;
+
+test('a crashed parse worker fails over to the main thread without waiting for the stall timeout', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fire-diff-test-'));
+  try {
+    fs.writeFileSync(path.join(directory, 'crash.js'), CRASH_FIRST_WORKER);
+    fs.writeFileSync(path.join(directory, 'parse.js'), PARSE_FILES);
+
+    const started = Date.now();
+    const result = spawnSync(process.execPath, ['--require', path.join(directory, 'crash.js'), path.join(directory, 'parse.js')], {
+      encoding: 'utf8',
+      timeout: 60000,
+    });
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.ok(Date.now() - started < 30000);
+    assert.match(result.stderr, /A parse worker exited unexpectedly/);
+    assert.deepStrictEqual(JSON.parse(result.stdout), Array.from({ length: 128 }, (_, i) => [`fn${i}`]));
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
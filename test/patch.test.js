@@ -0,0 +1,38 @@
+const assert = require('node:assert');
+const { test } = require('node:test');
+const { applyHunks, parsePatch, unquoteGitPath } = require('../dist/core/patch');
+
+test('git C-style quoted paths are unquoted', () => {
+  assert.strictEqual(unquoteGitPath('"src/\\303\\274ber.ts"'), 'src/über.ts');
+  assert.strictEqual(unquoteGitPath('"a\\tb\\n\\"c\\"\\\\d.ts"'), 'a\tb\n"c"\\d.ts');
+  assert.strictEqual(unquoteGitPath('src/plain.ts'), 'src/plain.ts');
+});
+
+test('quoted header, diff --git and rename paths are unquoted', () => {
+  const [modified, renamed] = parsePatch([
+    'diff --git "a/src/\\303\\274.ts" "b/src/\\303\\274.ts"',
+    '--- "a/src/\\303\\274.ts"',
+    '+++ "b/src/\\303\\274.ts"',
+    '@@ -1 +1 @@',
+    '-a',
+    '+b',
+    'diff --git "a/src/x\\ty.ts" b/src/z.ts',
+    'similarity index 100%',
+    'rename from "src/x\\ty.ts"',
+    'rename to src/z.ts',
+    '',
+  ].join('\n'));
+
+  assert.strictEqual(modified.oldPath, 'src/ü.ts');
+  assert.strictEqual(modified.newPath, 'src/ü.ts');
+  assert.strictEqual(renamed.oldPath, 'src/x\ty.ts');
+  assert.strictEqual(renamed.newPath, 'src/z.ts');
+});
+
+test('hunks apply to CRLF files, keeping their line endings', () => {
+  const [file] = parsePatch('--- a/f.ts\r\n+++ b/f.ts\r\n@@ -1,2 +1,2 @@\r\n-a\r\n+b\r\n c\r\n');
+
+  assert.strictEqual(applyHunks('a\r\nc\r\n', file.hunks, false), 'b\r\nc\r\n');
+  assert.strictEqual(applyHunks('b\r\nc\r\n', file.hunks, true), 'a\r\nc\r\n');
+  assert.strictEqual(applyHunks('a\nc\n', file.hunks, false), 'b\nc\n');
+});
@@ -0,0 +1,54 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const USER_SERVICE = (name) => `export const getUser = () => '${name}';
+`;
+
+const SOURCES = {
+  // The aliases come from the base config through 'extends'
+  'tsconfig.base.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], '~lib/*': ['src/lib/*'] } } }),
+  'tsconfig.json': JSON.stringify({ extends: './tsconfig.base.json', compilerOptions: { outDir: 'lib', module: 'commonjs' }, include: ['src'] }),
+  'src/index.ts': `export * from './users';
+export * from './db';
+export * from './hello';
+`,
+  'src/services/user.ts': USER_SERVICE('ada'),
+  'src/lib/db.ts': `export const connect = () => 'connected';
+`,
+  'src/users.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { getUser } from '@/services/user';
+export const fetchUser = onCall(() => getUser());
+`,
+  'src/db.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { connect } from '~lib/db';
+export const ping = onCall(() => connect());
+`,
+  'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+};
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('importers through a tsconfig path alias are affected', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/services/user.ts': USER_SERVICE('grace') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['fetchUser']);
+});
+
+test('a prefix alias resolves to its own directory', () => {
+  project = createProject(SOURCES);
+
+  const { status, stdout } = runCli(project.functionsRoot, 'impact', 'src/lib/db.ts#connect', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['ping']);
+});
@@ -0,0 +1,56 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const DB = (prefix) => `export const get = (id: string) => '${prefix}' + id;
+export const getUser = (id: string) => ({ id });
+`;
+
+const SOURCES = {
+  'src/index.ts': `export * from './direct';
+export * from './aliases';
+`,
+  'src/db.ts': DB('user/'),
+  'src/api.ts': `export { get as read } from './db';
+`,
+  'src/direct.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { get, getUser } from './db';
+export const direct = onCall(() => get('1'));
+export const shadowed = onCall(() => { const get = (id: string) => id; return get('1'); });
+export const substring = onCall(() => getUser('1'));
+// get is not called here
+export const mentioned = onCall(() => 'get');
+`,
+  'src/aliases.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { get as fetch } from './db';
+import * as db from './db';
+import { read } from './api';
+export const renamed = onCall(() => fetch('1'));
+export const namespaced = onCall(() => db.get('1'));
+export const reexported = onCall(() => read('1'));
+`,
+};
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('--precise affects exactly the entities referencing the changed symbol', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/db.ts': DB('users/') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--precise', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['direct', 'namespaced', 'reexported', 'renamed']);
+});
+
+test('--precise works with impact', () => {
+  project = createProject(SOURCES);
+
+  const { status, stdout } = runCli(project.functionsRoot, 'impact', 'src/db.ts#getUser', '--precise', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['substring']);
+});
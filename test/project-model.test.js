@@ -0,0 +1,76 @@
+const assert = require('node:assert');
+const { spawnSync } = require('child_process');
+const path = require('path');
+const { afterEach, test } = require('node:test');
+const { createProject, removeProject } = require('./helpers');
+
+const DIST = path.join(__dirname, '..', 'dist', 'core');
+
+// Counts the reads of each project file while analyzing several seeds, and dumps the import graph
+const ANALYZE_SEEDS = `const fs = require('fs');
+const path = require('path');
+const reads = {};
+const readFileSync = fs.readFileSync;
+fs.readFileSync = function (file, ...args) {
+  if (typeof file === 'string' && file.includes(path.sep + 'src' + path.sep)) {
+    const key = path.relative(process.cwd(), file);
+    reads[key] = (reads[key] || 0) + 1;
+  }
+  return readFileSync.call(this, file, ...args);
+};
+const { FaeptsAnalyzer } = require(${JSON.stringify(path.join(DIST, 'analyzer.js'))});
+const analyzer = new FaeptsAnalyzer({ cache: false, jobs: 1 });
+const file = (name) => path.join(analyzer.root, 'src', name);
+analyzer.findAffectedFunctionsRecursive({ path: file('db.ts'), fn: 'getUser' });
+analyzer.findAffectedFunctionsRecursive({ path: file('db.ts'), fn: 'saveUser' });
+analyzer.findAffectedFunctionsRecursive({ path: file('format.ts'), fn: 'format' });
+const relative = (files) => files.map(f => path.relative(analyzer.root, f)).sort();
+console.log(JSON.stringify({
+  reads,
+  endpoints: analyzer.endPoints.map(e => e.fn).sort(),
+  importersOfDb: relative(analyzer.model.getImporters(file('db.ts'))),
+  importsOfUsers: relative(analyzer.model.getImports(file('users.ts'))),
+}));
+`;
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('the project model reads each file once for all seeds and indexes importers', () => {
+  project = createProject({
+    'src/index.ts': `export * from './users';
+export * from './reports';
+`,
+    'src/db.ts': `import { format } from './format';
+export const getUser = (id: string) => format(id);
+export const saveUser = (id: string) => id;
+`,
+    'src/format.ts': `export const format = (text: string) => text.trim();
+`,
+    'src/users.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { getUser, saveUser } from './db';
+export const fetchUser = onCall(() => getUser('1'));
+export const storeUser = onCall(() => saveUser('1'));
+`,
+    'src/reports.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { format } from './format';
+export const report = onCall(() => format('r'));
+`,
+  });
+
+  const result = spawnSync(process.execPath, ['-e', ANALYZE_SEEDS], { cwd: project.functionsRoot, encoding: 'utf8', timeout: 60000 });
+  assert.strictEqual(result.status, 0, result.stderr);
+  const { reads, endpoints, importersOfDb, importsOfUsers } = JSON.parse(result.stdout);
+
+  assert.deepStrictEqual(endpoints, ['fetchUser', 'report', 'storeUser']);
+  assert.deepStrictEqual(importersOfDb, ['src/users.ts']);
+  assert.deepStrictEqual(importsOfUsers, ['src/db.ts']);
+  assert.deepStrictEqual(Object.keys(reads).sort(), ['src/db.ts', 'src/format.ts', 'src/index.ts', 'src/reports.ts', 'src/users.ts']);
+  for (const [file, count] of Object.entries(reads)) {
+    assert.strictEqual(count, 1, `${file} was read ${count} times`);
+  }
+});
@@ -0,0 +1,71 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const CONFIG = ({ maxPlayers = 4, minPlayers = 2, active = 'active', timeout = 30 } = {}) => `export const CONFIG = Object.freeze({
+  limits: { maxPlayers: ${maxPlayers}, minPlayers: ${minPlayers} },
+  name: 'game',
+});
+export enum Status { Active = '${active}', Closed = 'closed' }
+export class Settings {
+  static LIMITS = { timeout: ${timeout}, retries: 3 };
+}
+`;
+
+const SOURCES = {
+  'src/index.ts': `export * from './games';
+export * from './aliased';
+`,
+  'src/config.ts': CONFIG(),
+  'src/games.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { CONFIG, Settings, Status } from './config';
+export const maxPlayers = onCall(() => CONFIG.limits.maxPlayers);
+export const minPlayers = onCall(() => CONFIG.limits.minPlayers);
+export const gameName = onCall(() => CONFIG.name);
+export const allLimits = onCall(() => Object.keys(CONFIG.limits));
+export const active = onCall(() => Status.Active);
+export const closed = onCall(() => Status.Closed);
+export const timeout = onCall(() => Settings.LIMITS.timeout);
+export const retries = onCall(() => Settings.LIMITS.retries);
+`,
+  'src/aliased.ts': `import { onCall } from 'firebase-functions/v2/https';
+import * as C from './config';
+import { CONFIG as SETTINGS } from './config';
+export const namespacedMax = onCall(() => C.CONFIG.limits.maxPlayers);
+export const aliasedName = onCall(() => SETTINGS.name);
+`,
+};
+
+let project;
+
+/**
+ * Changes the config file and returns the affected endpoints.
+ */
+function affectedBy(config) {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/config.ts': config });
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  return parseAffectedEndpoints(stdout);
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a nested property change affects its users, through aliases and namespaces, and the users of the enclosing object as a whole', () => {
+  assert.deepStrictEqual(affectedBy(CONFIG({ maxPlayers: 8 })), ['allLimits', 'maxPlayers', 'namespacedMax']);
+});
+
+test('an enum member change affects the users of that member', () => {
+  assert.deepStrictEqual(affectedBy(CONFIG({ active: 'open' })), ['active']);
+});
+
+test('a static class field property change affects the users of that property', () => {
+  assert.deepStrictEqual(affectedBy(CONFIG({ timeout: 60 })), ['timeout']);
+});
+
+test('a removed property changes its enclosing object', () => {
+  assert.deepStrictEqual(affectedBy(CONFIG().replace(', minPlayers: 2', '')), ['allLimits', 'maxPlayers', 'minPlayers', 'namespacedMax']);
+});
@@ -0,0 +1,74 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, git, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const INDEX = `export * from './games';
+export * from './hello';
+`;
+
+const GAMES = (result) => `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => '${result}');
+`;
+
+const HELLO = (greeting) => `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('${greeting}'); });
+`;
+
+let project;
+
+/**
+ * Creates a project with three commits: the initial one (tagged v1), a change
+ * to 'play', then a change to 'hello'.
+ */
+function createHistory() {
+  project = createProject({ 'src/index.ts': INDEX, 'src/games.ts': GAMES('played'), 'src/hello.ts': HELLO('hi') });
+  git(project.root, 'tag', 'v1');
+  writeFiles(project.functionsRoot, { 'src/games.ts': GAMES('won') });
+  git(project.root, 'commit', '-q', '-am', 'play');
+  writeFiles(project.functionsRoot, { 'src/hello.ts': HELLO('hello') });
+  git(project.root, 'commit', '-q', '-am', 'hello');
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('--base and --head compare the two refs', () => {
+  createHistory();
+  // The working tree does not count when a head ref is given
+  writeFiles(project.functionsRoot, { 'src/games.ts': GAMES('lost') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--base', 'HEAD~1', '--head', 'HEAD', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello']);
+});
+
+test('--since-tag compares an untagged head with the latest matching tag', () => {
+  createHistory();
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--since-tag', 'v*', '--head', 'HEAD', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('--since-tag compares a tagged head with the previous matching tag', () => {
+  createHistory();
+  git(project.root, 'tag', 'v2');
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--since-tag', 'v*', '--head', 'HEAD', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('--since-tag fails without a matching tag before head, unless --fallback-all', () => {
+  createHistory();
+
+  const failed = runCli(project.functionsRoot, 'analyze', '--since-tag', 'release-*', '--no-cache');
+  assert.strictEqual(failed.status, 1);
+  assert.match(failed.stderr, /No tag matching 'release-\*'/);
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--since-tag', 'release-*', '--fallback-all', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
@@ -0,0 +1,57 @@
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { afterEach, test } = require('node:test');
+const { createProject, parseSection, removeProject, runCli, writeFiles } = require('./helpers');
+
+const INDEX = `export * from './games';
+export * from './hello';
+`;
+
+const GAMES = `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => 'played');
+export const quit = onCall(() => 'bye');
+`;
+
+const HELLO = `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`;
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a deleted endpoint is listed with a delete command', () => {
+  project = createProject({ 'src/index.ts': INDEX, 'src/games.ts': GAMES, 'src/hello.ts': HELLO });
+  writeFiles(project.functionsRoot, { 'src/games.ts': GAMES.replace("export const quit = onCall(() => 'bye');\n", '') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseSection(stdout, 'Removed endpoints:'), ['quit']);
+  assert.deepStrictEqual(parseSection(stdout, 'Ready to delete:'), ['firebase functions:delete quit --force']);
+});
+
+test('the endpoints of a deleted file are listed for deletion', () => {
+  project = createProject({ 'src/index.ts': INDEX, 'src/games.ts': GAMES, 'src/hello.ts': HELLO });
+  fs.rmSync(path.join(project.functionsRoot, 'src/games.ts'));
+  writeFiles(project.functionsRoot, { 'src/index.ts': `export * from './hello';\n` });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseSection(stdout, 'Removed endpoints:').sort(), ['play', 'quit']);
+});
+
+test('an endpoint moved to another file is not listed for deletion', () => {
+  project = createProject({ 'src/index.ts': INDEX, 'src/games.ts': GAMES, 'src/hello.ts': HELLO });
+  writeFiles(project.functionsRoot, {
+    'src/games.ts': GAMES.replace("export const quit = onCall(() => 'bye');\n", ''),
+    'src/hello.ts': `${HELLO}export const quit = onRequest((req, res) => { res.send('bye'); });\n`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseSection(stdout, 'Removed endpoints:'), []);
+});
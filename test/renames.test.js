@@ -0,0 +1,96 @@
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { afterEach, test } = require('node:test');
+const { createProject, git, parseAffectedEndpoints, parseSection, removeProject, runCli, writeFiles } = require('./helpers');
+
+const FORMAT = `export const format = (name: string) => name.toUpperCase();
+`;
+
+const GAMES = (formatPath) => `import { onCall } from 'firebase-functions/v2/https';
+import { format } from '${formatPath}';
+export const play = onCall(() => format('played'));
+`;
+
+const HELLO = `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`;
+
+let project;
+
+/**
+ * Moves a file of the codebase with 'git mv', creating the target directory.
+ */
+function gitMove(from, to) {
+  fs.mkdirSync(path.dirname(path.join(project.functionsRoot, to)), { recursive: true });
+  git(project.root, 'mv', `functions/${from}`, `functions/${to}`);
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a moved helper affects the importers of its new path', () => {
+  project = createProject({
+    'src/index.ts': `export * from './games';
+export * from './hello';
+`,
+    'src/games.ts': GAMES('./utils/format'),
+    'src/utils/format.ts': FORMAT,
+    'src/hello.ts': HELLO,
+  });
+  gitMove('src/utils/format.ts', 'src/lib/format.ts');
+  writeFiles(project.functionsRoot, {
+    'src/lib/format.ts': FORMAT.replace('toUpperCase', 'toLowerCase'),
+    'src/games.ts': GAMES('./lib/format'),
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['play']);
+  assert.deepStrictEqual(parseSection(stdout, 'Removed endpoints:'), []);
+});
+
+test('a helper moved without git mv (an untracked file) is followed as well', () => {
+  project = createProject({
+    'src/index.ts': `export * from './games';
+export * from './hello';
+`,
+    'src/games.ts': GAMES('./utils/format'),
+    'src/utils/format.ts': FORMAT,
+    'src/hello.ts': HELLO,
+  });
+  fs.rmSync(path.join(project.functionsRoot, 'src/utils/format.ts'));
+  writeFiles(project.functionsRoot, {
+    'src/lib/format.ts': FORMAT.replace('toUpperCase', 'toLowerCase'),
+    'src/games.ts': GAMES('./lib/format'),
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['play']);
+});
+
+test('an endpoint file moved to another group is reported with its old and new deploy names', () => {
+  const index = (gamesPath) => `exports.gf = require('${gamesPath}');
+exports.misc = require('./hello');
+`;
+  project = createProject({
+    'src/index.ts': index('./games'),
+    'src/games.ts': `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => 'played');
+`,
+    'src/hello.ts': HELLO,
+  });
+  gitMove('src/games.ts', 'src/arcade/games.ts');
+  writeFiles(project.functionsRoot, {
+    'src/index.ts': `exports.arcade = require('./arcade/games');
+exports.misc = require('./hello');
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseSection(stdout, 'Moved endpoints (deploy name changed):'), ['gf-play -> arcade-play']);
+});
@@ -0,0 +1,58 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, parseSection, removeProject, runCli, writeFiles } = require('./helpers');
+
+const MODEL = ({ userFields = 'id: string;', prefix = 'user-' } = {}) => `export interface User { ${userFields} }
+export const makeUser = (id: string): User => ({ id: '${prefix}' + id } as User);
+`;
+
+const SOURCES = {
+  'src/index.ts': `export * from './users';
+export * from './hello';
+`,
+  'src/model.ts': MODEL(),
+  'src/users.ts': `import { onCall } from 'firebase-functions/v2/https';
+import type { User } from './model';
+import { makeUser } from './model';
+export const createUser = onCall(() => makeUser('1'));
+export const describeUser = onCall((request): User => request.data);
+`,
+  'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+};
+
+let project;
+
+/**
+ * Changes the model file and runs analyze with the given flags.
+ */
+function analyze(model, ...flags) {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/model.ts': model });
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', ...flags, '--no-cache');
+  assert.strictEqual(status, 0);
+  return stdout;
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('an interface change affects its users by default', () => {
+  const stdout = analyze(MODEL({ userFields: 'id: string; name?: string;' }));
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['createUser', 'describeUser']);
+});
+
+test('--runtime-only reports the endpoints affected by an interface change apart', () => {
+  const stdout = analyze(MODEL({ userFields: 'id: string; name?: string;' }), '--runtime-only');
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), []);
+  assert.deepStrictEqual(parseSection(stdout, 'Type-only changes (not deployed with --runtime-only):').sort(), ['createUser', 'describeUser']);
+});
+
+test('--runtime-only still follows runtime changes', () => {
+  const stdout = analyze(MODEL({ prefix: 'u-' }), '--runtime-only');
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['createUser']);
+  assert.deepStrictEqual(parseSection(stdout, 'Type-only changes (not deployed with --runtime-only):'), []);
+});
@@ -0,0 +1,116 @@
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { afterEach, test } = require('node:test');
+const { createProject, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const SOURCES = {
+  'src/config.ts': `export const REGION = 'europe-west1';
+`,
+  'src/index.ts': `import { setGlobalOptions } from 'firebase-functions/v2';
+import { REGION } from './config';
+setGlobalOptions({ region: REGION });
+export * from './games';
+export * from './hello';
+`,
+  'src/games.ts': `import { onCall } from 'firebase-functions/v2/https';
+import chunk from 'lodash/chunk';
+export const play = onCall(() => chunk([1, 2], 1));
+`,
+  'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('hi'); });
+`,
+  'package.json': JSON.stringify({ name: 'functions', main: 'lib/index.js', dependencies: { lodash: '^4.17.0' } }),
+  'package-lock.json': lockfile('4.17.20'),
+  '.env': 'GREETING=hi\n',
+};
+
+/**
+ * Creates a package-lock.json resolving lodash to a version.
+ */
+function lockfile(lodashVersion) {
+  return JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      '': { dependencies: { lodash: '^4.17.0' } },
+      'node_modules/lodash': { version: lodashVersion, resolved: `https://registry.npmjs.org/lodash/-/lodash-${lodashVersion}.tgz` },
+    },
+  });
+}
+
+let project;
+let manifestPath;
+
+/**
+ * Creates the project and writes its snapshot to the path given as positional argument.
+ */
+function snapshotProject() {
+  project = createProject(SOURCES);
+  manifestPath = path.join(project.root, 'deployed.json');
+  const { status } = runCli(project.functionsRoot, 'snapshot', manifestPath, '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.ok(fs.existsSync(manifestPath));
+}
+
+/**
+ * Compares the working tree against the snapshot.
+ */
+function analyzeAgainstSnapshot() {
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--against', manifestPath, '--no-cache');
+  assert.strictEqual(status, 0);
+  return stdout;
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('snapshot rejects more than one manifest path', () => {
+  project = createProject(SOURCES);
+  const { status, stderr } = runCli(project.functionsRoot, 'snapshot', 'a.json', '--output', 'b.json');
+  assert.strictEqual(status, 1);
+  assert.match(stderr, /single manifest path/);
+});
+
+test('an unchanged project has no affected endpoints', () => {
+  snapshotProject();
+  assert.deepStrictEqual(parseAffectedEndpoints(analyzeAgainstSnapshot()), []);
+});
+
+test('a constant passed to setGlobalOptions() affects every endpoint of the version', () => {
+  snapshotProject();
+  writeFiles(project.functionsRoot, { 'src/config.ts': `export const REGION = 'us-central1';\n` });
+
+  const stdout = analyzeAgainstSnapshot();
+  assert.match(stdout, /global options changed \(v2\)/);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('a firebase.json runtime change affects every endpoint', () => {
+  snapshotProject();
+  writeFiles(project.root, {
+    'firebase.json': JSON.stringify({ functions: [{ source: 'functions', codebase: 'default', runtime: 'nodejs20' }] }),
+  });
+
+  const stdout = analyzeAgainstSnapshot();
+  assert.match(stdout, /firebase\.json: functions configuration \(runtime\) changed/);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('an .env change affects every endpoint without storing its values', () => {
+  snapshotProject();
+  assert.doesNotMatch(fs.readFileSync(manifestPath, 'utf8'), /GREETING/);
+  writeFiles(project.functionsRoot, { '.env': 'GREETING=hello\n' });
+
+  const stdout = analyzeAgainstSnapshot();
+  assert.match(stdout, /\.env: environment variables changed/);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello', 'play']);
+});
+
+test('a lockfile resolution change affects the endpoints using the package only', () => {
+  snapshotProject();
+  writeFiles(project.functionsRoot, { 'package-lock.json': lockfile('4.17.21') });
+
+  assert.deepStrictEqual(parseAffectedEndpoints(analyzeAgainstSnapshot()), ['play']);
+});
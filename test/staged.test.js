@@ -0,0 +1,59 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, git, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const GAMES = (played, quit) => `import { onCall } from 'firebase-functions/v2/https';
+export const play = onCall(() => '${played}');
+export const quit = onCall(() => '${quit}');
+`;
+
+const HELLO = (greeting) => `import { onRequest } from 'firebase-functions/v2/https';
+export const hello = onRequest((req, res) => { res.send('${greeting}'); });
+`;
+
+const SOURCES = {
+  'src/index.ts': `export * from './games';
+export * from './hello';
+`,
+  'src/games.ts': GAMES('played', 'bye'),
+  'src/hello.ts': HELLO('hi'),
+};
+
+let project;
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('--staged ignores unstaged changes and untracked files', () => {
+  project = createProject(SOURCES);
+  writeFiles(project.functionsRoot, { 'src/games.ts': GAMES('won', 'bye') });
+  git(project.root, 'add', 'functions/src/games.ts');
+  writeFiles(project.functionsRoot, {
+    'src/hello.ts': HELLO('hello'),
+    'src/extra.ts': `import { onCall } from 'firebase-functions/v2/https';
+export const extra = onCall(() => 1);
+`,
+  });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--staged', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['play']);
+});
+
+test('--staged resolves a partially staged file against the index', () => {
+  project = createProject(SOURCES);
+  // Staged: 'play' changed; unstaged on top: 'quit' changed and a line added before both
+  writeFiles(project.functionsRoot, { 'src/games.ts': GAMES('won', 'bye') });
+  git(project.root, 'add', 'functions/src/games.ts');
+  writeFiles(project.functionsRoot, { 'src/games.ts': `// unstaged\n${GAMES('won', 'later')}` });
+
+  const staged = runCli(project.functionsRoot, 'analyze', '--staged', '--no-cache');
+  assert.strictEqual(staged.status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(staged.stdout), ['play']);
+
+  const workingTree = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(workingTree.status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(workingTree.stdout), ['play', 'quit']);
+});
@@ -0,0 +1,73 @@
+const assert = require('node:assert');
+const { afterEach, test } = require('node:test');
+const { createProject, git, parseAffectedEndpoints, removeProject, runCli, writeFiles } = require('./helpers');
+
+const STRINGS = (suffix) => `export const shout = (text: string) => text.toUpperCase() + '${suffix}';
+`;
+
+let project;
+
+/**
+ * Creates a monorepo (npm workspaces, or pnpm with pnpm-workspace.yaml): the
+ * functions codebase and '@acme/shared' in 'packages/shared', built from 'src' to 'lib'.
+ */
+function createMonorepo(manager = 'npm') {
+  project = createProject({
+    'package.json': JSON.stringify({ name: 'functions', main: 'lib/index.js', dependencies: { '@acme/shared': '*' } }),
+    'src/index.ts': `export * from './greet';
+export * from './hello';
+`,
+    'src/greet.ts': `import { onCall } from 'firebase-functions/v2/https';
+import { shout } from '@acme/shared/strings';
+export const greet = onCall(() => shout('hi'));
+`,
+    'src/hello.ts': `import { onRequest } from 'firebase-functions/v2/https';
+import { VERSION } from '@acme/shared';
+export const hello = onRequest((req, res) => { res.send(VERSION); });
+`,
+  });
+  writeFiles(project.root, {
+    ...(manager === 'pnpm'
+      ? { 'package.json': JSON.stringify({ private: true }), 'pnpm-workspace.yaml': "packages:\n  - 'functions'\n  - 'packages/*'\n" }
+      : { 'package.json': JSON.stringify({ private: true, workspaces: ['functions', 'packages/*'] }) }),
+    'packages/shared/package.json': JSON.stringify({ name: '@acme/shared', main: 'lib/index.js', types: 'lib/index.d.ts' }),
+    'packages/shared/tsconfig.json': JSON.stringify({ compilerOptions: { outDir: 'lib', rootDir: 'src' } }),
+    'packages/shared/src/index.ts': `export const VERSION = '1.0.0';
+`,
+    'packages/shared/src/strings.ts': STRINGS('!'),
+  });
+  git(project.root, 'add', '-A');
+  git(project.root, 'commit', '-q', '-m', 'workspaces');
+}
+
+afterEach(() => {
+  if (project) removeProject(project);
+  project = undefined;
+});
+
+test('a change in a workspace package affects the endpoints importing it', () => {
+  createMonorepo();
+  writeFiles(project.root, { 'packages/shared/src/strings.ts': STRINGS('!!') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['greet']);
+});
+
+test('a bare workspace package import resolves to its source entry point', () => {
+  createMonorepo();
+  writeFiles(project.root, { 'packages/shared/src/index.ts': `export const VERSION = '2.0.0';\n` });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['hello']);
+});
+
+test('pnpm workspaces are detected from pnpm-workspace.yaml', () => {
+  createMonorepo('pnpm');
+  writeFiles(project.root, { 'packages/shared/src/strings.ts': STRINGS('!!') });
+
+  const { status, stdout } = runCli(project.functionsRoot, 'analyze', '--no-cache');
+  assert.strictEqual(status, 0);
+  assert.deepStrictEqual(parseAffectedEndpoints(stdout), ['greet']);
+});